@@ -1,5 +1,4 @@
 import { IndexedDbKV, KVStorageAdapter, MemoryStorageBackend } from "./index";
-import type { KVNamespace } from "./index";
 
 export * from "./index";
 
@@ -10,7 +9,7 @@ export function createKV(
   opts?: ConstructorParameters<typeof IndexedDbKV>[0] & {
     forceMemory?: boolean;
   },
-): KVNamespace {
+): KVStorageAdapter {
   if (opts?.forceMemory) {
     return new KVStorageAdapter(new MemoryStorageBackend(), opts);
   }
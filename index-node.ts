@@ -1,9 +1,14 @@
 import { IndexedDbKV, KVStorageAdapter, MemoryStorageBackend } from "./index";
-import type { KVNamespace } from "./index";
 import { NodeFileSystemStorageBackend } from "./src/storage-backend-node";
 
 export * from "./index";
 export { NodeFileSystemStorageBackend };
+export type {
+  NodeDurability,
+  NodeLogPosition,
+  NodeStorageOptions,
+  NodeStorageStats,
+} from "./src/storage-backend-node";
 export { NodeProvider } from "./src/encryption/node/node-provider";
 
 /**
@@ -13,7 +18,7 @@ export function createKV(
   opts?: ConstructorParameters<typeof IndexedDbKV>[0] & {
     forceMemory?: boolean;
   },
-): KVNamespace {
+): KVStorageAdapter {
   if (opts?.forceMemory) {
     return new KVStorageAdapter(new MemoryStorageBackend(), opts);
   }
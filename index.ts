@@ -13,9 +13,26 @@ export {
   MemoryStorageBackend,
   IndexedDbStorageBackend,
 } from "./src/storage-backend";
-export type { StorageBackend } from "./src/storage-backend";
+export type {
+  StorageBackend,
+  StorageCorruptRange,
+  StorageVerifyReport,
+  StoredStream,
+} from "./src/storage-backend";
+
+export { KVConflictError, KVLockedError, KVReadOnlyError } from "./src/errors";
 
 export { BaseEncryptionProvider } from "./src/encryption/encryption-provider";
+export { KeyringEncryptionProvider } from "./src/encryption/keyring-provider";
+export type { KeyringKey } from "./src/encryption/keyring-provider";
+export { DispatchingEncryptionProvider } from "./src/encryption/dispatching-provider";
+export type { DispatchingProviderOptions } from "./src/encryption/dispatching-provider";
+export {
+  sealEnvelope,
+  readEnvelope,
+  openEnvelope,
+} from "./src/encryption/envelope";
+export type { CiphertextEnvelope } from "./src/encryption/envelope";
 
 export {
   WebCryptoEncryptionProvider,
@@ -44,8 +61,22 @@ export type {
 export type {
   KVGetOptions,
   KVPutOptions,
+  KVPutEntry,
+  KVMutateOptions,
+  KVReencryptOptions,
+  KVReencryptProgress,
+  KVKeyBlindingOptions,
+  KVDeleteOptions,
+  KVWriteCondition,
   KVListOptions,
   KVListKey,
+  KVIterateOptions,
+  KVIterateEntry,
   KVListResult,
   KVNamespace,
+  KVTransaction,
+  KVChangeType,
+  KVChangeEvent,
+  KVWatchOptions,
+  KVWatchListener,
 } from "./src/types";
@@ -1,8 +1,12 @@
-import { describe, it, expect } from "bun:test";
+import { describe, it, expect, spyOn } from "bun:test";
 import { KVStorageAdapter } from "./storage-adapter";
 import { MemoryStorageBackend } from "./storage-backend";
-import { kvGetText, kvGetJson } from "./kv";
+import { kvGetText, kvGetJson, kvGetStream } from "./kv";
 import { BaseEncryptionProvider } from "./encryption/encryption-provider";
+import { KeyringEncryptionProvider } from "./encryption/keyring-provider";
+import { WebCryptoEncryptionProvider } from "./encryption/web/web-provider";
+import { KVConflictError } from "./errors";
+import type { KVChangeEvent } from "./types";
 
 class TestEncryptionProvider extends BaseEncryptionProvider {
   readonly providerId = "test-provider";
@@ -92,6 +96,270 @@ describe("KVStorageAdapter with MemoryStorageBackend", () => {
     expect(page3.list_complete).toBe(true);
   });
 
+  it("batches getMany/putMany/deleteMany", async () => {
+    const backend = new MemoryStorageBackend();
+    const kv = new KVStorageAdapter(backend);
+
+    await kv.putMany([
+      { key: "batch/1", value: "one" },
+      { key: "batch/2", value: { n: 2 } },
+      { key: "batch/3", value: "three", options: { metadata: { tag: "x" } } },
+    ]);
+
+    expect(await kv.getMany(["batch/1", "missing", "batch/3"])).toEqual([
+      "one",
+      null,
+      "three",
+    ]);
+    expect(await kv.getMany(["batch/2"], { type: "json" })).toEqual([{ n: 2 }]);
+
+    await kv.deleteMany(["batch/1", "batch/2"]);
+    const result = await kv.list({ prefix: "batch/" });
+    expect(result.keys).toEqual([{ name: "batch/3", metadata: { tag: "x" } }]);
+  });
+
+  it("returns increasing versions and etags from getWithMetadata", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+
+    await kv.put("v", "one");
+    const first = await kv.getWithMetadata("v");
+    expect(first.version).toBe(1);
+    expect(typeof first.etag).toBe("string");
+
+    await kv.put("v", "two");
+    const second = await kv.getWithMetadata("v");
+    expect(second.version).toBe(2);
+    expect(second.etag).not.toBe(first.etag);
+
+    const missing = await kv.getWithMetadata("nope");
+    expect(missing.version).toBeNull();
+    expect(missing.etag).toBeNull();
+  });
+
+  it("enforces onlyIfAbsent, ifVersion and ifMatch", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+
+    await kv.put("cas", "a", { onlyIfAbsent: true });
+    await expect(
+      kv.put("cas", "b", { onlyIfAbsent: true }),
+    ).rejects.toBeInstanceOf(KVConflictError);
+
+    const { version, etag } = await kv.getWithMetadata("cas");
+    await kv.put("cas", "b", { ifVersion: version! });
+    await expect(kv.put("cas", "c", { ifVersion: version! })).rejects.toThrow(
+      KVConflictError,
+    );
+    await expect(kv.put("cas", "c", { ifMatch: etag! })).rejects.toThrow(
+      KVConflictError,
+    );
+    expect(await kv.get("cas")).toBe("b");
+
+    await expect(kv.delete("cas", { ifVersion: 1 })).rejects.toThrow(
+      KVConflictError,
+    );
+    const current = await kv.getWithMetadata("cas");
+    await kv.delete("cas", { ifMatch: current.etag! });
+    expect(await kv.get("cas")).toBeNull();
+  });
+
+  it("puts a batch with conditions all or nothing", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("taken", "first");
+
+    await expect(
+      kv.putMany([
+        { key: "free", value: "x" },
+        { key: "taken", value: "second", options: { onlyIfAbsent: true } },
+      ]),
+    ).rejects.toBeInstanceOf(KVConflictError);
+    expect(await kv.get("taken")).toBe("first");
+    expect(await kv.get("free")).toBeNull();
+
+    const { version } = await kv.getWithMetadata("taken");
+    await kv.putMany([
+      { key: "free", value: "x", options: { onlyIfAbsent: true } },
+      { key: "taken", value: "second", options: { ifVersion: version! } },
+    ]);
+    expect(await kv.getMany(["free", "taken"])).toEqual(["x", "second"]);
+  });
+
+  it("continues a re-created key's versions past its deleted record", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+
+    await kv.put("aba", "first");
+    const { version } = await kv.getWithMetadata("aba");
+    await kv.delete("aba");
+    await kv.put("aba", "unrelated");
+
+    expect((await kv.getWithMetadata("aba")).version).toBe(2);
+    await expect(
+      kv.put("aba", "stale", { ifVersion: version! }),
+    ).rejects.toThrow(KVConflictError);
+
+    await kv.put("aba", "short", { expirationTtl: 60 });
+    await kv.transaction(async (tx) => {
+      await tx.delete("aba");
+      await tx.put("aba", "again");
+    });
+    expect((await kv.getWithMetadata("aba")).version).toBe(4);
+  });
+
+  it("does not serve stale cache entries after a failed conditional put", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+
+    await kv.put("cached", "x");
+    expect(await kv.get("cached", { cacheTtl: 60 })).toBe("x");
+    await expect(
+      kv.put("cached", "y", { onlyIfAbsent: true }),
+    ).rejects.toBeInstanceOf(KVConflictError);
+    const { value, version } = await kv.getWithMetadata("cached", {
+      cacheTtl: 60,
+    });
+    expect(value).toBe("x");
+    expect(version).toBe(1);
+  });
+
+  it("delivers watch events filtered by prefix and keys", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    const byPrefix: KVChangeEvent[] = [];
+    const byKey: KVChangeEvent[] = [];
+    const stopPrefix = kv.watch({ prefix: "user:" }, (e) => byPrefix.push(e));
+    const stopKey = kv.watch(
+      { keys: ["config"], includeValue: true, type: "json" },
+      (e) => byKey.push(e),
+    );
+
+    await kv.put("user:1", "a", { metadata: { role: "admin" } });
+    await kv.put("config", { debug: true });
+    await kv.delete("user:1");
+    await kv.delete("missing");
+    await Bun.sleep(0);
+
+    expect(byPrefix.map((e) => [e.type, e.key, e.version])).toEqual([
+      ["put", "user:1", 1],
+      ["delete", "user:1", 1],
+    ]);
+    expect(byPrefix[0]!.metadata).toEqual({ role: "admin" });
+    expect(byKey).toHaveLength(1);
+    expect(byKey[0]!.value).toEqual({ debug: true });
+
+    stopPrefix();
+    stopKey();
+    await kv.put("user:2", "b");
+    await Bun.sleep(0);
+    expect(byPrefix).toHaveLength(2);
+  });
+
+  it("reports removal of an expired key as an expire event", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    const events: KVChangeEvent[] = [];
+    kv.watch({}, (e) => events.push(e));
+
+    await kv.put("temp", "x", { expirationTtl: 60 });
+    await kv.put("short", "y", { expiration: Math.floor(Date.now() / 1000) });
+    await kv.delete("short");
+    await Bun.sleep(0);
+
+    expect(events.map((e) => e.type)).toEqual(["put", "put", "expire"]);
+    expect(events[0]!.expiration).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it("purges expired records on demand in batches", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend(), {
+      sweepBatchSize: 2,
+    });
+    const past = Math.floor(Date.now() / 1000) - 1;
+    for (let i = 0; i < 5; i++) {
+      await kv.put(`old:${i}`, "x", { expiration: past });
+    }
+    await kv.put("fresh", "y", { expirationTtl: 60 });
+    await kv.put("forever", "z");
+
+    expect(await kv.purgeExpired()).toBe(5);
+    expect(await kv.purgeExpired()).toBe(0);
+    expect(await kv.get("fresh")).toBe("y");
+    expect(await kv.get("forever")).toBe("z");
+  });
+
+  it("runs the background sweeper and reports purged counts", async () => {
+    const reports: number[] = [];
+    const kv = new KVStorageAdapter(new MemoryStorageBackend(), {
+      sweepIntervalMs: 5,
+      onSweep: (n) => reports.push(n),
+    });
+    await kv.put("gone", "x", { expiration: Math.floor(Date.now() / 1000) });
+
+    const events: string[] = [];
+    kv.watch({}, (e) => events.push(e.type));
+    await Bun.sleep(30);
+    await kv.close();
+
+    expect(reports[0]).toBe(1);
+    expect(reports.slice(1).every((n) => n === 0)).toBe(true);
+    expect(events).toEqual(["expire"]);
+  });
+
+  it("does not let a lazy expired delete remove a newer put", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("k", "old", { expiration: Math.floor(Date.now() / 1000) });
+
+    const read = kv.get("k");
+    await kv.put("k", "new");
+    expect(await read).toBeNull();
+    await Bun.sleep(0);
+    expect(await kv.get("k")).toBe("new");
+  });
+
+  it("iterates ranges forward and in reverse across pages", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    for (let i = 0; i < 10; i++) {
+      await kv.put(`evt:${String(i).padStart(2, "0")}`, `v${i}`);
+    }
+    await kv.put("other", "x");
+
+    const names = async (it: AsyncIterable<{ name: string }>) => {
+      const out: string[] = [];
+      for await (const e of it) out.push(e.name);
+      return out;
+    };
+
+    expect(
+      await names(
+        kv.iterate({
+          prefix: "evt:",
+          start: "evt:03",
+          end: "evt:07",
+          batchSize: 2,
+        }),
+      ),
+    ).toEqual(["evt:03", "evt:04", "evt:05", "evt:06"]);
+    expect(
+      await names(
+        kv.iterate({
+          prefix: "evt:",
+          end: "evt:05",
+          reverse: true,
+          limit: 3,
+          batchSize: 2,
+        }),
+      ),
+    ).toEqual(["evt:04", "evt:03", "evt:02"]);
+    expect(await names(kv.iterate({ start: "evt:09" }))).toEqual([
+      "evt:09",
+      "other",
+    ]);
+
+    const withValues = [];
+    for await (const e of kv.iterate({
+      prefix: "evt:0",
+      limit: 2,
+      includeValues: true,
+    })) {
+      withValues.push(e.value);
+    }
+    expect(withValues).toEqual(["v0", "v1"]);
+  });
+
   it("works with helper functions", async () => {
     const backend = new MemoryStorageBackend();
     const kv = new KVStorageAdapter(backend);
@@ -122,6 +390,320 @@ describe("KVStorageAdapter with MemoryStorageBackend", () => {
     expect(decrypted).toBe("top-secret-value");
   });
 
+  it("increments atomically under concurrent callers", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+
+    const results = await Promise.all(
+      Array.from({ length: 25 }, () => kv.increment("counter")),
+    );
+    expect(results.sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 25 }, (_, i) => i + 1),
+    );
+    expect(await kv.get("counter", { type: "json" })).toBe(25);
+    expect(await kv.increment("seq", 5, { initial: 100 })).toBe(105);
+    expect(await kv.increment("seq", -10)).toBe(95);
+  });
+
+  it("applies min, max and append mutations", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend(), {
+      encryptionProvider: new TestEncryptionProvider(),
+    });
+
+    expect(await kv.min("low", 7)).toBe(7);
+    expect(await kv.min("low", 9)).toBe(7);
+    expect(await kv.min("low", 3)).toBe(3);
+    expect(await kv.max("high", 3)).toBe(3);
+    expect(await kv.max("high", 8)).toBe(8);
+
+    expect(await kv.append("log", "a")).toBe("a");
+    expect(await kv.append("log", "b")).toBe("ab");
+    expect(await kv.get("log")).toBe("ab");
+    expect(await kv.append("list", 1)).toEqual([1]);
+    expect(await kv.append("list", [2, 3])).toEqual([1, 2, 3]);
+
+    await expect(kv.increment("log")).rejects.toBeInstanceOf(TypeError);
+  });
+
+  it("keeps expiry and metadata across mutations unless overridden", async () => {
+    const backend = new MemoryStorageBackend();
+    const kv = new KVStorageAdapter(backend);
+
+    await kv.increment("rate", 1, { expirationTtl: 60, metadata: { w: 1 } });
+    const first = await backend.get("rate");
+    await kv.increment("rate");
+    const second = await backend.get("rate");
+    expect(second?.expiresAt).toBe(first!.expiresAt);
+    expect(second?.metadata).toEqual({ w: 1 });
+    expect(second?.version).toBe(2);
+
+    await kv.increment("rate", 1, { metadata: { w: 2 } });
+    expect((await backend.get("rate"))?.metadata).toEqual({ w: 2 });
+  });
+
+  it("isolates namespaces from each other and from the parent", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    const users = kv.namespace("users");
+    const jobs = kv.namespace("jobs");
+    expect(kv.namespace("users")).toBe(users);
+
+    await kv.put("shared", "root");
+    await users.put("shared", "users");
+    await jobs.put("j1", "x");
+
+    expect(await kv.get("shared")).toBe("root");
+    expect(await users.get("shared")).toBe("users");
+    expect(await jobs.get("shared")).toBeNull();
+    expect((await kv.list()).keys.map((k) => k.name)).toEqual(["shared"]);
+    expect((await jobs.list()).keys.map((k) => k.name)).toEqual(["j1"]);
+
+    expect(() => kv.namespace("")).toThrow(TypeError);
+    expect(() => kv.namespace("a/b")).toThrow(TypeError);
+    expect(() => kv.namespace("..")).toThrow(TypeError);
+  });
+
+  it("returns decrypted values from list() with includeValues", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend(), {
+      encryptionProvider: new TestEncryptionProvider(),
+    });
+    await kv.put("doc:1", { n: 1 }, { metadata: { tag: "a" } });
+    await kv.put("doc:2", { n: 2 });
+
+    const page = await kv.list({
+      prefix: "doc:",
+      limit: 1,
+      includeValues: true,
+      type: "json",
+    });
+    expect(page.keys).toEqual([
+      { name: "doc:1", metadata: { tag: "a" }, value: { n: 1 } },
+    ]);
+    expect(page).not.toHaveProperty("records");
+
+    const plain = await kv.list({ prefix: "doc:" });
+    expect(plain.keys[0]).not.toHaveProperty("value");
+  });
+
+  it("re-encrypts records under a rotated key", async () => {
+    const backend = new MemoryStorageBackend();
+    const keyring = new KeyringEncryptionProvider({ old: "old key" }, "old");
+    const kv = new KVStorageAdapter(backend, { encryptionProvider: keyring });
+    for (let i = 0; i < 5; i++) {
+      await kv.put(`doc:${i}`, { i }, { metadata: { i } });
+    }
+
+    keyring.addKey("new", "new key");
+    keyring.setActiveKey("new");
+    await kv.put("doc:0", { i: 0, fresh: true });
+
+    const seen: number[] = [];
+    const totals = await kv.reencryptAll({
+      batchSize: 2,
+      onProgress: ({ scanned }) => seen.push(scanned),
+    });
+    expect(totals).toEqual({ scanned: 5, reencrypted: 4 });
+    expect(seen).toEqual([2, 4, 5]);
+
+    keyring.removeKey("old");
+    expect(await kv.get("doc:0", { type: "json" })).toEqual({
+      i: 0,
+      fresh: true,
+    });
+    const { value, metadata } = await kv.getWithMetadata("doc:3", {
+      type: "json",
+    });
+    expect(value).toEqual({ i: 3 });
+    expect(metadata).toEqual({ i: 3 });
+    expect((await kv.reencryptAll()).reencrypted).toBe(0);
+  });
+
+  it("binds encrypted values to their key name", async () => {
+    const backend = new MemoryStorageBackend();
+    const aes = new WebCryptoEncryptionProvider("binding key");
+    const kv = new KVStorageAdapter(backend, { encryptionProvider: aes });
+    await kv.put("alice", "alice's secret");
+
+    // Values written before the binding still read, and are rewritten
+    const alice = await backend.get("alice");
+    const payload = new TextEncoder().encode("\u0001\u0000legacy");
+    await backend.put({
+      ...alice!,
+      key: "old",
+      value: new Blob([Uint8Array.from(await aes.encrypt(payload))]),
+    });
+    expect(await kv.get("old")).toBe("legacy");
+    expect((await kv.reencryptAll()).reencrypted).toBe(2);
+    expect(await kv.get("old")).toBe("legacy");
+
+    // A ciphertext copied to another key no longer decrypts
+    const old = await backend.get("old");
+    await backend.put({ ...old!, key: "bob" });
+    await expect(kv.get("bob")).rejects.toThrow(/Decryption failed/);
+
+    // Nor does one relabelled with another encoding
+    const bytes = new Uint8Array(await (old!.value as Blob).arrayBuffer());
+    bytes[1] = 1;
+    await backend.put({ ...old!, value: new Blob([bytes]) });
+    await expect(kv.get("old")).rejects.toThrow(/Decryption failed/);
+  });
+
+  it("encrypts metadata with encryptMetadata", async () => {
+    const backend = new MemoryStorageBackend();
+    const kv = new KVStorageAdapter(backend, {
+      encryptionProvider: new WebCryptoEncryptionProvider("metadata key"),
+      encryptMetadata: true,
+    });
+    await kv.put("doc", "body", { metadata: { owner: "alice" } });
+    await kv.put("bare", "body");
+
+    expect(JSON.stringify((await backend.get("doc"))!.metadata)).not.toContain(
+      "alice",
+    );
+    expect((await backend.get("bare"))!.metadata).toBeNull();
+    expect((await kv.getWithMetadata("doc")).metadata).toEqual({
+      owner: "alice",
+    });
+    expect((await kv.list()).keys).toEqual([
+      { name: "bare" },
+      { name: "doc", metadata: { owner: "alice" } },
+    ]);
+    expect(
+      () => new KVStorageAdapter(backend, { encryptMetadata: true }),
+    ).toThrow(/need an encryptionProvider/);
+  });
+
+  it("stores blinded keys and still lists and watches real names", async () => {
+    const backend = new MemoryStorageBackend();
+    const kv = new KVStorageAdapter(backend, {
+      encryptionProvider: new WebCryptoEncryptionProvider("value key"),
+      blindKeys: { secret: "blinding key" },
+    });
+    const events: KVChangeEvent[] = [];
+    kv.watch({ prefix: "user:" }, (e) => events.push(e));
+
+    await kv.put("user:1", "a", { metadata: { n: 1 } });
+    await kv.putMany([
+      { key: "user:2", value: "b" },
+      { key: "team:1", value: "c" },
+    ]);
+    await kv.transaction(async (tx) => {
+      await tx.put("user:3", String(await tx.get("user:1")) + "!");
+    });
+    await kv.delete("user:2");
+
+    const stored = (await backend.list({})).keys.map((k) => k.name);
+    expect(stored).toHaveLength(3);
+    expect(stored.join()).not.toMatch(/user|team/);
+
+    expect(await kv.get("user:3")).toBe("a!");
+    expect(await kv.increment("user:count")).toBe(1);
+    const names = (await kv.list({ prefix: "user:" })).keys.map((k) => k.name);
+    expect(names.sort()).toEqual(["user:1", "user:3", "user:count"]);
+    expect((await kv.getWithMetadata("user:1")).metadata).toEqual({ n: 1 });
+
+    await Bun.sleep(0);
+    expect(events.map((e) => [e.type, e.key])).toEqual([
+      ["put", "user:1"],
+      ["put", "user:2"],
+      ["put", "user:3"],
+      ["delete", "user:2"],
+      ["put", "user:count"],
+    ]);
+    await expect(kv.iterate({ start: "user:1" }).next()).rejects.toThrow(
+      /blinded keys/,
+    );
+  });
+
+  it("rejects plaintext metadata unless allowPlaintextMetadata is set", async () => {
+    const backend = new MemoryStorageBackend();
+    const provider = new WebCryptoEncryptionProvider("value key");
+    await new KVStorageAdapter(backend, { encryptionProvider: provider }).put(
+      "doc",
+      "body",
+      { metadata: { owner: "alice" } },
+    );
+
+    const strict = new KVStorageAdapter(backend, {
+      encryptionProvider: provider,
+      encryptMetadata: true,
+    });
+    await expect(strict.getWithMetadata("doc")).rejects.toThrow(/not sealed/);
+
+    const migrating = new KVStorageAdapter(backend, {
+      encryptionProvider: provider,
+      encryptMetadata: true,
+      allowPlaintextMetadata: true,
+    });
+    expect((await migrating.getWithMetadata("doc")).metadata).toEqual({
+      owner: "alice",
+    });
+    await migrating.put("doc", "body", { metadata: { owner: "alice" } });
+    expect((await strict.getWithMetadata("doc")).metadata).toEqual({
+      owner: "alice",
+    });
+  });
+
+  it("evicts blinded keys the sweep purges by their names", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend(), {
+      encryptionProvider: new WebCryptoEncryptionProvider("value key"),
+      blindKeys: { secret: "blinding key" },
+    });
+    const past = Math.floor(Date.now() / 1000) - 1;
+    await kv.put("session:1", "x", { expiration: past });
+    await kv.put("session:2", "y", { expirationTtl: 60 });
+
+    const invalidate = spyOn(kv as any, "invalidateCache");
+    expect(await kv.purgeExpired()).toBe(1);
+    expect(invalidate.mock.calls).toEqual([["session:1"]]);
+  });
+
+  it("encrypts values put as streams segment by segment", async () => {
+    const backend = new MemoryStorageBackend();
+    const keyring = new KeyringEncryptionProvider({ old: "old key" }, "old");
+    const kv = new KVStorageAdapter(backend, { encryptionProvider: keyring });
+    const video = Uint8Array.from({ length: 200_000 }, (_, i) => i % 251);
+    await kv.put("video", new Blob([video]).stream(), {
+      metadata: { type: "video/mp4" },
+    });
+
+    const raw = new Uint8Array(
+      await ((await backend.get("video"))!.value as Blob).arrayBuffer(),
+    );
+    expect(Array.from(raw.subarray(0, 2))).toEqual([3, 3]);
+    const readAll = async (stream: unknown) =>
+      new Uint8Array(
+        await new Response(stream as ReadableStream<Uint8Array>).arrayBuffer(),
+      );
+    expect(await readAll(await kvGetStream(kv, "video"))).toEqual(video);
+    const whole = await kv.get("video", { type: "arrayBuffer" });
+    expect(new Uint8Array(whole as ArrayBuffer)).toEqual(video);
+
+    // Rotation re-encrypts the data key and keeps the segments
+    keyring.addKey("new", "new key");
+    keyring.setActiveKey("new");
+    expect((await kv.reencryptAll()).reencrypted).toBe(1);
+    keyring.removeKey("old");
+    const rotated = new Uint8Array(
+      await ((await backend.get("video"))!.value as Blob).arrayBuffer(),
+    );
+    expect(rotated.subarray(rotated.length - 1000)).toEqual(
+      raw.subarray(raw.length - 1000),
+    );
+    expect(await readAll(await kvGetStream(kv, "video"))).toEqual(video);
+    expect((await kv.reencryptAll()).reencrypted).toBe(0);
+
+    // Values not put as streams still stream, decrypted whole
+    await kv.put("doc", new Uint8Array([1, 2, 3]));
+    expect(await readAll(await kvGetStream(kv, "doc"))).toEqual(
+      new Uint8Array([1, 2, 3]),
+    );
+
+    // Moved to another key, the data key no longer unwraps
+    await backend.put({ ...(await backend.get("video"))!, key: "copy" });
+    await expect(readAll(await kvGetStream(kv, "copy"))).rejects.toThrow(
+      /Decryption failed/,
+    );
+  });
+
   it("round-trips JSON values with encryption enabled", async () => {
     const backend = new MemoryStorageBackend();
     const kv = new KVStorageAdapter(backend, {
@@ -13,18 +13,74 @@ type OpenConfig = {
   version: number;
 };
 
+/**
+ * Name of the companion store that holds the key, metadata, expiry and
+ * version of each record in `storeName`, so listings never load values.
+ * Namespace names cannot contain "#", so it cannot clash with one.
+ */
+export function keysStoreOf(storeName: string): string {
+  return `${storeName}#keys`;
+}
+
+/**
+ * Name of the companion store that holds, for each key deleted or expired
+ * from `storeName`, the version its record ended at
+ */
+export function retiredStoreOf(storeName: string): string {
+  return `${storeName}#retired`;
+}
+
+/**
+ * Entry of a retired store
+ */
+export type RetiredEntry = {
+  key: string;
+  version: number;
+};
+
+/**
+ * A declared store and its companions
+ */
+function storeSet(storeName: string): string[] {
+  return [storeName, keysStoreOf(storeName), retiredStoreOf(storeName)];
+}
+
+/**
+ * The part of a record its keys store entry holds
+ */
+export type KeyEntry = {
+  key: string;
+  expiresAt: number | null;
+  metadata: unknown | null;
+  version?: number;
+};
+
+/**
+ * Keys store entry of a record
+ */
+export function keyEntryOf(rec: KeyEntry): KeyEntry {
+  return {
+    key: rec.key,
+    expiresAt: rec.expiresAt,
+    metadata: rec.metadata,
+    version: rec.version,
+  };
+}
+
 /**
  * Manages lifecycle of an IndexedDB connection
  * - Lazy initialization (opens on first access)
  * - Version change handling
- * - Automatic schema creation/migration
+ * - Automatic schema creation/migration for a declared set of object stores
  */
 export class IndexedDbConnection {
   private cfg: OpenConfig;
+  private stores: Set<string>;
   private dbPromise: Promise<IDBDatabase> | null = null;
 
   constructor(cfg: OpenConfig) {
     this.cfg = cfg;
+    this.stores = new Set([cfg.storeName]);
   }
 
   /**
@@ -35,6 +91,27 @@ export class IndexedDbConnection {
     return this.dbPromise;
   }
 
+  /**
+   * Get the database once it contains `storeName` and its companion
+   * stores. Stores not declared yet are added to the schema, which reopens
+   * the database with a version upgrade.
+   */
+  async dbWithStore(storeName: string): Promise<IDBDatabase> {
+    this.stores.add(storeName);
+    const pending = this.db;
+    const db = await pending;
+    if (storeSet(storeName).every((n) => db.objectStoreNames.contains(n))) {
+      return db;
+    }
+
+    // Only the first caller to notice reopens; the rest wait for it
+    if (this.dbPromise === pending) {
+      db.close();
+      this.dbPromise = this.open();
+    }
+    return this.dbWithStore(storeName);
+  }
+
   /**
    * Close the database connection
    */
@@ -49,40 +126,76 @@ export class IndexedDbConnection {
   }
 
   /**
-   * Open the database with automatic schema creation/migration
+   * Open the database at its current version, upgrading it when it is older
+   * than configured or lacks one of the declared stores
+   */
+  private async open(): Promise<IDBDatabase> {
+    const db = await this.request();
+    const missing = Array.from(this.stores)
+      .flatMap(storeSet)
+      .some((name) => !db.objectStoreNames.contains(name));
+    if (db.version >= this.cfg.version && !missing) return db;
+
+    db.close();
+    return this.request(Math.max(db.version + 1, this.cfg.version));
+  }
+
+  /**
+   * Run one open request, creating every declared store (and its
+   * companions) on upgrade
    */
-  private open(): Promise<IDBDatabase> {
-    const { dbName, version, storeName } = this.cfg;
+  private request(version?: number): Promise<IDBDatabase> {
+    const { dbName } = this.cfg;
 
     return new Promise<IDBDatabase>((resolve, reject) => {
-      const req = indexedDB.open(dbName, version);
+      const req =
+        version === undefined
+          ? indexedDB.open(dbName)
+          : indexedDB.open(dbName, version);
 
       req.onupgradeneeded = () => {
         const db = req.result;
-        if (!db.objectStoreNames.contains(storeName)) {
-          const store = db.createObjectStore(storeName, { keyPath: "key" });
-          // Index for prefix/range scans and expiration housekeeping.
-          store.createIndex("key", "key", { unique: true });
-          store.createIndex("expiresAt", "expiresAt", { unique: false });
-        } else {
-          const store = req.transaction!.objectStore(storeName);
-          if (!store.indexNames.contains("expiresAt"))
-            store.createIndex("expiresAt", "expiresAt", { unique: false });
-          if (!store.indexNames.contains("key"))
+        for (const storeName of this.stores) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            const store = db.createObjectStore(storeName, { keyPath: "key" });
+            // Index for prefix/range scans and expiration housekeeping.
             store.createIndex("key", "key", { unique: true });
+            store.createIndex("expiresAt", "expiresAt", { unique: false });
+          } else {
+            const store = req.transaction!.objectStore(storeName);
+            if (!store.indexNames.contains("expiresAt"))
+              store.createIndex("expiresAt", "expiresAt", { unique: false });
+            if (!store.indexNames.contains("key"))
+              store.createIndex("key", "key", { unique: true });
+          }
+          if (!db.objectStoreNames.contains(keysStoreOf(storeName))) {
+            this.createKeysStore(req.transaction!, storeName);
+          }
+          if (!db.objectStoreNames.contains(retiredStoreOf(storeName))) {
+            db.createObjectStore(retiredStoreOf(storeName), { keyPath: "key" });
+          }
         }
       };
 
       req.onsuccess = () => {
         const db = req.result;
 
-        // If another tab upgrades, we close and let caller re-open.
+        // If another tab upgrades (e.g. to add a namespace store), close and
+        // let the next access re-open at the new version.
         db.onversionchange = () => {
           try {
             db.close();
           } catch {
             /* noop */
           }
+          if (this.dbPromise) {
+            const current = this.dbPromise;
+            void current.then((open) => {
+              if (open === db && this.dbPromise === current) {
+                this.dbPromise = null;
+              }
+            });
+          }
         };
 
         resolve(db);
@@ -100,4 +213,24 @@ export class IndexedDbConnection {
       };
     });
   }
+
+  /**
+   * Create the keys store of `storeName`, filling it from the records the
+   * store already holds
+   */
+  private createKeysStore(tx: IDBTransaction, storeName: string): void {
+    const keys = tx.db.createObjectStore(keysStoreOf(storeName), {
+      keyPath: "key",
+    });
+    // Records without expiry are not indexed
+    keys.createIndex("expiresAt", "expiresAt", { unique: false });
+
+    const req = tx.objectStore(storeName).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      keys.put(keyEntryOf(cursor.value as KeyEntry));
+      cursor.continue();
+    };
+  }
 }
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import { DispatchingEncryptionProvider } from "./dispatching-provider";
+import { BaseEncryptionProvider } from "./encryption-provider";
+import { openEnvelope, readEnvelope, sealEnvelope } from "./envelope";
+import { WebCryptoEncryptionProvider } from "./web/web-provider";
+import { KVStorageAdapter } from "../storage-adapter";
+import { MemoryStorageBackend } from "../storage-backend";
+
+class XorProvider extends BaseEncryptionProvider {
+  readonly providerId: string = "xor";
+
+  async encrypt(plaintext: Uint8Array): Promise<Uint8Array> {
+    return sealEnvelope(
+      this,
+      plaintext.map((b) => b ^ 0x5a),
+    );
+  }
+
+  async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> {
+    return openEnvelope(this, ciphertext).map((b) => b ^ 0x5a);
+  }
+}
+
+// Another runtime's build of XorProvider, writing the same format
+class XorTwinProvider extends XorProvider {
+  readonly providerId = "xor-twin";
+  readonly envelopeId = "xor";
+}
+
+describe("DispatchingEncryptionProvider", () => {
+  it("reads each record with the provider that wrote it", async () => {
+    const aes = new WebCryptoEncryptionProvider("old key");
+    const xor = new XorProvider();
+    const backend = new MemoryStorageBackend();
+
+    await new KVStorageAdapter(backend, { encryptionProvider: aes }).put(
+      "old",
+      "from aes",
+    );
+
+    const dispatch = new DispatchingEncryptionProvider({
+      encryptWith: xor,
+      decryptWith: [aes],
+    });
+    const kv = new KVStorageAdapter(backend, { encryptionProvider: dispatch });
+    await kv.put("new", "from xor");
+    expect(await kv.get("old")).toBe("from aes");
+    expect(await kv.get("new")).toBe("from xor");
+
+    const providerOf = async (key: string) => {
+      const rec = await backend.get(key);
+      const bytes = new Uint8Array(await (rec!.value as Blob).arrayBuffer());
+      // After the adapter's marker and encoding flag
+      return readEnvelope(bytes.subarray(2))?.providerId;
+    };
+    expect(await providerOf("old")).toBe("aes-256-gcm");
+
+    // Moving everything over to the new provider
+    expect(await kv.reencryptAll()).toEqual({ scanned: 2, reencrypted: 1 });
+    expect(await providerOf("old")).toBe("xor");
+    expect(await kv.get("old")).toBe("from aes");
+  });
+
+  it("needs a legacy provider for records without an envelope", async () => {
+    const xor = new XorProvider();
+    const bare = new Uint8Array([1, 2, 3]).map((b) => b ^ 0x5a);
+
+    const strict = new DispatchingEncryptionProvider({ encryptWith: xor });
+    expect(strict.decrypt(bare)).rejects.toThrow(/No legacy provider/);
+    expect(strict.needsReencrypt(bare)).toBe(true);
+
+    const lenient = new DispatchingEncryptionProvider({
+      encryptWith: new WebCryptoEncryptionProvider("key"),
+      legacy: xor,
+    });
+    expect(await lenient.decrypt(bare)).toEqual(new Uint8Array([1, 2, 3]));
+    expect(
+      lenient.decrypt(
+        sealEnvelope({ providerId: "gone", formatVersion: 1 }, bare),
+      ),
+    ).rejects.toThrow(/written by "gone"/);
+  });
+
+  it("treats providers sharing an envelopeId as one", async () => {
+    const written = await new XorProvider().encrypt(new Uint8Array([4, 5]));
+    const dispatch = new DispatchingEncryptionProvider({
+      encryptWith: new XorTwinProvider(),
+    });
+    expect(dispatch.needsReencrypt(written)).toBe(false);
+    expect(await dispatch.decrypt(written)).toEqual(new Uint8Array([4, 5]));
+  });
+});
@@ -0,0 +1,100 @@
+import { BaseEncryptionProvider } from "./encryption-provider";
+import { envelopeIdOf, readEnvelope } from "./envelope";
+
+/**
+ * Options of DispatchingEncryptionProvider
+ */
+export type DispatchingProviderOptions = {
+  // Encrypts new values
+  encryptWith: BaseEncryptionProvider;
+  // Providers older records may have been written by
+  decryptWith?: BaseEncryptionProvider[];
+  // Reads records written before envelopes, which name no provider
+  legacy?: BaseEncryptionProvider;
+};
+
+/**
+ * Lets one store hold records from several providers, e.g. while moving
+ * from AES to ML-KEM. New values are encrypted by `encryptWith`; each
+ * record is decrypted by the provider its envelope names. Pair it with
+ * `kv.reencryptAll()` to move old records over to `encryptWith`.
+ */
+export class DispatchingEncryptionProvider extends BaseEncryptionProvider {
+  readonly providerId = "dispatch";
+  private encryptWith: BaseEncryptionProvider;
+  private legacy: BaseEncryptionProvider | null;
+  private byId = new Map<string, BaseEncryptionProvider>();
+
+  constructor(options: DispatchingProviderOptions) {
+    super();
+    this.encryptWith = options.encryptWith;
+    this.legacy = options.legacy ?? null;
+    for (const provider of [
+      ...(options.decryptWith ?? []),
+      options.encryptWith,
+    ]) {
+      this.byId.set(envelopeIdOf(provider), provider);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    for (const provider of this.providers()) await provider.initialize?.();
+  }
+
+  async shutdown(): Promise<void> {
+    for (const provider of this.providers()) await provider.shutdown?.();
+  }
+
+  async encrypt(
+    plaintext: Uint8Array,
+    keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
+    return this.encryptWith.encrypt(plaintext, keyId, associatedData);
+  }
+
+  async decrypt(
+    ciphertext: Uint8Array,
+    keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
+    return this.providerFor(ciphertext).decrypt(
+      ciphertext,
+      keyId,
+      associatedData,
+    );
+  }
+
+  /**
+   * Records from any provider but `encryptWith` need rewriting, as do
+   * those in an older format of it and those `encryptWith` itself
+   * reports (e.g. under an old keyring key)
+   */
+  needsReencrypt(ciphertext: Uint8Array, keyId?: string): boolean {
+    const envelope = readEnvelope(ciphertext);
+    if (envelope?.providerId !== envelopeIdOf(this.encryptWith)) return true;
+    if (envelope.formatVersion < this.encryptWith.formatVersion) return true;
+    return this.encryptWith.needsReencrypt?.(ciphertext, keyId) ?? false;
+  }
+
+  private providerFor(ciphertext: Uint8Array): BaseEncryptionProvider {
+    const envelope = readEnvelope(ciphertext);
+    const provider = envelope
+      ? this.byId.get(envelope.providerId)
+      : this.legacy;
+    if (!provider) {
+      throw new Error(
+        envelope
+          ? `No provider configured for records written by "${envelope.providerId}"`
+          : "No legacy provider configured for records without an envelope",
+      );
+    }
+    return provider;
+  }
+
+  private providers(): Set<BaseEncryptionProvider> {
+    const all = new Set(this.byId.values());
+    if (this.legacy) all.add(this.legacy);
+    return all;
+  }
+}
@@ -24,24 +24,53 @@ export abstract class BaseEncryptionProvider {
    */
   readonly formatVersion: number = 1;
 
+  /**
+   * Optional: ID envelopes name instead of `providerId`. Providers that
+   * write the same format under different IDs share one, so each reads
+   * the other's ciphertexts.
+   *
+   * Default: `providerId`
+   */
+  readonly envelopeId?: string;
+
   /**
    * Encrypts the given plaintext buffer.
    *
    * @param plaintext - The data to encrypt (typically JSON-serialized value)
    * @param keyId - Optional identifier of the key being used (for key rotation support)
+   * @param associatedData - Optional data the ciphertext is bound to without
+   *                         being encrypted; KVStorageAdapter passes the record's
+   *                         key name and encoding flag
    * @returns Promise containing the ciphertext (may include IV/nonce/auth tag)
    */
-  abstract encrypt(plaintext: Uint8Array, keyId?: string): Promise<Uint8Array>;
+  abstract encrypt(
+    plaintext: Uint8Array,
+    keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array>;
 
   /**
    * Decrypts the given ciphertext buffer.
    *
    * @param ciphertext - The encrypted data (as returned by encrypt)
    * @param keyId - Optional key identifier (must match the one used during encryption if provided)
+   * @param associatedData - The associated data given to encrypt, if any
    * @returns Promise containing the original plaintext
-   * @throws Error if decryption fails (wrong key, corrupted data, invalid format, etc.)
+   * @throws Error if decryption fails (wrong key, corrupted data, invalid format,
+   *         associated data that differs, etc.)
+   */
+  abstract decrypt(
+    ciphertext: Uint8Array,
+    keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array>;
+
+  /**
+   * Optional: whether a ciphertext was written under a key other than the
+   * one `encrypt(…, keyId)` uses now. `kv.reencryptAll()` rewrites only
+   * the records this reports; without it, it rewrites every record.
    */
-  abstract decrypt(ciphertext: Uint8Array, keyId?: string): Promise<Uint8Array>;
+  needsReencrypt?(ciphertext: Uint8Array, keyId?: string): boolean;
 
   /**
    * Optional hook called once when the store is opened.
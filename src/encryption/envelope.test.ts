@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test";
+import { openEnvelope, readEnvelope, sealEnvelope } from "./envelope";
+import { WebCryptoEncryptionProvider } from "./web/web-provider";
+
+describe("ciphertext envelope", () => {
+  const body = new Uint8Array([9, 8, 7]);
+
+  it("names the provider and format that sealed it", () => {
+    const sealed = sealEnvelope({ providerId: "test", formatVersion: 2 }, body);
+    expect(readEnvelope(sealed)).toEqual({
+      providerId: "test",
+      formatVersion: 2,
+      body,
+    });
+    expect(
+      openEnvelope({ providerId: "test", formatVersion: 3 }, sealed),
+    ).toEqual(body);
+    expect(() =>
+      openEnvelope({ providerId: "other", formatVersion: 2 }, sealed),
+    ).toThrow(/written by "test"/);
+    expect(() =>
+      openEnvelope({ providerId: "test", formatVersion: 1 }, sealed),
+    ).toThrow(/format version: 2/);
+  });
+
+  it("names the envelopeId of providers that share a format", () => {
+    const node = { providerId: "kem", formatVersion: 2 };
+    const wasm = {
+      providerId: "kem-wasm",
+      envelopeId: "kem",
+      formatVersion: 2,
+    };
+    const sealed = sealEnvelope(wasm, body);
+    expect(readEnvelope(sealed)?.providerId).toBe("kem");
+    expect(openEnvelope(node, sealed)).toEqual(body);
+    expect(openEnvelope(wasm, sealEnvelope(node, body))).toEqual(body);
+    expect(() =>
+      openEnvelope({ providerId: "kem-wasm", formatVersion: 2 }, sealed),
+    ).toThrow(/written by "kem"/);
+  });
+
+  it("passes through ciphertexts from before envelopes", () => {
+    expect(readEnvelope(body)).toBeNull();
+    expect(openEnvelope({ providerId: "test", formatVersion: 1 }, body)).toBe(
+      body,
+    );
+  });
+
+  it("is written by the built-in providers, which still read bare ciphertext", async () => {
+    const provider = new WebCryptoEncryptionProvider(
+      new Uint8Array(32).fill(7),
+    );
+    await provider.initialize();
+    const plaintext = new TextEncoder().encode("hello");
+
+    const sealed = await provider.encrypt(plaintext);
+    const envelope = readEnvelope(sealed)!;
+    expect(envelope.providerId).toBe("aes-256-gcm");
+    expect(envelope.formatVersion).toBe(2);
+    expect(await provider.decrypt(envelope.body)).toEqual(plaintext);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Ciphertext envelope: a header every provider puts in front of what it
+ * encrypts, naming the provider and its format version, so a store shows
+ * which provider wrote each record and readers can route it to that one.
+ *
+ * Layout: "KVE" | envelope version u8 | provider format version u8 |
+ * provider ID length u8 | provider ID (UTF-8) | provider ciphertext
+ */
+
+import type { BaseEncryptionProvider } from "./encryption-provider";
+
+const MAGIC = [0x4b, 0x56, 0x45]; // 'KVE'
+const ENVELOPE_VERSION = 1;
+const FIXED_SIZE = 6;
+
+/**
+ * What an envelope says about the ciphertext it holds
+ */
+export type CiphertextEnvelope = {
+  providerId: string;
+  formatVersion: number;
+  body: Uint8Array;
+};
+
+type ProviderFormat = Pick<
+  BaseEncryptionProvider,
+  "providerId" | "envelopeId" | "formatVersion"
+>;
+
+/**
+ * ID a provider's envelopes name
+ */
+export function envelopeIdOf(provider: ProviderFormat): string {
+  return provider.envelopeId ?? provider.providerId;
+}
+
+/**
+ * Put a provider's ciphertext in an envelope naming it (by its envelopeId,
+ * if it has one)
+ */
+export function sealEnvelope(
+  provider: ProviderFormat,
+  body: Uint8Array,
+): Uint8Array {
+  const id = new TextEncoder().encode(envelopeIdOf(provider));
+  if (id.length > 255) {
+    throw new Error(`Provider ID too long: ${envelopeIdOf(provider)}`);
+  }
+  const out = new Uint8Array(FIXED_SIZE + id.length + body.length);
+  out.set(MAGIC, 0);
+  out[3] = ENVELOPE_VERSION;
+  out[4] = provider.formatVersion;
+  out[5] = id.length;
+  out.set(id, FIXED_SIZE);
+  out.set(body, FIXED_SIZE + id.length);
+  return out;
+}
+
+/**
+ * Read the envelope of a ciphertext
+ * @returns null when there is none: the ciphertext predates envelopes
+ */
+export function readEnvelope(
+  ciphertext: Uint8Array,
+): CiphertextEnvelope | null {
+  if (
+    ciphertext.length < FIXED_SIZE ||
+    MAGIC.some((b, i) => ciphertext[i] !== b) ||
+    ciphertext[3] !== ENVELOPE_VERSION
+  ) {
+    return null;
+  }
+  const end = FIXED_SIZE + ciphertext[5]!;
+  if (ciphertext.length < end) return null;
+  return {
+    providerId: new TextDecoder().decode(ciphertext.subarray(FIXED_SIZE, end)),
+    formatVersion: ciphertext[4]!,
+    body: ciphertext.subarray(end),
+  };
+}
+
+/**
+ * Format version a ciphertext was sealed with; 0 when it predates envelopes
+ */
+export function envelopeFormat(ciphertext: Uint8Array): number {
+  return readEnvelope(ciphertext)?.formatVersion ?? 0;
+}
+
+/**
+ * The ciphertext inside an envelope `provider` sealed. Ciphertexts from
+ * before envelopes come back as they are.
+ * @throws Error if another provider, or a newer format, wrote it
+ */
+export function openEnvelope(
+  provider: ProviderFormat,
+  ciphertext: Uint8Array,
+): Uint8Array {
+  const envelope = readEnvelope(ciphertext);
+  if (!envelope) return ciphertext;
+  const id = envelopeIdOf(provider);
+  if (envelope.providerId !== id) {
+    throw new Error(
+      `Ciphertext was written by "${envelope.providerId}", not "${id}"`,
+    );
+  }
+  if (envelope.formatVersion > provider.formatVersion) {
+    throw new Error(
+      `Unsupported ${provider.providerId} format version: ${envelope.formatVersion}`,
+    );
+  }
+  return envelope.body;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import { KeyringEncryptionProvider } from "./keyring-provider";
+import { WebCryptoEncryptionProvider } from "./web/web-provider";
+
+const plaintext = new TextEncoder().encode("rotate me");
+
+describe("KeyringEncryptionProvider", () => {
+  it("decrypts with whichever key the ciphertext names", async () => {
+    const keyring = new KeyringEncryptionProvider(
+      { "2025": new Uint8Array(32).fill(1) },
+      "2025",
+    );
+    await keyring.initialize();
+    const old = await keyring.encrypt(plaintext);
+    expect(keyring.keyIdOf(old)).toBe("2025");
+
+    keyring.addKey("2026", new WebCryptoEncryptionProvider("next key"));
+    keyring.setActiveKey("2026");
+    const current = await keyring.encrypt(plaintext);
+    expect(keyring.keyIdOf(current)).toBe("2026");
+
+    expect(await keyring.decrypt(old)).toEqual(plaintext);
+    expect(await keyring.decrypt(current)).toEqual(plaintext);
+    expect(keyring.needsReencrypt(old)).toBe(true);
+    expect(keyring.needsReencrypt(current)).toBe(false);
+    expect(keyring.needsReencrypt(current, "2025")).toBe(true);
+
+    keyring.removeKey("2025");
+    expect(keyring.decrypt(old)).rejects.toThrow(/Unknown encryption key/);
+    expect(() => keyring.removeKey("2026")).toThrow(/active key/);
+  });
+
+  it("rejects ciphertext it did not write", async () => {
+    const keyring = new KeyringEncryptionProvider({ a: "secret" }, "a");
+    expect(() => new KeyringEncryptionProvider({ a: "secret" }, "b")).toThrow(
+      /Unknown encryption key/,
+    );
+    expect(keyring.decrypt(new Uint8Array([1, 2, 3]))).rejects.toThrow(
+      /not written by a keyring/,
+    );
+
+    const ciphertext = await keyring.encrypt(plaintext);
+    ciphertext[ciphertext.length - 1]! ^= 0xff;
+    expect(keyring.decrypt(ciphertext)).rejects.toThrow(/Decryption failed/);
+  });
+
+  it("passes associated data through to the key's provider", async () => {
+    const keyring = new KeyringEncryptionProvider({ a: "secret" }, "a");
+    const aad = new TextEncoder().encode("doc:1");
+    const ciphertext = await keyring.encrypt(plaintext, undefined, aad);
+
+    expect(await keyring.decrypt(ciphertext, undefined, aad)).toEqual(
+      plaintext,
+    );
+    expect(
+      keyring.decrypt(ciphertext, undefined, new TextEncoder().encode("doc:2")),
+    ).rejects.toThrow(/Decryption failed/);
+    expect(keyring.decrypt(ciphertext)).rejects.toThrow(/Decryption failed/);
+    expect(keyring.needsReencrypt(ciphertext)).toBe(false);
+  });
+});
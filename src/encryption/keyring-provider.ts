@@ -0,0 +1,180 @@
+import { BaseEncryptionProvider } from "./encryption-provider";
+import {
+  envelopeFormat,
+  openEnvelope,
+  readEnvelope,
+  sealEnvelope,
+} from "./envelope";
+import { WebCryptoEncryptionProvider } from "./web/web-provider";
+
+/**
+ * A key in a keyring: a provider of its own, or AES-256-GCM key material
+ * (see WebCryptoEncryptionProvider)
+ */
+export type KeyringKey = BaseEncryptionProvider | Uint8Array | string;
+
+/**
+ * Holds several keys under IDs so keys can be rotated without losing data.
+ * New values are encrypted with the active key and the key's ID is written
+ * in front of each ciphertext; decryption uses whichever key it names.
+ *
+ * Inside its envelope: id length u8 | id (UTF-8) | ciphertext of the named
+ * key's provider
+ */
+export class KeyringEncryptionProvider extends BaseEncryptionProvider {
+  readonly providerId = "keyring";
+  private keys = new Map<string, BaseEncryptionProvider>();
+  private ready = new Map<string, Promise<void>>();
+
+  /**
+   * @param keys - Keys by ID; IDs are at most 255 bytes of UTF-8
+   * @param activeKeyId - The key new values are encrypted with
+   */
+  constructor(
+    keys: Record<string, KeyringKey>,
+    private activeKeyId: string,
+  ) {
+    super();
+    for (const [id, key] of Object.entries(keys)) this.addKey(id, key);
+    this.requireKey(activeKeyId);
+  }
+
+  /**
+   * The key new values are encrypted with
+   */
+  get activeKey(): string {
+    return this.activeKeyId;
+  }
+
+  /**
+   * Add a key, or replace the one under `id`
+   */
+  addKey(id: string, key: KeyringKey): void {
+    if (new TextEncoder().encode(id).length > 255) {
+      throw new Error(`Key ID too long: ${id}`);
+    }
+    this.keys.set(
+      id,
+      key instanceof BaseEncryptionProvider
+        ? key
+        : new WebCryptoEncryptionProvider(key),
+    );
+    this.ready.delete(id);
+  }
+
+  /**
+   * Encrypt new values with the key under `id` from now on
+   */
+  setActiveKey(id: string): void {
+    this.requireKey(id);
+    this.activeKeyId = id;
+  }
+
+  /**
+   * Forget a key. Values still encrypted with it can no longer be read, so
+   * run `reencryptAll()` on the store first.
+   */
+  removeKey(id: string): void {
+    if (id === this.activeKeyId) {
+      throw new Error(`Cannot remove the active key: ${id}`);
+    }
+    this.keys.delete(id);
+    this.ready.delete(id);
+  }
+
+  async initialize(): Promise<void> {
+    await Promise.all(Array.from(this.keys.keys(), (id) => this.provider(id)));
+  }
+
+  async shutdown(): Promise<void> {
+    for (const key of this.keys.values()) await key.shutdown?.();
+  }
+
+  /**
+   * @param keyId - Encrypt with this key instead of the active one
+   */
+  async encrypt(
+    plaintext: Uint8Array,
+    keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
+    const id = keyId ?? this.activeKeyId;
+    const inner = await (
+      await this.provider(id)
+    ).encrypt(plaintext, undefined, associatedData);
+    const idBytes = new TextEncoder().encode(id);
+
+    const body = new Uint8Array(1 + idBytes.length + inner.length);
+    body[0] = idBytes.length;
+    body.set(idBytes, 1);
+    body.set(inner, 1 + idBytes.length);
+    return sealEnvelope(this, body);
+  }
+
+  /**
+   * Decrypts with the key the ciphertext names, whatever `keyId` says
+   */
+  async decrypt(
+    ciphertext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
+    const { id, inner } = this.parseCiphertext(ciphertext);
+    return (await this.provider(id)).decrypt(inner, undefined, associatedData);
+  }
+
+  /**
+   * ID of the key a ciphertext was encrypted with
+   */
+  keyIdOf(ciphertext: Uint8Array): string {
+    return this.parseCiphertext(ciphertext).id;
+  }
+
+  /**
+   * Ciphertexts under another key need rewriting, as do those in an older
+   * format of their key's provider
+   */
+  needsReencrypt(ciphertext: Uint8Array, keyId?: string): boolean {
+    const { id, inner } = this.parseCiphertext(ciphertext);
+    if (id !== (keyId ?? this.activeKeyId)) return true;
+    const key = this.keys.get(id);
+    return !!key && envelopeFormat(inner) < key.formatVersion;
+  }
+
+  /**
+   * The provider of a key, initialized on first use
+   */
+  private async provider(id: string): Promise<BaseEncryptionProvider> {
+    const key = this.requireKey(id);
+    let ready = this.ready.get(id);
+    if (!ready) {
+      ready = key.initialize?.() ?? Promise.resolve();
+      this.ready.set(id, ready);
+    }
+    await ready;
+    return key;
+  }
+
+  private parseCiphertext(ciphertext: Uint8Array): {
+    id: string;
+    inner: Uint8Array;
+  } {
+    // The keyring only ever wrote enveloped ciphertexts
+    if (!readEnvelope(ciphertext)) {
+      throw new Error("Invalid ciphertext: not written by a keyring");
+    }
+    const body = openEnvelope(this, ciphertext);
+    const end = 1 + (body[0] ?? 0);
+    if (body.length < end) throw new Error("Invalid ciphertext: too short");
+    return {
+      id: new TextDecoder().decode(body.subarray(1, end)),
+      inner: body.subarray(end),
+    };
+  }
+
+  private requireKey(id: string): BaseEncryptionProvider {
+    const key = this.keys.get(id);
+    if (!key) throw new Error(`Unknown encryption key: ${id}`);
+    return key;
+  }
+}
@@ -17,7 +17,7 @@ describe("NodeProvider", async function () {
     const p = await NodeProvider.create(true);
     assert(p instanceof NodeProvider);
     assert.strictEqual(p.providerId, "ml-kem-1024-aes256-gcm");
-    assert.strictEqual(p.formatVersion, 1);
+    assert.strictEqual(p.formatVersion, 2);
   });
 
   test("encrypt → decrypt round-trip preserves original plaintext", async function () {
@@ -1,4 +1,5 @@
 import { BaseEncryptionProvider } from "../encryption-provider";
+import { envelopeFormat, openEnvelope, sealEnvelope } from "../envelope";
 import { webcrypto } from "node:crypto";
 
 /**
@@ -37,7 +38,8 @@ function toArrayBufferView(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
 
 export class NodeProvider extends BaseEncryptionProvider {
   readonly providerId: string = "ml-kem-1024-aes256-gcm";
-  readonly formatVersion: number = 1;
+  // 2: bound to its associated data
+  readonly formatVersion: number = 2;
 
   private static readonly KEM_CT_LENGTH = 1568;
   private static readonly IV_LENGTH = 12;
@@ -76,7 +78,11 @@ export class NodeProvider extends BaseEncryptionProvider {
     return new NodeProvider(cryptoKey.publicKey, cryptoKey.privateKey);
   }
 
-  async encrypt(plaintext: Uint8Array): Promise<Uint8Array> {
+  async encrypt(
+    plaintext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
     const subtle = webcrypto.subtle as MlKemSubtleCrypto;
     const { ciphertext: kemCt, sharedKey } = await subtle.encapsulateKey(
       { name: "ML-KEM-1024" },
@@ -90,7 +96,13 @@ export class NodeProvider extends BaseEncryptionProvider {
       new Uint8Array(NodeProvider.IV_LENGTH),
     );
     const aesCt = await webcrypto.subtle.encrypt(
-      { name: "AES-GCM", iv: toArrayBufferView(iv) },
+      {
+        name: "AES-GCM",
+        iv: toArrayBufferView(iv),
+        ...(associatedData && {
+          additionalData: toArrayBufferView(associatedData),
+        }),
+      },
       sharedKey,
       toArrayBufferView(plaintext),
     );
@@ -105,10 +117,17 @@ export class NodeProvider extends BaseEncryptionProvider {
     result.set(iv, NodeProvider.KEM_CT_LENGTH);
     result.set(aesBytes, NodeProvider.KEM_CT_LENGTH + NodeProvider.IV_LENGTH);
 
-    return result;
+    return sealEnvelope(this, result);
   }
 
-  async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> {
+  async decrypt(
+    ciphertext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
+    // Older formats were not bound to associated data
+    const aad = envelopeFormat(ciphertext) >= 2 ? associatedData : undefined;
+    ciphertext = openEnvelope(this, ciphertext);
     if (
       ciphertext.length <
       NodeProvider.KEM_CT_LENGTH +
@@ -142,7 +161,11 @@ export class NodeProvider extends BaseEncryptionProvider {
     );
 
     const plaintext = await webcrypto.subtle.decrypt(
-      { name: "AES-GCM", iv },
+      {
+        name: "AES-GCM",
+        iv,
+        ...(aad && { additionalData: toArrayBufferView(aad) }),
+      },
       sharedKey,
       aesCt,
     );
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "bun:test";
+import {
+  decryptSegments,
+  encryptSegments,
+  readWrappedKey,
+  wrappedKeyHeader,
+} from "./segmented-aead";
+
+// Stand-in for a provider: the data key travels as it is
+const wrapper = {
+  wrap: async (dataKey: Uint8Array) => dataKey,
+  unwrap: async (wrappedKey: Uint8Array) => wrappedKey,
+};
+const aad = new TextEncoder().encode("media");
+
+function streamOf(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>) {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function encrypt(plaintext: Uint8Array, segmentSize: number) {
+  // Uneven chunks, so segments straddle them
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < plaintext.length; i += 7) {
+    chunks.push(plaintext.subarray(i, i + 7));
+  }
+  return readAll(
+    streamOf(...chunks).pipeThrough(encryptSegments(wrapper, aad, segmentSize)),
+  );
+}
+
+const decrypt = (ciphertext: Uint8Array, associatedData = aad) =>
+  readAll(
+    streamOf(ciphertext).pipeThrough(decryptSegments(wrapper, associatedData)),
+  );
+
+describe("segmented AEAD", () => {
+  it("round-trips values across segment boundaries", async () => {
+    for (const length of [0, 1, 15, 16, 17, 64, 100]) {
+      const plaintext = Uint8Array.from({ length }, (_, i) => i);
+      const ciphertext = await encrypt(plaintext, 16);
+      // Header, then a 16-byte tag per segment; the last may be full or empty
+      const header = readWrappedKey(ciphertext)!.end + 7 + 4;
+      const segments = Math.max(1, Math.ceil(length / 16));
+      expect(ciphertext.length).toBe(header + length + segments * 16);
+      expect(await decrypt(ciphertext)).toEqual(plaintext);
+    }
+  });
+
+  it("rejects truncated, reordered or rebound ciphertext", async () => {
+    const plaintext = Uint8Array.from({ length: 48 }, (_, i) => i);
+    const ciphertext = await encrypt(plaintext, 16);
+    const header = readWrappedKey(ciphertext)!.end + 7 + 4;
+    const segment = (i: number) =>
+      ciphertext.subarray(header + i * 32, header + (i + 1) * 32);
+
+    // Cut after a whole segment: that one was not written as the last
+    const cut = ciphertext.subarray(0, header + 64);
+    expect(decrypt(cut)).rejects.toThrow(/Decryption failed/);
+
+    const swapped = Uint8Array.from(ciphertext);
+    swapped.set(segment(1), header);
+    swapped.set(segment(0), header + 32);
+    expect(decrypt(swapped)).rejects.toThrow(/Decryption failed/);
+
+    expect(decrypt(ciphertext, new Uint8Array([1]))).rejects.toThrow(
+      /Decryption failed/,
+    );
+    expect(decrypt(ciphertext.subarray(0, 3))).rejects.toThrow(
+      /truncated header/,
+    );
+  });
+
+  it("lets the wrapped key be replaced in front of the segments", async () => {
+    const plaintext = new TextEncoder().encode("rewrapped");
+    const ciphertext = await encrypt(plaintext, 16);
+    const { wrappedKey, end } = readWrappedKey(ciphertext)!;
+
+    const masked = wrappedKey.map((b) => b ^ 0xff);
+    const rewrapped = new Uint8Array([
+      ...wrappedKeyHeader(masked),
+      ...ciphertext.subarray(end),
+    ]);
+    const unmasking = {
+      unwrap: async (k: Uint8Array) => k.map((b) => b ^ 0xff),
+    };
+    expect(
+      await readAll(
+        streamOf(rewrapped).pipeThrough(decryptSegments(unmasking, aad)),
+      ),
+    ).toEqual(plaintext);
+  });
+
+  it("rejects a wrapped key length no provider would write", async () => {
+    const ciphertext = await encrypt(new Uint8Array(8), 16);
+    const damaged = Uint8Array.from(ciphertext);
+    new DataView(damaged.buffer).setUint32(0, 0xffff_ffff);
+
+    // Before waiting on 4 GiB of key that will never arrive
+    expect(() => readWrappedKey(damaged.subarray(0, 8))).toThrow(
+      /Invalid encrypted stream header/,
+    );
+    expect(decrypt(damaged.subarray(0, 8))).rejects.toThrow(
+      /Invalid encrypted stream header/,
+    );
+    expect(() => wrappedKeyHeader(new Uint8Array(64 * 1024 + 1))).toThrow(
+      /too large/,
+    );
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Segmented AEAD for values too large to encrypt in one piece, after the
+ * STREAM construction: a random data key encrypts the value with
+ * AES-256-GCM in fixed-size segments, and the store's provider encrypts
+ * the data key. Each segment's nonce holds its index and whether it is the
+ * last one, so segments cannot be reordered or dropped and the value
+ * cannot be cut short without decryption failing.
+ *
+ * Layout: wrapped key length u32 | wrapped data key | nonce prefix (7) |
+ * segment size u32 | segments (ciphertext + 16-byte tag each; all but the
+ * last hold exactly `segment size` bytes of plaintext)
+ *
+ * Nonce of segment i: nonce prefix | i u32 | 1 if last else 0
+ */
+
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024;
+
+const KEY_LENGTH = 32;
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = 16;
+const MAX_SEGMENTS = 2 ** 32;
+// Far above any provider's wrapped key; a damaged length is not buffered
+const MAX_WRAPPED_KEY_LENGTH = 64 * 1024;
+
+/**
+ * Encrypts the data key with the store's provider, and back
+ */
+export type DataKeyWrapper = {
+  wrap(dataKey: Uint8Array): Promise<Uint8Array>;
+  unwrap(wrappedKey: Uint8Array): Promise<Uint8Array>;
+};
+
+/**
+ * Encrypt a stream segment by segment. At most two segments of plaintext
+ * are held at a time.
+ * @param associatedData - Bound to every segment (and passed nowhere else)
+ */
+export function encryptSegments(
+  wrapper: Pick<DataKeyWrapper, "wrap">,
+  associatedData: Uint8Array,
+  segmentSize = DEFAULT_SEGMENT_SIZE,
+): TransformStream<Uint8Array, Uint8Array> {
+  const pending = new ByteQueue();
+  let cipher: SegmentCipher;
+
+  return new TransformStream({
+    async start(controller) {
+      const dataKey = globalThis.crypto.getRandomValues(
+        new Uint8Array(KEY_LENGTH),
+      );
+      const noncePrefix = globalThis.crypto.getRandomValues(
+        new Uint8Array(NONCE_PREFIX_LENGTH),
+      );
+      const wrappedKey = await wrapper.wrap(dataKey);
+      cipher = await SegmentCipher.create(dataKey, noncePrefix, associatedData);
+
+      const keyHeader = wrappedKeyHeader(wrappedKey);
+      const header = new Uint8Array(keyHeader.length + NONCE_PREFIX_LENGTH + 4);
+      header.set(keyHeader, 0);
+      header.set(noncePrefix, keyHeader.length);
+      new DataView(header.buffer).setUint32(
+        keyHeader.length + NONCE_PREFIX_LENGTH,
+        segmentSize,
+      );
+      controller.enqueue(header);
+    },
+    async transform(chunk, controller) {
+      pending.push(chunk);
+      // A full segment is the last one only if nothing follows it
+      while (pending.length > segmentSize) {
+        controller.enqueue(await cipher.seal(pending.take(segmentSize), false));
+      }
+    },
+    async flush(controller) {
+      controller.enqueue(await cipher.seal(pending.take(pending.length), true));
+    },
+  });
+}
+
+/**
+ * Decrypt what encryptSegments wrote, emitting each segment as soon as it
+ * is known to be authentic
+ * @throws Error (erroring the stream) on a wrong key, associated data
+ *         that differs, or damaged, reordered or truncated segments
+ */
+export function decryptSegments(
+  wrapper: Pick<DataKeyWrapper, "unwrap">,
+  associatedData: Uint8Array,
+): TransformStream<Uint8Array, Uint8Array> {
+  const pending = new ByteQueue();
+  let cipher: SegmentCipher | null = null;
+  let segmentSize = 0;
+
+  // Reads the header once enough of it has arrived
+  const readHeader = async (): Promise<boolean> => {
+    if (pending.length < 4) return false;
+    const keyLength = wrappedKeyLength(pending.peek(4));
+    const headerLength = 4 + keyLength + NONCE_PREFIX_LENGTH + 4;
+    if (pending.length < headerLength) return false;
+
+    const header = pending.take(headerLength);
+    const wrappedKey = header.subarray(4, 4 + keyLength);
+    const noncePrefix = header.subarray(
+      4 + keyLength,
+      4 + keyLength + NONCE_PREFIX_LENGTH,
+    );
+    segmentSize = new DataView(header.buffer).getUint32(headerLength - 4);
+    if (segmentSize === 0) throw new Error("Invalid encrypted stream header");
+    cipher = await SegmentCipher.create(
+      await wrapper.unwrap(wrappedKey),
+      noncePrefix,
+      associatedData,
+    );
+    return true;
+  };
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      pending.push(chunk);
+      if (!cipher && !(await readHeader())) return;
+      while (pending.length > segmentSize + TAG_LENGTH) {
+        controller.enqueue(
+          await cipher!.open(pending.take(segmentSize + TAG_LENGTH), false),
+        );
+      }
+    },
+    async flush(controller) {
+      if (!cipher && !(await readHeader())) {
+        throw new Error("Invalid encrypted stream: truncated header");
+      }
+      controller.enqueue(
+        await cipher!.open(pending.take(pending.length), true),
+      );
+    },
+  });
+}
+
+/**
+ * The wrapped data key at the start of a segmented ciphertext
+ * @returns null when `bytes` is too short to hold one
+ * @throws Error when its length prefix is implausibly large
+ */
+export function readWrappedKey(
+  bytes: Uint8Array,
+): { wrappedKey: Uint8Array; end: number } | null {
+  if (bytes.length < 4) return null;
+  const end = 4 + wrappedKeyLength(bytes);
+  if (bytes.length < end) return null;
+  return { wrappedKey: bytes.subarray(4, end), end };
+}
+
+/**
+ * Length-prefixed wrapped key, as it leads a segmented ciphertext; to
+ * replace the key readWrappedKey found, keep everything after its `end`
+ */
+export function wrappedKeyHeader(
+  wrappedKey: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  if (wrappedKey.length > MAX_WRAPPED_KEY_LENGTH) {
+    throw new Error("Wrapped data key is too large");
+  }
+  const out = new Uint8Array(4 + wrappedKey.length);
+  new DataView(out.buffer).setUint32(0, wrappedKey.length);
+  out.set(wrappedKey, 4);
+  return out;
+}
+
+/**
+ * The length prefix of a wrapped key, from at least 4 bytes
+ * @throws Error when it is larger than any wrapped key can be
+ */
+function wrappedKeyLength(bytes: Uint8Array): number {
+  const length = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0);
+  if (length > MAX_WRAPPED_KEY_LENGTH) {
+    throw new Error("Invalid encrypted stream header");
+  }
+  return length;
+}
+
+/**
+ * AES-256-GCM over numbered segments of one value
+ */
+class SegmentCipher {
+  private index = 0;
+
+  private constructor(
+    private key: CryptoKey,
+    private noncePrefix: Uint8Array,
+    private associatedData: Uint8Array<ArrayBuffer>,
+  ) {}
+
+  static async create(
+    dataKey: Uint8Array,
+    noncePrefix: Uint8Array,
+    associatedData: Uint8Array,
+  ): Promise<SegmentCipher> {
+    if (dataKey.length !== KEY_LENGTH) {
+      throw new Error("Invalid encrypted stream: bad data key");
+    }
+    const key = await globalThis.crypto.subtle.importKey(
+      "raw",
+      Uint8Array.from(dataKey),
+      { name: "AES-GCM" },
+      false,
+      ["encrypt", "decrypt"],
+    );
+    return new SegmentCipher(
+      key,
+      Uint8Array.from(noncePrefix),
+      Uint8Array.from(associatedData),
+    );
+  }
+
+  async seal(
+    plaintext: Uint8Array<ArrayBuffer>,
+    last: boolean,
+  ): Promise<Uint8Array> {
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      this.params(last),
+      this.key,
+      plaintext,
+    );
+    return new Uint8Array(ciphertext);
+  }
+
+  async open(
+    ciphertext: Uint8Array<ArrayBuffer>,
+    last: boolean,
+  ): Promise<Uint8Array> {
+    try {
+      const plaintext = await globalThis.crypto.subtle.decrypt(
+        this.params(last),
+        this.key,
+        ciphertext,
+      );
+      return new Uint8Array(plaintext);
+    } catch (e) {
+      throw new Error(
+        `Decryption failed: ${e instanceof Error ? e.message : "Invalid key or corrupted data"}`,
+      );
+    }
+  }
+
+  private params(last: boolean): AesGcmParams {
+    if (this.index >= MAX_SEGMENTS) {
+      throw new Error("Encrypted stream has too many segments");
+    }
+    const iv = new Uint8Array(12);
+    iv.set(this.noncePrefix, 0);
+    new DataView(iv.buffer).setUint32(NONCE_PREFIX_LENGTH, this.index++);
+    iv[11] = last ? 1 : 0;
+    return { name: "AES-GCM", iv, additionalData: this.associatedData };
+  }
+}
+
+/**
+ * Bytes received in chunks, taken from the front without copying more
+ * than what is taken
+ */
+class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(chunk: Uint8Array): void {
+    if (chunk.length === 0) return;
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  peek(n: number): Uint8Array<ArrayBuffer> {
+    return this.read(n, false);
+  }
+
+  take(n: number): Uint8Array<ArrayBuffer> {
+    return this.read(n, true);
+  }
+
+  private read(n: number, consume: boolean): Uint8Array<ArrayBuffer> {
+    const out = new Uint8Array(n);
+    let got = 0;
+    let i = 0;
+    while (got < n) {
+      const chunk = this.chunks[i]!;
+      const part = chunk.subarray(0, n - got);
+      out.set(part, got);
+      got += part.length;
+      if (!consume) {
+        i++;
+      } else if (part.length === chunk.length) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(part.length);
+      }
+    }
+    if (consume) this.length -= n;
+    return out;
+  }
+}
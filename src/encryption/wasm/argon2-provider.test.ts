@@ -10,7 +10,10 @@ describe("WasmArgon2Provider", () => {
     const ciphertext = await provider.encrypt(plaintext);
 
     expect(ciphertext).not.toEqual(plaintext);
-    expect(ciphertext.length).toBe(12 + plaintext.length + 16); // IV + Plaintext + Tag
+    // Envelope + IV + Plaintext + Tag
+    expect(ciphertext.length).toBe(
+      6 + provider.providerId.length + 12 + plaintext.length + 16,
+    );
 
     const decrypted = await provider.decrypt(ciphertext);
     expect(new TextDecoder().decode(decrypted)).toBe("Hello, Argon2!");
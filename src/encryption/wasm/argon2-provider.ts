@@ -1,4 +1,5 @@
 import { BaseEncryptionProvider } from "../encryption-provider";
+import { envelopeFormat, openEnvelope, sealEnvelope } from "../envelope";
 
 /**
  * Encryption provider using Argon2id (via WASM) for key derivation
@@ -13,7 +14,8 @@ import { BaseEncryptionProvider } from "../encryption-provider";
  */
 export class WasmArgon2Provider extends BaseEncryptionProvider {
   readonly providerId: string = "argon2id-aes256-gcm-wasm";
-  readonly formatVersion: number = 1;
+  // 2: bound to its associated data
+  readonly formatVersion: number = 2;
 
   private static readonly IV_LENGTH = 12;
   private static readonly MIN_AES_CT_LENGTH = 16;
@@ -122,14 +124,14 @@ export class WasmArgon2Provider extends BaseEncryptionProvider {
     return this.phc;
   }
 
-  async encrypt(plaintext: Uint8Array): Promise<Uint8Array> {
+  async encrypt(plaintext: Uint8Array, _keyId?: string, associatedData?: Uint8Array): Promise<Uint8Array> {
     if (!this.cryptoKey) {
       throw new Error("WasmArgon2Provider not initialized. Call initialize() first.");
     }
 
     const iv = this.crypto.getRandomValues(new Uint8Array(WasmArgon2Provider.IV_LENGTH));
     const aesCt = await this.crypto.subtle.encrypt(
-      { name: "AES-GCM", iv },
+      { name: "AES-GCM", iv, ...(associatedData && { additionalData: associatedData }) },
       this.cryptoKey,
       plaintext,
     );
@@ -139,14 +141,17 @@ export class WasmArgon2Provider extends BaseEncryptionProvider {
     result.set(iv, 0);
     result.set(aesBytes, WasmArgon2Provider.IV_LENGTH);
 
-    return result;
+    return sealEnvelope(this, result);
   }
 
-  async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> {
+  async decrypt(ciphertext: Uint8Array, _keyId?: string, associatedData?: Uint8Array): Promise<Uint8Array> {
     if (!this.cryptoKey) {
       throw new Error("WasmArgon2Provider not initialized. Call initialize() first.");
     }
 
+    // Older formats were not bound to associated data
+    const aad = envelopeFormat(ciphertext) >= 2 ? associatedData : undefined;
+    ciphertext = openEnvelope(this, ciphertext);
     if (ciphertext.length < WasmArgon2Provider.IV_LENGTH + WasmArgon2Provider.MIN_AES_CT_LENGTH) {
       throw new Error("Invalid ciphertext: too short");
     }
@@ -156,7 +161,7 @@ export class WasmArgon2Provider extends BaseEncryptionProvider {
 
     try {
       const plaintext = await this.crypto.subtle.decrypt(
-        { name: "AES-GCM", iv },
+        { name: "AES-GCM", iv, ...(aad && { additionalData: aad }) },
         this.cryptoKey,
         aesCt,
       );
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll } from "vitest";
 import { WasmMlKemProvider } from "./wasm-provider";
+import { readEnvelope } from "../envelope";
 
 describe("WasmMlKemProvider", () => {
   let provider: WasmMlKemProvider;
@@ -12,7 +13,7 @@ describe("WasmMlKemProvider", () => {
     it("should create a provider with generated keypair", async () => {
       const p = await WasmMlKemProvider.create();
       expect(p.providerId).toBe("ml-kem-1024-aes256-gcm-wasm");
-      expect(p.formatVersion).toBe(1);
+      expect(p.formatVersion).toBe(2);
     });
 
     it("should fail to encrypt/decrypt if not initialized", async () => {
@@ -114,9 +115,10 @@ describe("WasmMlKemProvider", () => {
       const plaintext = new Uint8Array([1, 2, 3]);
       const ciphertext = await provider.encrypt(plaintext);
 
-      // Overhead: 1568 (KEM CT) + 12 (IV) + 16 (AES tag) = 1596 bytes
+      // Overhead: 1568 (KEM CT) + 12 (IV) + 16 (AES tag) = 1596 bytes,
+      // plus the envelope: 6 bytes and the provider ID
       const overhead = ciphertext.length - plaintext.length;
-      expect(overhead).toBe(1596);
+      expect(overhead).toBe(1596 + 6 + provider.envelopeId.length);
     });
   });
 
@@ -156,7 +158,9 @@ describe("WasmMlKemProvider", () => {
   describe("format compatibility", () => {
     it("should match NodeProvider format structure", async () => {
       const plaintext = new Uint8Array([1, 2, 3, 4, 5]);
-      const ciphertext = await provider.encrypt(plaintext);
+      const envelope = readEnvelope(await provider.encrypt(plaintext))!;
+      expect(envelope.providerId).toBe("ml-kem-1024-aes256-gcm");
+      const ciphertext = envelope.body;
 
       // Verify structure: KEM_CT (1568) || IV (12) || AES_CT (plaintext + 16)
       expect(ciphertext.length).toBe(1568 + 12 + plaintext.length + 16);
@@ -177,7 +181,7 @@ describe("WasmMlKemProvider", () => {
       const metadata = provider.getProviderMetadata?.();
       expect(metadata).toEqual({
         provider: "ml-kem-1024-aes256-gcm-wasm",
-        version: 1,
+        version: 2,
       });
     });
   });
@@ -1,4 +1,5 @@
 import { BaseEncryptionProvider } from "../encryption-provider";
+import { envelopeFormat, openEnvelope, sealEnvelope } from "../envelope";
 import type { KemKeyPair, CiphertextAndSharedSecret } from "wasm-pqc-subtle";
 
 /**
@@ -16,7 +17,10 @@ import type { KemKeyPair, CiphertextAndSharedSecret } from "wasm-pqc-subtle";
  */
 export class WasmMlKemProvider extends BaseEncryptionProvider {
   readonly providerId: string = "ml-kem-1024-aes256-gcm-wasm";
-  readonly formatVersion: number = 1;
+  // Written in NodeProvider's format, so each reads the other's records
+  readonly envelopeId: string = "ml-kem-1024-aes256-gcm";
+  // 2: bound to its associated data
+  readonly formatVersion: number = 2;
 
   private static readonly KEM_CT_LENGTH = 1568;
   private static readonly IV_LENGTH = 12;
@@ -101,7 +105,11 @@ export class WasmMlKemProvider extends BaseEncryptionProvider {
     };
   }
 
-  async encrypt(plaintext: Uint8Array): Promise<Uint8Array> {
+  async encrypt(
+    plaintext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
     if (!this.wasmModule) {
       throw new Error(
         "WasmMlKemProvider not initialized. Call initialize() first.",
@@ -128,7 +136,13 @@ export class WasmMlKemProvider extends BaseEncryptionProvider {
 
     // 4. Encrypt plaintext with AES-GCM
     const aesCt = await this.crypto.subtle.encrypt(
-      { name: "AES-GCM", iv: new Uint8Array(iv) },
+      {
+        name: "AES-GCM",
+        iv: new Uint8Array(iv),
+        ...(associatedData && {
+          additionalData: new Uint8Array(associatedData),
+        }),
+      },
       aesKey,
       new Uint8Array(plaintext),
     );
@@ -148,16 +162,24 @@ export class WasmMlKemProvider extends BaseEncryptionProvider {
       WasmMlKemProvider.KEM_CT_LENGTH + WasmMlKemProvider.IV_LENGTH,
     );
 
-    return result;
+    return sealEnvelope(this, result);
   }
 
-  async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> {
+  async decrypt(
+    ciphertext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
     if (!this.wasmModule) {
       throw new Error(
         "WasmMlKemProvider not initialized. Call initialize() first.",
       );
     }
 
+    // Older formats were not bound to associated data
+    const aad = envelopeFormat(ciphertext) >= 2 ? associatedData : undefined;
+    ciphertext = openEnvelope(this, ciphertext);
+
     // Validate minimum length
     if (
       ciphertext.length <
@@ -196,7 +218,11 @@ export class WasmMlKemProvider extends BaseEncryptionProvider {
     // 4. Decrypt AES-GCM ciphertext
     try {
       const plaintext = await this.crypto.subtle.decrypt(
-        { name: "AES-GCM", iv: new Uint8Array(iv) },
+        {
+          name: "AES-GCM",
+          iv: new Uint8Array(iv),
+          ...(aad && { additionalData: new Uint8Array(aad) }),
+        },
         aesKey,
         new Uint8Array(aesCt),
       );
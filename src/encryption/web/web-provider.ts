@@ -1,4 +1,5 @@
 import { BaseEncryptionProvider } from "../encryption-provider";
+import { envelopeFormat, openEnvelope, sealEnvelope } from "../envelope";
 
 /**
  * A concrete implementation of BaseEncryptionProvider using AES-256-GCM
@@ -6,6 +7,8 @@ import { BaseEncryptionProvider } from "../encryption-provider";
  */
 export class WebCryptoEncryptionProvider extends BaseEncryptionProvider {
   readonly providerId = "aes-256-gcm";
+  // 2: bound to its associated data
+  readonly formatVersion = 2;
   private cryptoKey: CryptoKey | null = null;
 
   constructor(private readonly keyMaterial: Uint8Array | string) {
@@ -37,7 +40,11 @@ export class WebCryptoEncryptionProvider extends BaseEncryptionProvider {
     );
   }
 
-  async encrypt(plaintext: Uint8Array): Promise<Uint8Array> {
+  async encrypt(
+    plaintext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
     if (!this.cryptoKey) {
       throw new Error(
         "WebCryptoEncryptionProvider not initialized. Call initialize() first.",
@@ -46,7 +53,7 @@ export class WebCryptoEncryptionProvider extends BaseEncryptionProvider {
 
     const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
     const ciphertext = await globalThis.crypto.subtle.encrypt(
-      { name: "AES-GCM", iv },
+      { name: "AES-GCM", iv, ...gcmAssociatedData(associatedData) },
       this.cryptoKey,
       toArrayBuffer(plaintext),
     );
@@ -54,16 +61,23 @@ export class WebCryptoEncryptionProvider extends BaseEncryptionProvider {
     const combined = new Uint8Array(iv.length + ciphertext.byteLength);
     combined.set(iv);
     combined.set(new Uint8Array(ciphertext), iv.length);
-    return combined;
+    return sealEnvelope(this, combined);
   }
 
-  async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> {
+  async decrypt(
+    ciphertext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
     if (!this.cryptoKey) {
       throw new Error(
         "WebCryptoEncryptionProvider not initialized. Call initialize() first.",
       );
     }
 
+    // Older formats were not bound to associated data
+    const aad = envelopeFormat(ciphertext) >= 2 ? associatedData : undefined;
+    ciphertext = openEnvelope(this, ciphertext);
     if (ciphertext.length < 12 + 16) {
       throw new Error("Invalid ciphertext: too short");
     }
@@ -73,7 +87,7 @@ export class WebCryptoEncryptionProvider extends BaseEncryptionProvider {
 
     try {
       const plaintext = await globalThis.crypto.subtle.decrypt(
-        { name: "AES-GCM", iv },
+        { name: "AES-GCM", iv, ...gcmAssociatedData(aad) },
         this.cryptoKey,
         toArrayBuffer(data),
       );
@@ -92,6 +106,8 @@ export class WebCryptoEncryptionProvider extends BaseEncryptionProvider {
  */
 export class PassphraseEncryptionProvider extends BaseEncryptionProvider {
   readonly providerId = "aes-256-gcm-pbkdf2";
+  // 2: bound to its associated data
+  readonly formatVersion = 2;
   private cryptoKey: CryptoKey | null = null;
   private readonly salt: Uint8Array;
 
@@ -127,7 +143,11 @@ export class PassphraseEncryptionProvider extends BaseEncryptionProvider {
     );
   }
 
-  async encrypt(plaintext: Uint8Array): Promise<Uint8Array> {
+  async encrypt(
+    plaintext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
     if (!this.cryptoKey) {
       throw new Error(
         "PassphraseEncryptionProvider not initialized. Call initialize() first.",
@@ -136,7 +156,7 @@ export class PassphraseEncryptionProvider extends BaseEncryptionProvider {
 
     const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
     const ciphertext = await globalThis.crypto.subtle.encrypt(
-      { name: "AES-GCM", iv },
+      { name: "AES-GCM", iv, ...gcmAssociatedData(associatedData) },
       this.cryptoKey,
       toArrayBuffer(plaintext),
     );
@@ -147,16 +167,23 @@ export class PassphraseEncryptionProvider extends BaseEncryptionProvider {
     combined.set(this.salt);
     combined.set(iv, this.salt.length);
     combined.set(new Uint8Array(ciphertext), this.salt.length + iv.length);
-    return combined;
+    return sealEnvelope(this, combined);
   }
 
-  async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> {
+  async decrypt(
+    ciphertext: Uint8Array,
+    _keyId?: string,
+    associatedData?: Uint8Array,
+  ): Promise<Uint8Array> {
     if (!this.cryptoKey) {
       throw new Error(
         "PassphraseEncryptionProvider not initialized. Call initialize() first.",
       );
     }
 
+    // Older formats were not bound to associated data
+    const aad = envelopeFormat(ciphertext) >= 2 ? associatedData : undefined;
+    ciphertext = openEnvelope(this, ciphertext);
     const saltOffset = 16;
     const ivOffset = saltOffset + 12;
 
@@ -169,7 +196,7 @@ export class PassphraseEncryptionProvider extends BaseEncryptionProvider {
 
     try {
       const plaintext = await globalThis.crypto.subtle.decrypt(
-        { name: "AES-GCM", iv },
+        { name: "AES-GCM", iv, ...gcmAssociatedData(aad) },
         this.cryptoKey,
         toArrayBuffer(data),
       );
@@ -195,6 +222,17 @@ export class PassphraseEncryptionProvider extends BaseEncryptionProvider {
   }
 }
 
+/**
+ * AES-GCM parameters for associated data, when there is any
+ */
+function gcmAssociatedData(associatedData: Uint8Array | undefined): {
+  additionalData?: ArrayBuffer;
+} {
+  return associatedData
+    ? { additionalData: toArrayBuffer(associatedData) }
+    : {};
+}
+
 function toArrayBuffer(view: ArrayBufferView): ArrayBuffer {
   const target = new ArrayBuffer(view.byteLength);
   new Uint8Array(target).set(
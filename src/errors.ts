@@ -0,0 +1,55 @@
+/**
+ * Error types surfaced by KV operations
+ */
+
+/**
+ * Thrown when a conditional write (onlyIfAbsent / ifVersion / ifMatch)
+ * finds the stored record in a different state than the caller expected.
+ */
+export class KVConflictError extends Error {
+  readonly code = "KV_CONFLICT";
+
+  constructor(
+    readonly key: string,
+    readonly reason: "exists" | "version" | "etag",
+    readonly currentVersion: number | null,
+  ) {
+    super(
+      reason === "exists"
+        ? `KV conflict on "${key}": key already exists`
+        : `KV conflict on "${key}": ${reason} mismatch (current version ${currentVersion ?? "none"})`,
+    );
+    this.name = "KVConflictError";
+  }
+}
+
+/**
+ * Thrown when opening a store for writing while another process holds its
+ * lock file
+ */
+export class KVLockedError extends Error {
+  readonly code = "KV_LOCKED";
+
+  constructor(
+    readonly path: string,
+    readonly pid: number,
+    readonly hostname: string,
+  ) {
+    super(
+      `KV store at "${path}" is locked by process ${pid} on ${hostname}; open it with readOnly: true to read it alongside`,
+    );
+    this.name = "KVLockedError";
+  }
+}
+
+/**
+ * Thrown by writes to a store opened with readOnly: true
+ */
+export class KVReadOnlyError extends Error {
+  readonly code = "KV_READ_ONLY";
+
+  constructor(readonly path: string) {
+    super(`KV store at "${path}" is open read-only`);
+    this.name = "KVReadOnlyError";
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Minimal fan-out of backend change notifications
+ */
+
+import type { StorageChange } from "../types";
+
+export type ChangeListener = (change: StorageChange) => void;
+
+/**
+ * Set of change listeners. A throwing listener is isolated so it can
+ * neither break the write that triggered it nor starve other listeners.
+ */
+export class ChangeFeed {
+  private listeners = new Set<ChangeListener>();
+
+  get size(): number {
+    return this.listeners.size;
+  }
+
+  /**
+   * Register a listener
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Deliver changes to every listener, in order
+   */
+  emit(changes: StorageChange[]): void {
+    for (const change of changes) {
+      for (const listener of Array.from(this.listeners)) {
+        try {
+          listener(change);
+        } catch (e) {
+          console.error("[idb-repo] change listener failed", e);
+        }
+      }
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
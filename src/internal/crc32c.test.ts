@@ -0,0 +1,34 @@
+import { describe, it, expect } from "bun:test";
+import { crc32c, crc32cCombine } from "./crc32c";
+
+describe("crc32c", () => {
+  it("matches the standard check value", () => {
+    expect(crc32c(new TextEncoder().encode("123456789"))).toBe(0xe3069283);
+  });
+
+  it("is 0 for empty input", () => {
+    expect(crc32c(new Uint8Array(0))).toBe(0);
+  });
+
+  it("can be computed in pieces", () => {
+    const data = new TextEncoder().encode("hello, checksummed world");
+    const whole = crc32c(data);
+    expect(crc32c(data.subarray(7), crc32c(data.subarray(0, 7)))).toBe(whole);
+  });
+
+  it("combines the checksums of two pieces", () => {
+    const data = new Uint8Array(100_003).map((_, i) => (i * 31) & 0xff);
+    for (const cut of [0, 1, 52, 65_536, 100_003]) {
+      const a = data.subarray(0, cut);
+      const b = data.subarray(cut);
+      expect(crc32cCombine(crc32c(a), crc32c(b), b.length)).toBe(crc32c(data));
+    }
+  });
+
+  it("detects a flipped bit", () => {
+    const data = new TextEncoder().encode("record payload");
+    const before = crc32c(data);
+    data[3]! ^= 0x10;
+    expect(crc32c(data)).not.toBe(before);
+  });
+});
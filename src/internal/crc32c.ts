@@ -0,0 +1,75 @@
+/**
+ * CRC-32C (Castagnoli) checksums for log records
+ */
+
+const POLY = 0x82f63b78; // reversed Castagnoli polynomial
+
+const TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? (c >>> 1) ^ POLY : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Checksum `data`, continuing from `crc` when checksumming in pieces
+ */
+export function crc32c(data: Uint8Array, crc = 0): number {
+  let c = ~crc;
+  for (let i = 0; i < data.length; i++) {
+    c = TABLE[(c ^ data[i]!) & 0xff]! ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+/**
+ * Checksum of A followed by B from the checksums of A and B and the length
+ * of B, without the bytes themselves (zlib's crc32_combine)
+ */
+export function crc32cCombine(
+  crcA: number,
+  crcB: number,
+  lenB: number,
+): number {
+  if (lenB <= 0) return crcA;
+
+  // Operators that append 1, 2, 4, ... zero bits to a CRC: odd starts as the
+  // one-bit operator, then each squaring doubles the count
+  const odd = new Uint32Array(32);
+  const even = new Uint32Array(32);
+  odd[0] = POLY;
+  for (let n = 1; n < 32; n++) odd[n] = 1 << (n - 1);
+  gf2Square(even, odd); // 2 bits
+  gf2Square(odd, even); // 4 bits
+
+  // Apply lenB zero bytes, one bit of the length at a time
+  let crc = crcA;
+  let len = lenB;
+  for (;;) {
+    gf2Square(even, odd);
+    if (len % 2) crc = gf2Times(even, crc);
+    len = Math.floor(len / 2);
+    if (len === 0) break;
+
+    gf2Square(odd, even);
+    if (len % 2) crc = gf2Times(odd, crc);
+    len = Math.floor(len / 2);
+    if (len === 0) break;
+  }
+  return (crc ^ crcB) >>> 0;
+}
+
+function gf2Times(mat: Uint32Array, vec: number): number {
+  let sum = 0;
+  for (let i = 0; vec; i++, vec >>>= 1) {
+    if (vec & 1) sum ^= mat[i]!;
+  }
+  return sum >>> 0;
+}
+
+function gf2Square(square: Uint32Array, mat: Uint32Array): void {
+  for (let n = 0; n < 32; n++) square[n] = gf2Times(mat, mat[n]!);
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "bun:test";
+import { ExpiryIndex } from "./expiry-index";
+
+describe("ExpiryIndex", () => {
+  it("yields keys expired by a time, earliest first", () => {
+    const index = new ExpiryIndex();
+    index.set("late", 5000);
+    index.set("ÿsoon", 1000);
+    index.set("sooner", 999);
+    index.set("never", null);
+    index.set("due", 2000);
+
+    expect(Array.from(index.expired(2000))).toEqual(["sooner", "ÿsoon", "due"]);
+    expect(Array.from(index.expired(100))).toEqual([]);
+    expect(index.size).toBe(4);
+  });
+
+  it("moves keys whose expiry changes and drops removed ones", () => {
+    const index = new ExpiryIndex();
+    index.set("a", 1000);
+    index.set("b", 1000);
+    index.set("a", 9000);
+    index.delete("b");
+    expect(Array.from(index.expired(2000))).toEqual([]);
+
+    index.set("a", null);
+    expect(index.size).toBe(0);
+    expect(Array.from(index.expired(10_000))).toEqual([]);
+  });
+
+  it("tolerates deletes while iterating", () => {
+    const index = new ExpiryIndex();
+    for (let i = 0; i < 2000; i++) index.set(`k${i}`, i);
+    const seen: string[] = [];
+    for (const key of index.expired(999)) {
+      seen.push(key);
+      index.delete(key);
+    }
+    expect(seen).toHaveLength(1000);
+    expect(index.size).toBe(1000);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * ExpiryIndex: keys ordered by expiration time, so purging expired records
+ * seeks straight to them instead of walking every key
+ * - Entries live in an OrderedMap under "<expiry>\0<key>", the expiry as a
+ *   fixed-width base-36 number so that string order is time order
+ * - Keys without an expiration are not indexed
+ */
+
+import { OrderedMap } from "./ordered-map";
+
+// Wide enough for any safe integer in base 36
+const EXPIRY_WIDTH = 11;
+
+function expiryPrefix(expiresAt: number): string {
+  const ms = Math.max(0, Math.floor(expiresAt));
+  return ms.toString(36).padStart(EXPIRY_WIDTH, "0");
+}
+
+function sortKey(expiresAt: number, key: string): string {
+  return `${expiryPrefix(expiresAt)}\0${key}`;
+}
+
+/**
+ * Expiration time of each key, iterable from the earliest
+ */
+export class ExpiryIndex {
+  private order = new OrderedMap<string>();
+  private expiries = new Map<string, number>();
+
+  get size(): number {
+    return this.expiries.size;
+  }
+
+  /**
+   * Record when `key` expires; null removes it
+   */
+  set(key: string, expiresAt: number | null): void {
+    const current = this.expiries.get(key);
+    if (current === expiresAt) return;
+    if (current !== undefined) this.order.delete(sortKey(current, key));
+    if (expiresAt === null) {
+      this.expiries.delete(key);
+      return;
+    }
+    this.expiries.set(key, expiresAt);
+    this.order.set(sortKey(expiresAt, key), key);
+  }
+
+  delete(key: string): void {
+    this.set(key, null);
+  }
+
+  clear(): void {
+    this.order.clear();
+    this.expiries.clear();
+  }
+
+  /**
+   * Keys expired by `now`, earliest first. Keys may be deleted while
+   * iterating. Expiries within the same millisecond as `now` may be
+   * yielded early; callers check the record itself.
+   */
+  *expired(now: number): IterableIterator<string> {
+    const bounds = {
+      lower: "",
+      lowerOpen: false,
+      // Every key of the millisecond of `now`, and nothing after it
+      upper: `${expiryPrefix(now)}\u0001`,
+      upperOpen: true,
+    };
+    for (const [, key] of this.order.range(bounds)) yield key;
+  }
+}
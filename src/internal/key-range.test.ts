@@ -0,0 +1,73 @@
+import { describe, it, expect } from "bun:test";
+import { inScan, resolveScan, scanBounds } from "./key-range";
+import { encodeCursor } from "./cursor";
+
+describe("key-range", () => {
+  describe("resolveScan", () => {
+    it("uses the cursor only when it matches the prefix", () => {
+      const cursor = encodeCursor({ v: 1, prefix: "a:", after: "a:5" });
+      expect(resolveScan({ prefix: "a:", cursor }).after).toBe("a:5");
+      expect(resolveScan({ prefix: "b:", cursor }).after).toBeNull();
+      expect(resolveScan({ cursor: "garbage" }).after).toBeNull();
+    });
+  });
+
+  describe("inScan", () => {
+    it("applies prefix, start (inclusive) and end (exclusive)", () => {
+      const scan = resolveScan({
+        prefix: "log:",
+        start: "log:02",
+        end: "log:05",
+      });
+      expect(inScan(scan, "log:01")).toBe(false);
+      expect(inScan(scan, "log:02")).toBe(true);
+      expect(inScan(scan, "log:04")).toBe(true);
+      expect(inScan(scan, "log:05")).toBe(false);
+      expect(inScan(scan, "other:03")).toBe(false);
+    });
+
+    it("excludes keys already returned in the direction of travel", () => {
+      const forward = { ...resolveScan({}), after: "m" };
+      const reverse = { ...resolveScan({ reverse: true }), after: "m" };
+      expect(inScan(forward, "n")).toBe(true);
+      expect(inScan(forward, "m")).toBe(false);
+      expect(inScan(reverse, "l")).toBe(true);
+      expect(inScan(reverse, "n")).toBe(false);
+    });
+  });
+
+  describe("scanBounds", () => {
+    it("is unbounded above without prefix or end", () => {
+      expect(scanBounds(resolveScan({}))).toEqual({
+        lower: "",
+        lowerOpen: false,
+        upper: null,
+        upperOpen: false,
+      });
+    });
+
+    it("narrows the prefix range with start, end and cursor", () => {
+      const scan = {
+        ...resolveScan({ prefix: "k:", start: "k:1", end: "k:9" }),
+        after: "k:3",
+      };
+      expect(scanBounds(scan)).toEqual({
+        lower: "k:3",
+        lowerOpen: true,
+        upper: "k:9",
+        upperOpen: true,
+      });
+      expect(scanBounds({ ...scan, reverse: true })).toEqual({
+        lower: "k:1",
+        lowerOpen: false,
+        upper: "k:3",
+        upperOpen: true,
+      });
+    });
+
+    it("returns null for empty ranges", () => {
+      expect(scanBounds(resolveScan({ start: "b", end: "a" }))).toBeNull();
+      expect(scanBounds(resolveScan({ start: "a", end: "a" }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Key range resolution for list pagination and range scans
+ */
+
+import type { StorageListOptions } from "../types";
+import { decodeCursor } from "./cursor";
+
+/**
+ * A resolved scan: prefix and [start, end) bounds, direction, and the last
+ * key already returned (exclusive in the direction of travel)
+ */
+export type KeyScan = {
+  prefix: string;
+  start: string | null;
+  end: string | null;
+  reverse: boolean;
+  after: string | null;
+};
+
+/**
+ * Bounds of a scan in IDBKeyRange terms; `upper` null means unbounded
+ */
+export type KeyBounds = {
+  lower: string;
+  lowerOpen: boolean;
+  upper: string | null;
+  upperOpen: boolean;
+};
+
+/**
+ * Resolve list options into a scan, picking up the position from the
+ * cursor when it was issued for the same prefix
+ */
+export function resolveScan(options: StorageListOptions): KeyScan {
+  const prefix = options.prefix ?? "";
+  let after: string | null = null;
+  if (options.cursor) {
+    const decoded = decodeCursor(options.cursor);
+    if (decoded && decoded.prefix === prefix) after = decoded.after;
+  }
+  return {
+    prefix,
+    start: options.start ?? null,
+    end: options.end ?? null,
+    reverse: options.reverse ?? false,
+    after,
+  };
+}
+
+/**
+ * Whether `key` belongs to the scan and has not been returned yet
+ */
+export function inScan(scan: KeyScan, key: string): boolean {
+  if (!key.startsWith(scan.prefix)) return false;
+  if (scan.start !== null && key < scan.start) return false;
+  if (scan.end !== null && key >= scan.end) return false;
+  if (scan.after !== null) {
+    return scan.reverse ? key < scan.after : key > scan.after;
+  }
+  return true;
+}
+
+/**
+ * Tightest key bounds covering the scan, or null when it is empty
+ */
+export function scanBounds(scan: KeyScan): KeyBounds | null {
+  let lower = scan.prefix;
+  let lowerOpen = false;
+  let upper: string | null = scan.prefix ? scan.prefix + "\uffff" : null;
+  let upperOpen = false;
+
+  if (scan.start !== null && scan.start > lower) lower = scan.start;
+  if (scan.end !== null && (upper === null || scan.end <= upper)) {
+    upper = scan.end;
+    upperOpen = true;
+  }
+
+  if (scan.after !== null) {
+    if (!scan.reverse && scan.after >= lower) {
+      lower = scan.after;
+      lowerOpen = true;
+    } else if (scan.reverse && (upper === null || scan.after <= upper)) {
+      upper = scan.after;
+      upperOpen = true;
+    }
+  }
+
+  if (upper !== null) {
+    if (lower > upper) return null;
+    if (lower === upper && (lowerOpen || upperOpen)) return null;
+  }
+  return { lower, lowerOpen, upper, upperOpen };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "bun:test";
+import { OrderedMap } from "./ordered-map";
+import { resolveScan, scanBounds } from "./key-range";
+
+const keysOf = (entries: Iterable<[string, unknown]>) =>
+  Array.from(entries, ([key]) => key);
+
+describe("OrderedMap", () => {
+  it("iterates keys in sorted order across many leaves", () => {
+    const map = new OrderedMap<number>();
+    const expected: string[] = [];
+    for (let i = 0; i < 5000; i++) {
+      const n = (i * 7919) % 5000;
+      const key = `k${n}`;
+      map.set(key, n);
+      expected.push(key);
+    }
+    expected.sort();
+    expect(map.size).toBe(5000);
+    expect(Array.from(map.keys())).toEqual(expected);
+
+    for (let i = 0; i < 5000; i += 3) map.delete(`k${i}`);
+    const left = expected.filter((k) => Number(k.slice(1)) % 3 !== 0);
+    expect(Array.from(map.keys())).toEqual(left);
+    expect(map.get("k7")).toBe(7);
+    expect(map.has("k3")).toBe(false);
+  });
+
+  it("seeks scan bounds forwards and backwards", () => {
+    const map = new OrderedMap<null>();
+    for (const key of ["a:1", "a:2", "a:3", "b:1", "b:2", "c"]) {
+      map.set(key, null);
+    }
+
+    const prefix = scanBounds(resolveScan({ prefix: "b:" }));
+    expect(keysOf(map.range(prefix))).toEqual(["b:1", "b:2"]);
+    expect(keysOf(map.range(prefix, true))).toEqual(["b:2", "b:1"]);
+
+    const after = scanBounds({
+      ...resolveScan({ prefix: "a:" }),
+      after: "a:1",
+    });
+    expect(keysOf(map.range(after))).toEqual(["a:2", "a:3"]);
+
+    const before = scanBounds({
+      ...resolveScan({ reverse: true }),
+      after: "b:1",
+    });
+    expect(keysOf(map.range(before, true))).toEqual(["a:3", "a:2", "a:1"]);
+    expect(keysOf(map.range(null))).toEqual([]);
+    expect(keysOf(new OrderedMap().range(prefix, true))).toEqual([]);
+  });
+
+  it("keeps its place when written to mid-iteration", () => {
+    const map = new OrderedMap<number>();
+    for (let i = 0; i < 2000; i++) map.set(`k${String(i).padStart(4, "0")}`, i);
+
+    const seen: string[] = [];
+    for (const [key] of map) {
+      seen.push(key);
+      map.delete(key);
+      if (key === "k0500") map.set("k0500x", -1);
+    }
+    expect(seen).toHaveLength(2001);
+    expect(seen[501]).toBe("k0500x");
+    expect(map.size).toBe(0);
+
+    for (let i = 0; i < 2000; i++) map.set(`k${String(i).padStart(4, "0")}`, i);
+    const reversed: string[] = [];
+    for (const [key] of map.range(scanBounds(resolveScan({})), true)) {
+      reversed.push(key);
+      map.delete(key);
+    }
+    expect(reversed[0]).toBe("k1999");
+    expect(reversed[1999]).toBe("k0000");
+  });
+});
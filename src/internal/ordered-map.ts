@@ -0,0 +1,228 @@
+/**
+ * OrderedMap: a string-keyed map that also keeps its keys sorted, for
+ * prefix, range and cursor scans without sorting on every call
+ * - Lookups go through a hash map: O(1)
+ * - Order is kept in sorted leaves of up to LEAF_MAX keys, found by binary
+ *   search over each leaf's last key: seek in O(log n), then O(1) per key
+ */
+
+import type { KeyBounds } from "./key-range";
+
+const LEAF_MAX = 512;
+// A leaf this small is merged into a neighbour when they fit in one
+const LEAF_MIN = LEAF_MAX / 4;
+
+/**
+ * A key slot: leaf index and index within the leaf. Iteration that runs
+ * off either end lands on a slot holding no key.
+ */
+type Position = { leaf: number; pos: number };
+
+/**
+ * Map with keys iterated in ascending (code unit) order. Iterators stay
+ * valid across writes: after one they re-seek from the last key returned.
+ */
+export class OrderedMap<V> {
+  private byKey = new Map<string, V>();
+  private leaves: string[][] = [];
+  // Last (largest) key of each leaf
+  private maxes: string[] = [];
+  // Bumped on every insert or removal, so iterators know to re-seek
+  private version = 0;
+
+  get size(): number {
+    return this.byKey.size;
+  }
+
+  get(key: string): V | undefined {
+    return this.byKey.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.byKey.has(key);
+  }
+
+  set(key: string, value: V): this {
+    if (!this.byKey.has(key)) this.insertKey(key);
+    this.byKey.set(key, value);
+    return this;
+  }
+
+  delete(key: string): boolean {
+    if (!this.byKey.delete(key)) return false;
+    this.removeKey(key);
+    return true;
+  }
+
+  clear(): void {
+    this.byKey.clear();
+    this.leaves = [];
+    this.maxes = [];
+    this.version++;
+  }
+
+  keys(): IterableIterator<string> {
+    return this.mapEntries(([key]) => key);
+  }
+
+  values(): IterableIterator<V> {
+    return this.mapEntries(([, value]) => value);
+  }
+
+  entries(): IterableIterator<[string, V]> {
+    return this.range({
+      lower: "",
+      lowerOpen: false,
+      upper: null,
+      upperOpen: false,
+    });
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Entries with keys within `bounds` (nothing when null), ascending or,
+   * with `reverse`, descending
+   */
+  *range(
+    bounds: KeyBounds | null,
+    reverse = false,
+  ): IterableIterator<[string, V]> {
+    if (!bounds) return;
+    const { lower, lowerOpen, upper, upperOpen } = bounds;
+    const inLower = (key: string) => (lowerOpen ? key > lower : key >= lower);
+    const inUpper = (key: string) =>
+      upper === null || (upperOpen ? key < upper : key <= upper);
+
+    let at = reverse
+      ? this.lastUpTo(upper, !upperOpen)
+      : this.firstFrom(lower, !lowerOpen);
+    let version = this.version;
+    let last = "";
+
+    for (;;) {
+      if (version !== this.version) {
+        // Changed while suspended: find our place again from the last key
+        version = this.version;
+        at = reverse ? this.lastUpTo(last, false) : this.firstFrom(last, false);
+      }
+      const key = this.leaves[at.leaf]?.[at.pos];
+      if (key === undefined) return;
+      if (!(reverse ? inLower(key) : inUpper(key))) return;
+
+      last = key;
+      at = reverse ? this.stepBack(at) : this.stepForward(at);
+      yield [key, this.byKey.get(key)!];
+    }
+  }
+
+  private *mapEntries<T>(pick: (entry: [string, V]) => T): IterableIterator<T> {
+    for (const entry of this.entries()) yield pick(entry);
+  }
+
+  /**
+   * Slot of the first key >= `key` (> `key` when not `inclusive`)
+   */
+  private firstFrom(key: string, inclusive: boolean): Position {
+    const past = (k: string) => (inclusive ? k >= key : k > key);
+    const leaf = firstIndex(this.maxes, past);
+    if (leaf === this.leaves.length) return { leaf, pos: 0 };
+    return { leaf, pos: firstIndex(this.leaves[leaf]!, past) };
+  }
+
+  /**
+   * Slot of the last key <= `key` (< `key` when not `inclusive`); of the
+   * last key overall when `key` is null
+   */
+  private lastUpTo(key: string | null, inclusive: boolean): Position {
+    const past = (k: string) => (inclusive ? k > key! : k >= key!);
+    const leaf =
+      key === null ? this.leaves.length : firstIndex(this.maxes, past);
+    if (leaf === this.leaves.length) return this.stepBack({ leaf, pos: 0 });
+    return this.stepBack({ leaf, pos: firstIndex(this.leaves[leaf]!, past) });
+  }
+
+  private stepForward({ leaf, pos }: Position): Position {
+    if (pos + 1 < this.leaves[leaf]!.length) return { leaf, pos: pos + 1 };
+    return { leaf: leaf + 1, pos: 0 };
+  }
+
+  private stepBack({ leaf, pos }: Position): Position {
+    if (pos > 0) return { leaf, pos: pos - 1 };
+    return { leaf: leaf - 1, pos: (this.leaves[leaf - 1]?.length ?? 0) - 1 };
+  }
+
+  private insertKey(key: string): void {
+    this.version++;
+    if (this.leaves.length === 0) {
+      this.leaves.push([key]);
+      this.maxes.push(key);
+      return;
+    }
+
+    // Past every leaf's max: append to the last leaf
+    let leaf = firstIndex(this.maxes, (k) => k > key);
+    if (leaf === this.leaves.length) leaf--;
+    const keys = this.leaves[leaf]!;
+    keys.splice(
+      firstIndex(keys, (k) => k > key),
+      0,
+      key,
+    );
+    this.maxes[leaf] = keys[keys.length - 1]!;
+
+    if (keys.length > LEAF_MAX) {
+      const upper = keys.splice(keys.length / 2);
+      this.leaves.splice(leaf + 1, 0, upper);
+      this.maxes.splice(
+        leaf,
+        1,
+        keys[keys.length - 1]!,
+        upper[upper.length - 1]!,
+      );
+    }
+  }
+
+  private removeKey(key: string): void {
+    this.version++;
+    const leaf = firstIndex(this.maxes, (k) => k >= key);
+    const keys = this.leaves[leaf]!;
+    keys.splice(
+      firstIndex(keys, (k) => k >= key),
+      1,
+    );
+
+    if (keys.length === 0) {
+      this.leaves.splice(leaf, 1);
+      this.maxes.splice(leaf, 1);
+      return;
+    }
+    this.maxes[leaf] = keys[keys.length - 1]!;
+
+    if (keys.length < LEAF_MIN && leaf + 1 < this.leaves.length) {
+      const next = this.leaves[leaf + 1]!;
+      if (keys.length + next.length <= LEAF_MAX) {
+        keys.push(...next);
+        this.leaves.splice(leaf + 1, 1);
+        this.maxes.splice(leaf, 2, keys[keys.length - 1]!);
+      }
+    }
+  }
+}
+
+/**
+ * Index of the first element satisfying `past` in an array sorted so that
+ * it holds for a suffix; the length when it holds for none
+ */
+function firstIndex(sorted: string[], past: (k: string) => boolean): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (past(sorted[mid]!)) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
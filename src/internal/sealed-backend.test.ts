@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { SealedStorageBackend, type MetadataSealer } from "./sealed-backend";
+import { MemoryStorageBackend } from "../storage-backend";
+import type { StoredRecord } from "../types";
+
+// Reversible stand-in for the adapter's encryption
+const sealer: MetadataSealer = {
+  encrypt: async (plaintext) => plaintext.map((b) => b ^ 0x5a),
+  decrypt: async (ciphertext) => ciphertext.map((b) => b ^ 0x5a),
+  blindingSecret: "secret",
+};
+
+function record(key: string, metadata: unknown = null): StoredRecord {
+  return {
+    key,
+    value: "v",
+    encoding: "text",
+    expiresAt: null,
+    metadata,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+describe("SealedStorageBackend", () => {
+  it("fills prefix pages across blinded keys and resumes from the cursor", async () => {
+    const inner = new MemoryStorageBackend();
+    const sealed = new SealedStorageBackend(inner, sealer);
+    for (let i = 0; i < 10; i++) {
+      await sealed.put(record(`a:${i}`, { i }));
+      await sealed.put(record(`b:${i}`));
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await sealed.list({ prefix: "a:", limit: 3, cursor });
+      seen.push(...page.keys.map((k) => k.name));
+      if (page.list_complete) break;
+      expect(page.keys).toHaveLength(3);
+      cursor = page.cursor;
+    }
+    expect(seen.sort()).toEqual(
+      Array.from({ length: 10 }, (_, i) => `a:${i}`).sort(),
+    );
+
+    const page = await sealed.list({ prefix: "a:1", includeRecords: true });
+    expect(page.keys).toEqual([{ name: "a:1", metadata: { i: 1 } }]);
+    expect(page.records![0]!.key).toBe("a:1");
+    expect(await sealed.get("b:4")).toMatchObject({
+      key: "b:4",
+      metadata: null,
+    });
+  });
+
+  it("rejects sealed metadata moved to another key", async () => {
+    const inner = new MemoryStorageBackend();
+    const sealed = new SealedStorageBackend(inner, {
+      ...sealer,
+      blindingSecret: undefined,
+      // Stand in for AES-GCM: fail unless the associated data matches
+      encrypt: async (plaintext, aad) =>
+        new Uint8Array([...aad, 0, ...plaintext]),
+      decrypt: async (ciphertext, aad) => {
+        const at = ciphertext.indexOf(0);
+        if (String(ciphertext.subarray(0, at)) !== String(aad)) {
+          throw new Error("Decryption failed");
+        }
+        return ciphertext.subarray(at + 1);
+      },
+    });
+    await sealed.put(record("x", { secret: true }));
+    expect(await sealed.get("x")).toMatchObject({ metadata: { secret: true } });
+
+    await inner.put({ ...(await inner.get("x"))!, key: "y" });
+    await expect(sealed.get("y")).rejects.toThrow(/Decryption failed/);
+  });
+});
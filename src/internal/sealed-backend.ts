@@ -0,0 +1,396 @@
+/**
+ * Encrypted metadata and blinded key names, as a layer over any
+ * StorageBackend. With blinding, each key is stored under an HMAC token of
+ * its name and the name itself is sealed into the record's metadata: the
+ * encrypted reverse mapping listings and change events read it back from.
+ */
+
+import type {
+  KVListKey,
+  KVWriteCondition,
+  StorageListOptions,
+  StorageListResult,
+  StoredRecord,
+} from "../types";
+import type {
+  StorageBackend,
+  StoragePurgeOptions,
+  StorageUpdate,
+  StorageVerifyReport,
+  StorageWriteOp,
+  StoredStream,
+} from "../storage-backend";
+import { ChangeFeed, type ChangeListener } from "./change-feed";
+
+// Stored metadata of a sealed record: { [SEALED]: base64 ciphertext }
+const SEALED = "$sealed";
+// Leads the associated data of sealed metadata; values lead with their
+// encoding flag (0-3), so neither ciphertext passes for the other
+const METADATA_FLAG = 0xff;
+
+/**
+ * What the sealing layer borrows from the adapter
+ */
+export type MetadataSealer = {
+  encrypt(
+    plaintext: Uint8Array,
+    associatedData: Uint8Array,
+  ): Promise<Uint8Array>;
+  decrypt(
+    ciphertext: Uint8Array,
+    associatedData: Uint8Array,
+  ): Promise<Uint8Array>;
+  // HMAC-SHA-256 key that blinds key names; they are stored as-is without
+  blindingSecret?: Uint8Array | string;
+  // Read metadata stored before sealing was turned on, as it is; it is
+  // rejected otherwise
+  allowPlaintext?: boolean;
+};
+
+/**
+ * Seals record metadata, and blinds key names when the sealer has a
+ * blinding secret. Callers see names and plain metadata throughout.
+ *
+ * Blinded keys are stored in the order of their tokens, which says nothing
+ * about the order of their names. list() therefore filters a prefix page
+ * by page after unsealing names, returns keys in token order, and rejects
+ * `start`/`end` ranges.
+ */
+export class SealedStorageBackend implements StorageBackend {
+  private hmacKey: Promise<CryptoKey> | null = null;
+  private feed = new ChangeFeed();
+  private unsubscribeInner: (() => void) | null = null;
+  // Unsealing is async; chaining keeps changes in the order they came
+  private changes = Promise.resolve();
+  // Streaming is offered when the inner backend offers it
+  putStream?: StorageBackend["putStream"];
+  getStream?: StorageBackend["getStream"];
+
+  constructor(
+    private inner: StorageBackend,
+    private sealer: MetadataSealer,
+  ) {
+    if (inner.putStream) {
+      this.putStream = async (record, stream, condition) =>
+        inner.putStream!(await this.sealRecord(record), stream, condition);
+    }
+    if (inner.getStream) {
+      this.getStream = async (key): Promise<StoredStream | undefined> => {
+        const got = await inner.getStream!(await this.storedKey(key));
+        return got && { ...got, record: await this.unsealRecord(got.record) };
+      };
+    }
+  }
+
+  private get blinded(): boolean {
+    return this.sealer.blindingSecret !== undefined;
+  }
+
+  async get(key: string): Promise<StoredRecord | undefined> {
+    const rec = await this.inner.get(await this.storedKey(key));
+    return rec && this.unsealRecord(rec);
+  }
+
+  async put(record: StoredRecord, condition?: KVWriteCondition): Promise<void> {
+    await this.inner.put(await this.sealRecord(record), condition);
+  }
+
+  async delete(key: string, condition?: KVWriteCondition): Promise<void> {
+    await this.inner.delete(await this.storedKey(key), condition);
+  }
+
+  async getMany(keys: string[]): Promise<Array<StoredRecord | undefined>> {
+    const recs = await this.inner.getMany(await this.storedKeys(keys));
+    return Promise.all(recs.map((rec) => rec && this.unsealRecord(rec)));
+  }
+
+  async putMany(records: StoredRecord[]): Promise<void> {
+    await this.inner.putMany(
+      await Promise.all(records.map((rec) => this.sealRecord(rec))),
+    );
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    await this.inner.deleteMany(await this.storedKeys(keys));
+  }
+
+  async commit(ops: StorageWriteOp[]): Promise<void> {
+    const sealed: StorageWriteOp[] = [];
+    for (const op of ops) {
+      sealed.push(
+        op.type === "put"
+          ? { ...op, record: await this.sealRecord(op.record) }
+          : { ...op, key: await this.storedKey(op.key) },
+      );
+    }
+    await this.inner.commit(sealed);
+  }
+
+  async update(key: string, fn: StorageUpdate): Promise<void> {
+    await this.inner.update(await this.storedKey(key), async (current) => {
+      const next = await fn(current && (await this.unsealRecord(current)));
+      return next && this.sealRecord(next);
+    });
+  }
+
+  async list(options: StorageListOptions): Promise<StorageListResult> {
+    if (!this.blinded) return this.unsealPage(await this.inner.list(options));
+    if (options.start !== undefined || options.end !== undefined) {
+      throw new TypeError("Key ranges cannot be listed with blinded keys");
+    }
+
+    // Tokens carry no prefix, so scan them all and keep matching names;
+    // each backend page asks only for what is still missing, so the last
+    // one ends exactly where the next call has to pick up
+    const prefix = options.prefix ?? "";
+    const limit = Math.min(Math.max(1, options.limit ?? 1000), 10000);
+    const keys: KVListKey[] = [];
+    const records: StoredRecord[] = [];
+    let cursor = options.cursor;
+    for (;;) {
+      const page = await this.unsealPage(
+        await this.inner.list({
+          ...options,
+          prefix: undefined,
+          limit: limit - keys.length,
+          cursor,
+        }),
+      );
+      page.keys.forEach((k, i) => {
+        if (!k.name.startsWith(prefix)) return;
+        keys.push(k);
+        if (page.records) records.push(page.records[i]!);
+      });
+
+      const result: StorageListResult = { keys, list_complete: false };
+      if (options.includeRecords) result.records = records;
+      if (page.list_complete || !page.cursor) {
+        result.list_complete = true;
+        return result;
+      }
+      cursor = page.cursor;
+      if (keys.length >= limit) {
+        result.cursor = cursor;
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Changes of the inner backend are unsealed once, however many
+   * listeners there are, and only while there are any
+   */
+  subscribe(listener: ChangeListener): () => void {
+    const unsubscribe = this.feed.subscribe(listener);
+    this.unsubscribeInner ??= this.inner.subscribe((change) => {
+      this.changes = this.changes
+        .then(async () => {
+          this.feed.emit([{ ...change, ...(await this.unseal(change)) }]);
+        })
+        .catch((e) => console.error("[idb-repo] could not unseal a change", e));
+    });
+    return () => {
+      unsubscribe();
+      if (this.feed.size === 0 && this.unsubscribeInner) {
+        this.unsubscribeInner();
+        this.unsubscribeInner = null;
+      }
+    };
+  }
+
+  /**
+   * Keys come back as names. Those found through the expiration index are
+   * stored under tokens; their names are read from the "expire" changes
+   * the purge emits, which carry the sealed metadata.
+   */
+  async purgeExpired(options: StoragePurgeOptions): Promise<string[]> {
+    if (!this.blinded) return this.inner.purgeExpired(options);
+    if (options.keys) {
+      const names = new Map<string, string>();
+      const keys = await this.storedKeys(options.keys);
+      keys.forEach((k, i) => names.set(k, options.keys![i]!));
+      const purged = await this.inner.purgeExpired({ ...options, keys });
+      return purged.map((k) => names.get(k)!);
+    }
+
+    const expired: Array<Promise<[string, string]>> = [];
+    const unsubscribe = this.inner.subscribe((change) => {
+      if (change.type !== "expire") return;
+      expired.push(
+        this.unseal(change).then(
+          ({ key }): [string, string] => [change.key, key],
+          (): [string, string] => [change.key, change.key],
+        ),
+      );
+    });
+    let purged: string[];
+    try {
+      purged = await this.inner.purgeExpired(options);
+    } finally {
+      unsubscribe();
+    }
+    const names = new Map(await Promise.all(expired));
+    return purged.map((k) => names.get(k) ?? k);
+  }
+
+  /**
+   * The inner backend's namespace, unsealed: the adapter that opens it
+   * seals it with its own options
+   */
+  namespace(name: string): StorageBackend {
+    return this.inner.namespace(name);
+  }
+
+  async compact(): Promise<unknown> {
+    return this.inner.compact?.();
+  }
+
+  async verify(): Promise<StorageVerifyReport> {
+    return (
+      (await this.inner.verify?.()) ?? { segments: 0, records: 0, corrupt: [] }
+    );
+  }
+
+  async flush(): Promise<void> {
+    await this.inner.flush?.();
+  }
+
+  async close(): Promise<void> {
+    this.unsubscribeInner?.();
+    this.unsubscribeInner = null;
+    this.feed.clear();
+    await this.inner.close();
+  }
+
+  /**
+   * Key a name is stored under
+   */
+  private async storedKey(name: string): Promise<string> {
+    const secret = this.sealer.blindingSecret;
+    if (secret === undefined) return name;
+    this.hmacKey ??= globalThis.crypto.subtle.importKey(
+      "raw",
+      typeof secret === "string"
+        ? new TextEncoder().encode(secret)
+        : Uint8Array.from(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    const mac = await globalThis.crypto.subtle.sign(
+      "HMAC",
+      await this.hmacKey,
+      new TextEncoder().encode(name),
+    );
+    return toBase64(new Uint8Array(mac))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/g, "");
+  }
+
+  private storedKeys(names: string[]): Promise<string[]> {
+    return Promise.all(names.map((name) => this.storedKey(name)));
+  }
+
+  private async sealRecord(record: StoredRecord): Promise<StoredRecord> {
+    const key = await this.storedKey(record.key);
+    // Without blinding there is no name to keep, so no metadata stays null
+    if (!this.blinded && record.metadata == null) {
+      return { ...record, metadata: null };
+    }
+
+    const sealed = JSON.stringify(
+      this.blinded
+        ? { n: record.key, m: record.metadata ?? null }
+        : { m: record.metadata },
+    );
+    if (sealed === undefined) {
+      throw new TypeError("Metadata cannot be represented as JSON text");
+    }
+    const ciphertext = await this.sealer.encrypt(
+      new TextEncoder().encode(sealed),
+      associatedData(key),
+    );
+    return { ...record, key, metadata: { [SEALED]: toBase64(ciphertext) } };
+  }
+
+  private async unsealRecord(record: StoredRecord): Promise<StoredRecord> {
+    const { key, metadata } = await this.unseal(record);
+    return { ...record, key, metadata };
+  }
+
+  /**
+   * Name and plain metadata of a stored key. Metadata written before
+   * sealing was turned on comes back as it is with `allowPlaintext`.
+   * @throws Error if it is not sealed otherwise
+   */
+  private async unseal(stored: {
+    key: string;
+    metadata: unknown;
+  }): Promise<{ key: string; metadata: unknown | null }> {
+    const metadata = stored.metadata as Record<string, unknown> | null;
+    const sealed = metadata?.[SEALED];
+    if (typeof sealed !== "string") {
+      // Unblinded records without metadata are stored without a seal
+      if ((metadata == null && !this.blinded) || this.sealer.allowPlaintext) {
+        return { key: stored.key, metadata: stored.metadata ?? null };
+      }
+      throw new Error(
+        `Metadata of ${JSON.stringify(stored.key)} is not sealed`,
+      );
+    }
+
+    const plaintext = await this.sealer.decrypt(
+      fromBase64(sealed),
+      associatedData(stored.key),
+    );
+    const { n, m } = JSON.parse(new TextDecoder().decode(plaintext)) as {
+      n?: string;
+      m: unknown;
+    };
+    return { key: n ?? stored.key, metadata: m ?? null };
+  }
+
+  private async unsealPage(
+    page: StorageListResult,
+  ): Promise<StorageListResult> {
+    const keys: KVListKey[] = [];
+    const records = page.records && ([] as StoredRecord[]);
+    for (let i = 0; i < page.keys.length; i++) {
+      const listed = page.keys[i]!;
+      const rec = page.records?.[i];
+      const { key, metadata } = await this.unseal({
+        key: listed.name,
+        metadata: rec ? rec.metadata : (listed.metadata ?? null),
+      });
+
+      const out: KVListKey = { name: key };
+      if (listed.expiration) out.expiration = listed.expiration;
+      if (metadata) out.metadata = metadata;
+      keys.push(out);
+      if (rec) records!.push({ ...rec, key, metadata });
+    }
+    return { ...page, keys, ...(records && { records }) };
+  }
+}
+
+/**
+ * Associated data that binds sealed metadata to the key it is stored under
+ */
+function associatedData(storedKey: string): Uint8Array {
+  const name = new TextEncoder().encode(storedKey);
+  const data = new Uint8Array(1 + name.length);
+  data[0] = METADATA_FLAG;
+  data.set(name, 1);
+  return data;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { readTar, tarEnd, tarHeader, tarPadding } from "./tar";
+
+const archive = (files: Array<[string, Uint8Array]>) => {
+  const parts: Uint8Array[] = [];
+  for (const [name, data] of files) {
+    parts.push(tarHeader(name, data.length, Date.now()), data);
+    parts.push(tarPadding(data.length));
+  }
+  parts.push(tarEnd());
+  return new Blob(parts as BlobPart[]);
+};
+
+// Re-chunk a blob into pieces of an awkward size
+const streamOf = (blob: Blob, size: number) => {
+  let at = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (at >= blob.size) return controller.close();
+      const piece = blob.slice(at, at + size);
+      at += size;
+      controller.enqueue(new Uint8Array(await piece.arrayBuffer()));
+    },
+  });
+};
+
+const extract = async (stream: ReadableStream<Uint8Array>) => {
+  const files = new Map<string, string>();
+  await readTar(stream, async (name) => {
+    const chunks: Uint8Array[] = [];
+    return {
+      write: async (chunk) => void chunks.push(chunk.slice()),
+      close: async () => {
+        files.set(name, await new Blob(chunks as BlobPart[]).text());
+      },
+    };
+  });
+  return files;
+};
+
+describe("tar", () => {
+  it("reads back what it writes, however the stream is chunked", async () => {
+    const longName = `${"namespaces/" + "n".repeat(60) + "/"}${"x".repeat(90)}.kvlog`;
+    const blob = archive([
+      ["000001.kvlog", new TextEncoder().encode("a".repeat(1000))],
+      ["empty.hint", new Uint8Array(0)],
+      [longName, new TextEncoder().encode("nested")],
+    ]);
+    expect(blob.size % 512).toBe(0);
+
+    for (const size of [1, 333, 512, 100_000]) {
+      const files = await extract(streamOf(blob, size));
+      expect(files.get("000001.kvlog")).toBe("a".repeat(1000));
+      expect(files.get("empty.hint")).toBe("");
+      expect(files.get(longName)).toBe("nested");
+    }
+  });
+
+  it("rejects truncated and corrupt archives", async () => {
+    const blob = archive([["f", new TextEncoder().encode("data")]]);
+    expect(extract(streamOf(blob.slice(0, 600), 100))).rejects.toThrow(
+      /Truncated/,
+    );
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    bytes[0] = 0x67;
+    expect(extract(streamOf(new Blob([bytes]), 512))).rejects.toThrow(
+      /Corrupt/,
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Minimal ustar archives for store backups: regular files only, written
+ * and read as streams so no file has to fit in memory
+ */
+
+const BLOCK = 512;
+
+/**
+ * Receives the contents of one file read from an archive
+ */
+export type TarFileSink = {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+};
+
+/**
+ * Header block of a regular file entry
+ */
+export function tarHeader(
+  name: string,
+  size: number,
+  mtimeMs: number,
+): Uint8Array {
+  // 11 octal digits
+  if (size >= 8 ** 11) {
+    throw new RangeError(`File too large for a tar archive: ${name}`);
+  }
+  const header = new Uint8Array(BLOCK);
+  const [prefix, base] = splitName(name);
+  writeString(header, 0, 100, base);
+  writeOctal(header, 100, 8, 0o600);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(mtimeMs / 1000));
+  header[156] = 0x30; // '0': regular file
+  writeString(header, 257, 8, "ustar\u000000");
+  writeString(header, 345, 155, prefix);
+
+  header.fill(0x20, 148, 156);
+  const sum = header.reduce((n, b) => n + b, 0);
+  writeString(header, 148, 8, sum.toString(8).padStart(6, "0") + "\u0000 ");
+  return header;
+}
+
+/**
+ * Zero bytes that pad a file of `size` bytes to a whole block
+ */
+export function tarPadding(size: number): Uint8Array {
+  return new Uint8Array((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+/**
+ * The two zero blocks that end an archive
+ */
+export function tarEnd(): Uint8Array {
+  return new Uint8Array(2 * BLOCK);
+}
+
+/**
+ * Read an archive, passing each regular file's contents to the sink
+ * `open` returns for it; other entry types are skipped
+ */
+export async function readTar(
+  stream: ReadableStream<Uint8Array>,
+  open: (name: string, size: number) => Promise<TarFileSink>,
+): Promise<void> {
+  const reader = stream.getReader();
+  let pending: Uint8Array = new Uint8Array(0);
+
+  // Up to `max` bytes; null once the stream has ended
+  const next = async (max: number): Promise<Uint8Array | null> => {
+    while (pending.length === 0) {
+      const { value, done } = await reader.read();
+      if (done) return null;
+      pending = value;
+    }
+    const out = pending.subarray(0, max);
+    pending = pending.subarray(out.length);
+    return out;
+  };
+  const exactly = async (n: number): Promise<Uint8Array> => {
+    const buf = new Uint8Array(n);
+    for (let got = 0; got < n;) {
+      const part = await next(n - got);
+      if (!part) throw new Error("Truncated tar archive");
+      buf.set(part, got);
+      got += part.length;
+    }
+    return buf;
+  };
+
+  try {
+    for (;;) {
+      const header = await exactly(BLOCK);
+      if (header.every((b) => b === 0)) break;
+      if (!checksumValid(header)) throw new Error("Corrupt tar header");
+
+      const base = readString(header, 0, 100);
+      const prefix = readString(header, 345, 155);
+      const name = prefix ? `${prefix}/${base}` : base;
+      const size = readOctal(header, 124, 12);
+      const type = header[156];
+
+      const sink = type === 0x30 || type === 0 ? await open(name, size) : null;
+      for (let left = size; left > 0;) {
+        const part = await next(left);
+        if (!part) throw new Error("Truncated tar archive");
+        await sink?.write(part);
+        left -= part.length;
+      }
+      await sink?.close();
+      await exactly(tarPadding(size).length);
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Split a path into ustar's prefix (155) and name (100) fields
+ */
+function splitName(name: string): [string, string] {
+  if (byteLength(name) <= 100) return ["", name];
+  for (let i = name.indexOf("/"); i >= 0; i = name.indexOf("/", i + 1)) {
+    const prefix = name.slice(0, i);
+    const base = name.slice(i + 1);
+    if (byteLength(prefix) <= 155 && byteLength(base) <= 100) {
+      return [prefix, base];
+    }
+  }
+  throw new RangeError(`Path too long for a tar archive: ${name}`);
+}
+
+function checksumValid(header: Uint8Array): boolean {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+  }
+  return sum === readOctal(header, 148, 8);
+}
+
+function byteLength(s: string): number {
+  return new TextEncoder().encode(s).length;
+}
+
+function writeString(buf: Uint8Array, at: number, len: number, s: string) {
+  buf.set(new TextEncoder().encode(s).subarray(0, len), at);
+}
+
+function writeOctal(buf: Uint8Array, at: number, len: number, n: number) {
+  writeString(buf, at, len, n.toString(8).padStart(len - 1, "0") + "\u0000");
+}
+
+function readString(buf: Uint8Array, at: number, len: number): string {
+  const field = buf.subarray(at, at + len);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? field.subarray(0, end) : field);
+}
+
+function readOctal(buf: Uint8Array, at: number, len: number): number {
+  const digits = readString(buf, at, len).trim();
+  return digits ? parseInt(digits, 8) : 0;
+}
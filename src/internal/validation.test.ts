@@ -1,5 +1,9 @@
 import { describe, it, expect } from "bun:test";
-import { isArrayBufferView, assertKey } from "./validation";
+import {
+  isArrayBufferView,
+  assertKey,
+  assertNamespaceName,
+} from "./validation";
 
 describe("validation", () => {
   describe("isArrayBufferView", () => {
@@ -91,4 +95,23 @@ describe("validation", () => {
       expect(() => assertKey({} as any)).toThrow(TypeError);
     });
   });
+
+  describe("assertNamespaceName", () => {
+    it("accepts portable names", () => {
+      expect(() => assertNamespaceName("users")).not.toThrow();
+      expect(() => assertNamespaceName("v1.cache-2_x")).not.toThrow();
+    });
+
+    it("rejects empty, dot and path-like names", () => {
+      expect(() => assertNamespaceName("")).toThrow(TypeError);
+      expect(() => assertNamespaceName(".")).toThrow(TypeError);
+      expect(() => assertNamespaceName("..")).toThrow(TypeError);
+      expect(() => assertNamespaceName("a/b")).toThrow(TypeError);
+      expect(() => assertNamespaceName("a:b")).toThrow(TypeError);
+    });
+
+    it("rejects names longer than 64 characters", () => {
+      expect(() => assertNamespaceName("a".repeat(65))).toThrow(TypeError);
+    });
+  });
 });
@@ -23,3 +23,21 @@ export function assertKey(key: string): void {
     throw new TypeError("KV key must be a non-empty string");
   }
 }
+
+/**
+ * Validate a namespace name. Names become part of IndexedDB store names
+ * and directory names, so they are restricted to a portable character set.
+ * @throws {TypeError} if name is invalid
+ */
+export function assertNamespaceName(name: string): void {
+  if (
+    typeof name !== "string" ||
+    !/^[A-Za-z0-9_.-]{1,64}$/.test(name) ||
+    name === "." ||
+    name === ".."
+  ) {
+    throw new TypeError(
+      "KV namespace name must be 1-64 characters of A-Z, a-z, 0-9, '_', '.' or '-'",
+    );
+  }
+}
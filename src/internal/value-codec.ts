@@ -59,7 +59,9 @@ export async function normalizePutValue(
 /**
  * Convert a ReadableStream<Uint8Array> to a Blob
  */
-async function streamToBlob(stream: ReadableStream<Uint8Array>): Promise<Blob> {
+export async function streamToBlob(
+  stream: ReadableStream<Uint8Array>,
+): Promise<Blob> {
   const reader = stream.getReader();
   const chunks: Uint8Array[] = [];
   try {
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "bun:test";
+import { checkWriteCondition, etagOf, stampRecord } from "./versioning";
+import { KVConflictError } from "../errors";
+import type { StoredRecord } from "../types";
+
+function record(overrides?: Partial<StoredRecord>): StoredRecord {
+  return {
+    key: "k",
+    value: "v",
+    encoding: "text",
+    expiresAt: null,
+    metadata: null,
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+describe("versioning", () => {
+  describe("stampRecord", () => {
+    it("starts new keys at version 1", () => {
+      expect(stampRecord(record(), undefined).version).toBe(1);
+    });
+
+    it("increments the previous version and keeps createdAt", () => {
+      const prev = record({ version: 4, createdAt: 10 });
+      const next = stampRecord(record({ createdAt: 2000 }), prev);
+      expect(next.version).toBe(5);
+      expect(next.createdAt).toBe(10);
+    });
+
+    it("continues a re-created key from the version it ended at", () => {
+      expect(stampRecord(record(), undefined, 7).version).toBe(8);
+      const prev = record({ version: 2 });
+      expect(stampRecord(record(), prev, 7).version).toBe(3);
+    });
+
+    it("treats legacy records without a version as version 0", () => {
+      expect(stampRecord(record(), record()).version).toBe(1);
+    });
+  });
+
+  describe("etagOf", () => {
+    it("differs between versions and between re-created keys", () => {
+      const a = etagOf({ createdAt: 1000, version: 1 });
+      expect(etagOf({ createdAt: 1000, version: 2 })).not.toBe(a);
+      expect(etagOf({ createdAt: 5000, version: 1 })).not.toBe(a);
+      expect(etagOf({ createdAt: 1000, version: 1 })).toBe(a);
+    });
+  });
+
+  describe("checkWriteCondition", () => {
+    const current = record({ version: 3 });
+
+    it("passes without a condition", () => {
+      expect(() => checkWriteCondition("k", current)).not.toThrow();
+    });
+
+    it("rejects onlyIfAbsent when the key exists", () => {
+      expect(() =>
+        checkWriteCondition("k", current, { onlyIfAbsent: true }),
+      ).toThrow(KVConflictError);
+      expect(() =>
+        checkWriteCondition("k", undefined, { onlyIfAbsent: true }),
+      ).not.toThrow();
+    });
+
+    it("compares ifVersion and ifMatch against the current record", () => {
+      expect(() =>
+        checkWriteCondition("k", current, { ifVersion: 3 }),
+      ).not.toThrow();
+      expect(() =>
+        checkWriteCondition("k", current, { ifMatch: etagOf(current) }),
+      ).not.toThrow();
+
+      try {
+        checkWriteCondition("k", current, { ifVersion: 2 });
+        throw new Error("expected conflict");
+      } catch (e) {
+        expect(e).toBeInstanceOf(KVConflictError);
+        expect((e as KVConflictError).reason).toBe("version");
+        expect((e as KVConflictError).currentVersion).toBe(3);
+      }
+    });
+
+    it("fails version conditions for missing keys", () => {
+      expect(() =>
+        checkWriteCondition("k", undefined, { ifVersion: 1 }),
+      ).toThrow(KVConflictError);
+      expect(() =>
+        checkWriteCondition("k", undefined, { ifMatch: "x" }),
+      ).toThrow(KVConflictError);
+    });
+  });
+});
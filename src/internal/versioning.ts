@@ -0,0 +1,71 @@
+/**
+ * Per-record versions and write preconditions
+ */
+
+import type { KVWriteCondition, StoredRecord } from "../types";
+import { KVConflictError } from "../errors";
+import { isExpired } from "./ttl";
+
+/**
+ * Opaque etag for a record. Includes createdAt so that a key which is
+ * deleted and re-created does not reuse the etag of its previous life.
+ */
+export function etagOf(
+  rec: Pick<StoredRecord, "createdAt" | "version">,
+): string {
+  return `${Math.floor(rec.createdAt).toString(36)}-${rec.version ?? 0}`;
+}
+
+/**
+ * Treat expired records as absent for version purposes
+ */
+export function liveRecord<R extends StoredRecord>(
+  rec: R | undefined,
+): R | undefined {
+  return rec && !isExpired(rec) ? rec : undefined;
+}
+
+/**
+ * Validate a write precondition against the current (live) record
+ * @throws {KVConflictError} if the condition does not hold
+ */
+export function checkWriteCondition(
+  key: string,
+  current: Pick<StoredRecord, "createdAt" | "version"> | undefined,
+  cond?: KVWriteCondition,
+): void {
+  if (!cond) return;
+  const currentVersion = current ? (current.version ?? 0) : null;
+
+  if (cond.onlyIfAbsent && current) {
+    throw new KVConflictError(key, "exists", currentVersion);
+  }
+  if (cond.ifVersion !== undefined && cond.ifVersion !== currentVersion) {
+    throw new KVConflictError(key, "version", currentVersion);
+  }
+  if (
+    cond.ifMatch !== undefined &&
+    (!current || etagOf(current) !== cond.ifMatch)
+  ) {
+    throw new KVConflictError(key, "etag", currentVersion);
+  }
+}
+
+/**
+ * Assign the next version to a record being written over `prev`,
+ * carrying createdAt forward for updates. A key written again after it
+ * was deleted or expired continues from `lastVersion`, the version its
+ * previous record ended at, so `ifVersion` taken from that record cannot
+ * match the new one.
+ */
+export function stampRecord(
+  record: StoredRecord,
+  prev: Pick<StoredRecord, "createdAt" | "version"> | undefined,
+  lastVersion = 0,
+): StoredRecord {
+  return {
+    ...record,
+    createdAt: prev ? prev.createdAt : record.createdAt,
+    version: (prev ? (prev.version ?? 0) : lastVersion) + 1,
+  };
+}
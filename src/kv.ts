@@ -85,15 +85,21 @@ type CreateKVOptions = ConstructorParameters<typeof IndexedDbKV>[0] & {
   forceMemory?: boolean;
 };
 
-function adapterOptions(opts?: CreateKVOptions) {
+function adapterOptions(opts?: CreateKVOptions): KVAdapterOptions {
   return {
     cacheEntries: opts?.cacheEntries,
     encryptionProvider: opts?.encryptionProvider,
     encryptionKeyId: opts?.encryptionKeyId,
+    encryptMetadata: opts?.encryptMetadata,
+    blindKeys: opts?.blindKeys,
+    allowPlaintextMetadata: opts?.allowPlaintextMetadata,
+    sweepIntervalMs: opts?.sweepIntervalMs,
+    sweepBatchSize: opts?.sweepBatchSize,
+    onSweep: opts?.onSweep,
   };
 }
 
-export function createKV(opts?: CreateKVOptions): KVNamespace {
+export function createKV(opts?: CreateKVOptions): KVStorageAdapter {
   if (opts?.forceMemory) {
     return new KVStorageAdapter(
       new MemoryStorageBackend(),
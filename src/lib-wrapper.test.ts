@@ -15,6 +15,9 @@ function createMockKV(overrides?: Partial<KVNamespace>): KVNamespace {
         list_complete: true,
       }),
     ),
+    getMany: mock(async (keys: string[]) => keys.map(() => "value")),
+    putMany: mock(async () => {}),
+    deleteMany: mock(async () => {}),
     ...overrides,
   };
 }
@@ -90,6 +93,20 @@ describe("withKVFeatures", () => {
       expect(base.getWithMetadata).toHaveBeenCalledWith("app:k");
     });
 
+    it("prepends prefix to every key in getMany() and deleteMany()", async () => {
+      const kv = withKVFeatures(base, { prefix: "ns:" });
+      await kv.getMany(["a", "b"]);
+      await kv.deleteMany(["c"]);
+      expect(base.getMany).toHaveBeenCalledWith(["ns:a", "ns:b"]);
+      expect(base.deleteMany).toHaveBeenCalledWith(["ns:c"]);
+    });
+
+    it("prepends prefix to putMany() entry keys", async () => {
+      const kv = withKVFeatures(base, { prefix: "ns:" });
+      await kv.putMany([{ key: "a", value: "1" }]);
+      expect(base.putMany).toHaveBeenCalledWith([{ key: "ns:a", value: "1" }]);
+    });
+
     it("does NOT prefix list() (list has no key argument at index 0)", async () => {
       const kv = withKVFeatures(base, { prefix: "ns:" });
       await kv.list({ prefix: "foo" });
@@ -138,6 +155,12 @@ describe("withKVFeatures", () => {
       const kv = withKVFeatures(base);
       await expect(kv.delete("")).rejects.toThrow(TypeError);
     });
+
+    it("validates every key of a batch", async () => {
+      const kv = withKVFeatures(base);
+      await expect(kv.getMany(["ok", ""])).rejects.toThrow(TypeError);
+      expect(base.getMany).not.toHaveBeenCalled();
+    });
   });
 
   // ── Logging ──────────────────────────────────────────────
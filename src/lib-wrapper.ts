@@ -55,10 +55,18 @@ const productionKv = withKVFeatures(
 );
  */
 
-import type { KVNamespace } from "./types";
+import type { KVNamespace, KVPutEntry } from "./types";
 import { IndexedDbKV } from "./lib";
 
-type KVMethodName = "get" | "getWithMetadata" | "put" | "delete" | "list";
+type KVMethodName =
+  | "get"
+  | "getWithMetadata"
+  | "put"
+  | "delete"
+  | "list"
+  | "getMany"
+  | "putMany"
+  | "deleteMany";
 
 type WrappedKV = KVNamespace & {
   // optional: expose original for testing / advanced usage
@@ -120,14 +128,28 @@ export function withKVFeatures(
 
       // 1. Pre-processing / validation
       let effectiveArgs = [...args];
-      if (validateKeys && keyIndex >= 0) {
-        const rawKey = effectiveArgs[keyIndex];
+      const checkedKey = (rawKey: unknown): string => {
         if (typeof rawKey !== "string" || rawKey.trim() === "") {
           throw new TypeError(
             `Invalid key for ${methodStr}: ${JSON.stringify(rawKey)}`,
           );
         }
-        effectiveArgs[keyIndex] = prefixedKey(rawKey);
+        return prefixedKey(rawKey);
+      };
+      if (validateKeys && keyIndex >= 0) {
+        effectiveArgs[keyIndex] = checkedKey(effectiveArgs[keyIndex]);
+      }
+      if (
+        validateKeys &&
+        (methodStr === "getMany" || methodStr === "deleteMany")
+      ) {
+        effectiveArgs[0] = (effectiveArgs[0] as unknown[]).map(checkedKey);
+      }
+      if (validateKeys && methodStr === "putMany") {
+        effectiveArgs[0] = (effectiveArgs[0] as KVPutEntry[]).map((e) => ({
+          ...e,
+          key: checkedKey(e.key),
+        }));
       }
 
       // 2. Logging start
@@ -186,6 +208,9 @@ export function withKVFeatures(
     put: wrapMethod("put"),
     delete: wrapMethod("delete"),
     list: wrapMethod("list"),
+    getMany: wrapMethod("getMany"),
+    putMany: wrapMethod("putMany"),
+    deleteMany: wrapMethod("deleteMany"),
     __original: base instanceof IndexedDbKV ? base : undefined,
   } as WrappedKV;
 
@@ -1,8 +1,14 @@
-import { describe, it, expect } from "bun:test";
+import { describe, it, expect, spyOn } from "bun:test";
 import { NodeFileSystemStorageBackend } from "./storage-backend-node";
 import { KVStorageAdapter } from "./storage-adapter";
+import { WebCryptoEncryptionProvider } from "./encryption/web/web-provider";
+import { KeyringEncryptionProvider } from "./encryption/keyring-provider";
+import { KVConflictError, KVLockedError, KVReadOnlyError } from "./errors";
+import * as nodeFs from "node:fs";
+import { existsSync } from "node:fs";
 import fsp from "node:fs/promises";
 import path from "node:path";
+import os from "node:os";
 
 describe("NodeFileSystemStorageBackend Persistence", () => {
   const testDir = "test-kv-data";
@@ -68,4 +74,1437 @@ describe("NodeFileSystemStorageBackend Persistence", () => {
     expect(result.keys.map((k) => k.name)).toContain("p/2");
     await kv2.close();
   });
+
+  it("persists batched writes and deletes", async () => {
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv = new KVStorageAdapter(backend);
+
+    await kv.putMany(
+      Array.from({ length: 50 }, (_, i) => ({
+        key: `batch/${String(i).padStart(2, "0")}`,
+        value: `v${i}`,
+      })),
+    );
+    await kv.deleteMany(["batch/00", "batch/01"]);
+    await kv.close();
+
+    const backend2 = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv2 = new KVStorageAdapter(backend2);
+    const result = await kv2.list({ prefix: "batch/" });
+    expect(result.keys.length).toBe(48);
+    expect(await kv2.getMany(["batch/00", "batch/02", "batch/49"])).toEqual([
+      null,
+      "v2",
+      "v49",
+    ]);
+    await kv2.close();
+  });
+
+  it("keeps versions and enforces conditions across restarts", async () => {
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv = new KVStorageAdapter(backend);
+
+    await kv.put("cas/key", "v1", { onlyIfAbsent: true });
+    await kv.put("cas/key", "v2", { ifVersion: 1 });
+    await kv.close();
+
+    const backend2 = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv2 = new KVStorageAdapter(backend2);
+    const { value, version } = await kv2.getWithMetadata("cas/key");
+    expect(value).toBe("v2");
+    expect(version).toBe(2);
+
+    await expect(kv2.put("cas/key", "v3", { ifVersion: 1 })).rejects.toThrow(
+      KVConflictError,
+    );
+    await kv2.put("cas/key", "v3", { ifVersion: 2 });
+    expect(await kv2.get("cas/key")).toBe("v3");
+    await kv2.close();
+  });
+
+  it("keeps the version a deleted key ended at through restarts and compaction", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+    const open = () =>
+      new NodeFileSystemStorageBackend({
+        dir: testDir,
+        segmentMaxBytes: 512,
+        compactThreshold: 0,
+      });
+
+    const backend = open();
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("aba", "one");
+    await kv.put("aba", "two");
+    await kv.delete("aba");
+    for (let i = 0; i < 20; i++) await kv.put(`filler/${i}`, "x".repeat(40));
+    await backend.compact();
+    await kv.close();
+
+    const reopened = open();
+    const kv2 = new KVStorageAdapter(reopened);
+    await expect(kv2.put("aba", "stale", { ifVersion: 2 })).rejects.toThrow(
+      KVConflictError,
+    );
+    await kv2.put("aba", "three");
+    expect((await kv2.getWithMetadata("aba")).version).toBe(3);
+    await kv2.close();
+  });
+
+  it("applies committed transactions and drops torn ones on recovery", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("txn/a", "1");
+    await kv.transaction(async (tx) => {
+      await tx.put("txn/b", "2");
+      await tx.delete("txn/a");
+    });
+    await kv.close();
+
+    const segment = path.join(testDir, "000001.kvlog");
+    const committedSize = (await fsp.stat(segment)).size;
+
+    const backend2 = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv2 = new KVStorageAdapter(backend2);
+    expect(await kv2.get("txn/a")).toBeNull();
+    expect(await kv2.get("txn/b")).toBe("2");
+    await kv2.transaction(async (tx) => {
+      await tx.put("txn/c", "3");
+      await tx.put("txn/d", "4");
+    });
+    await kv2.close();
+
+    // Simulate a crash before the commit marker reached the disk
+    const fullSize = (await fsp.stat(segment)).size;
+    await fsp.truncate(segment, fullSize - 24);
+    expect(committedSize).toBeLessThan(fullSize - 24);
+
+    const backend3 = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv3 = new KVStorageAdapter(backend3);
+    expect(await kv3.get("txn/b")).toBe("2");
+    expect(await kv3.get("txn/c")).toBeNull();
+    expect(await kv3.get("txn/d")).toBeNull();
+
+    // A later batch must not resurrect the torn one
+    await kv3.transaction(async (tx) => {
+      await tx.put("txn/e", "5");
+    });
+    await kv3.close();
+
+    const backend4 = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv4 = new KVStorageAdapter(backend4);
+    expect(await kv4.get("txn/c")).toBeNull();
+    expect(await kv4.get("txn/e")).toBe("5");
+    await kv4.close();
+  });
+
+  it("shares writes and watch events between backends on one directory", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const a = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    const b = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir, segmentMaxBytes: 256 }),
+    );
+    await a.put("warmup", "a");
+    expect(await b.get("warmup", { cacheTtl: 60 })).toBe("a");
+
+    const seen: Array<[string, string]> = [];
+    b.watch({ prefix: "job:" }, (e) => seen.push([e.type, e.key]));
+
+    for (let i = 0; i < 10; i++) {
+      await a.put(`job:${i}`, "x".repeat(40));
+    }
+    await b.put("job:extra", "from b");
+    await a.delete("job:0");
+    await a.put("warmup", "changed");
+    await Bun.sleep(0);
+
+    expect(seen).toHaveLength(12);
+    expect(seen[11]).toEqual(["delete", "job:0"]);
+    expect(await b.get("warmup", { cacheTtl: 60 })).toBe("changed");
+    expect(await a.get("job:extra")).toBe("from b");
+    expect(await b.get("job:9")).toBe("x".repeat(40));
+
+    await a.close();
+    await b.close();
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    const { keys } = await reopened.list({ prefix: "job:" });
+    expect(keys).toHaveLength(10);
+    await reopened.close();
+  });
+
+  it("purges expired records from the index and the log", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const past = Math.floor(Date.now() / 1000) - 1;
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await kv.putMany([
+      { key: "a", value: "1", options: { expiration: past } },
+      { key: "b", value: "2", options: { expiration: past } },
+      { key: "c", value: "3" },
+    ]);
+    expect(await kv.purgeExpired()).toBe(2);
+    await kv.close();
+
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    expect(await backend.purgeExpired({ limit: 10 })).toEqual([]);
+    expect((await backend.get("c"))?.value).toBe("3");
+    await backend.close();
+  });
+
+  it("finds expired records without walking live keys", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const past = Math.floor(Date.now() / 1000) - 1;
+    const future = past + 3600;
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await kv.putMany(
+      Array.from({ length: 50 }, (_, i) => ({ key: `live:${i}`, value: "v" })),
+    );
+    await kv.putMany([
+      { key: "old:1", value: "1", options: { expiration: past } },
+      { key: "old:2", value: "2", options: { expiration: past } },
+      { key: "old:3", value: "3", options: { expiration: past } },
+      { key: "soon", value: "4", options: { expiration: future } },
+      { key: "kept", value: "5", options: { expiration: past } },
+    ]);
+    // Rewriting without an expiration takes the key out of the index
+    await kv.put("kept", "6");
+    await kv.close();
+
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    await backend.list({ limit: 1 });
+    const keys = spyOn((backend as any).index, "keys");
+    const entries = spyOn((backend as any).index, "entries");
+    try {
+      expect(await backend.purgeExpired({ limit: 2 })).toEqual([
+        "old:1",
+        "old:2",
+      ]);
+      expect(await backend.purgeExpired({ limit: 2 })).toEqual(["old:3"]);
+      expect(await backend.purgeExpired({ limit: 2 })).toEqual([]);
+      expect(keys).not.toHaveBeenCalled();
+      expect(entries).not.toHaveBeenCalled();
+    } finally {
+      keys.mockRestore();
+      entries.mockRestore();
+    }
+    expect((await backend.get("kept"))?.value).toBe("6");
+    expect((await backend.get("soon"))?.value).toBe("4");
+    await backend.close();
+  });
+
+  it("lists key ranges in reverse with cursors and values", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv = new KVStorageAdapter(backend);
+    for (const k of ["t:1", "t:2", "t:3", "t:4", "u:1"]) await kv.put(k, k);
+
+    const first = await backend.list({
+      prefix: "t:",
+      reverse: true,
+      end: "t:4",
+      limit: 2,
+    });
+    expect(first.keys.map((k) => k.name)).toEqual(["t:3", "t:2"]);
+    expect(first.list_complete).toBe(false);
+
+    const second = await backend.list({
+      prefix: "t:",
+      reverse: true,
+      end: "t:4",
+      cursor: first.cursor,
+    });
+    expect(second.keys.map((k) => k.name)).toEqual(["t:1"]);
+    expect(second.list_complete).toBe(true);
+
+    const withValues = await kv.list({ prefix: "t:", includeValues: true });
+    expect(withValues.keys.map((k) => k.value)).toEqual([
+      "t:1",
+      "t:2",
+      "t:3",
+      "t:4",
+    ]);
+    await kv.close();
+  });
+
+  it("does not lose increments racing across backends", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const a = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    const b = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => (i % 2 ? a : b).increment("hits")),
+    );
+    await a.close();
+    await b.close();
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await reopened.get("hits", { type: "json" })).toBe(20);
+    await reopened.close();
+  });
+
+  it("decrypts and encrypts each encrypted increment once", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const provider = new WebCryptoEncryptionProvider("counter key");
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+      { encryptionProvider: provider },
+    );
+    await kv.increment("hits");
+    const decrypt = spyOn(provider, "decrypt");
+    const encrypt = spyOn(provider, "encrypt");
+    try {
+      await Promise.all(Array.from({ length: 10 }, () => kv.increment("hits")));
+      expect(decrypt).toHaveBeenCalledTimes(10);
+      expect(encrypt).toHaveBeenCalledTimes(10);
+    } finally {
+      decrypt.mockRestore();
+      encrypt.mockRestore();
+    }
+    expect(await kv.get("hits", { type: "json" })).toBe(11);
+    await kv.close();
+  });
+
+  it("stores namespaces in their own subdirectories", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    {
+      const kv = new KVStorageAdapter(
+        new NodeFileSystemStorageBackend({ dir: testDir }),
+      );
+      await kv.put("k", "root");
+      await kv.namespace("cache").put("k", "cached");
+      await kv.close();
+    }
+
+    const entries = await fsp.readdir(path.join(testDir, "namespaces"));
+    expect(entries).toEqual(["cache"]);
+
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await kv.get("k")).toBe("root");
+    expect(await kv.namespace("cache").get("k")).toBe("cached");
+    expect((await kv.list()).keys.map((k) => k.name)).toEqual(["k"]);
+    await kv.close();
+  });
+
+  it("compacts sealed segments down to live records", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 512,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    for (let round = 0; round < 5; round++) {
+      for (let i = 0; i < 8; i++) {
+        await kv.put(`k${i}`, `v${round}-${"x".repeat(30)}`);
+      }
+    }
+    await kv.delete("k7");
+    await kv.put("gone", "y", {
+      expiration: Math.floor(Date.now() / 1000) + 1,
+    });
+
+    const before = await backend.stats();
+    expect(before.spaceAmplification).toBeGreaterThan(2);
+
+    await Bun.sleep(1100);
+    const after = await backend.compact();
+    expect(after.segments).toBeLessThan(before.segments);
+    expect(after.totalBytes).toBeLessThan(before.totalBytes);
+    expect(after.spaceAmplification).toBeLessThan(2);
+    expect(await kv.get("k3")).toBe(`v4-${"x".repeat(30)}`);
+    expect(await kv.get("k7")).toBeNull();
+    await kv.put("k0", "after");
+    await kv.close();
+
+    const files = await fsp.readdir(testDir);
+    expect(files.some((f) => f.endsWith(".compact"))).toBe(false);
+    const count = (ext: string) => files.filter((f) => f.endsWith(ext)).length;
+    expect(count(".hint")).toBe(count(".kvlog") - 1);
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    const { keys } = await reopened.list();
+    expect(keys.map((k) => k.name)).toEqual([
+      "k0",
+      "k1",
+      "k2",
+      "k3",
+      "k4",
+      "k5",
+      "k6",
+    ]);
+    expect(await reopened.get("k0")).toBe("after");
+    expect(await reopened.get("k6")).toBe(`v4-${"x".repeat(30)}`);
+    await reopened.close();
+  });
+
+  it("compacts automatically past the threshold", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 256,
+    });
+    const kv = new KVStorageAdapter(backend);
+    for (let i = 0; i < 100; i++) {
+      await kv.put("counter", String(i));
+    }
+    await Bun.sleep(20);
+
+    // Without compaction this would be 15 segments
+    const stats = await backend.stats();
+    expect(stats.segments).toBeLessThanOrEqual(2);
+    expect(await kv.get("counter")).toBe("99");
+    await kv.close();
+  });
+
+  it("finishes a read whose segment compactions replaced meanwhile", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 256,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("old", "o".repeat(40));
+    for (let i = 0; i < 10; i++) await kv.put(`f${i}`, "x".repeat(40));
+
+    // Hold the read of "old" until two compactions have run
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const fsRead = (backend as any).fsRead.bind(backend);
+    const reads = spyOn(backend as any, "fsRead");
+    reads.mockImplementationOnce(async (...args: unknown[]) => {
+      await gate;
+      return fsRead(...args);
+    });
+    const read = backend.get("old");
+    while (reads.mock.calls.length === 0) await Bun.sleep(1);
+
+    await backend.compact();
+    await kv.put("f0", "y".repeat(40));
+    await backend.compact();
+    release();
+    expect((await read)?.value).toBe("o".repeat(40));
+    reads.mockRestore();
+    await kv.close();
+  });
+
+  it("makes a compaction's swap durable before dropping its manifest", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 256,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    for (let i = 0; i < 20; i++) await kv.put("k", String(i).repeat(40));
+
+    const manifest = path.join(path.resolve(testDir), "COMPACT");
+    const fsyncDir = (backend as any).fsyncDir.bind(backend);
+    const manifestAtSync: boolean[] = [];
+    const syncs = spyOn(backend as any, "fsyncDir");
+    syncs.mockImplementation(() => {
+      manifestAtSync.push(existsSync(manifest));
+      fsyncDir();
+    });
+    await backend.compact();
+    syncs.mockRestore();
+
+    // Once for the manifest's rename, once for the swap it records
+    expect(manifestAtSync).toEqual([true, true]);
+    expect(existsSync(manifest)).toBe(false);
+    await kv.close();
+  });
+
+  it("reports failed background compactions to onCompactionError", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const errors: unknown[] = [];
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 256,
+      onCompactionError: (e) => errors.push(e),
+    });
+    const failure = new Error("disk full");
+    const run = spyOn(backend as any, "runCompaction");
+    run.mockRejectedValue(failure);
+    const kv = new KVStorageAdapter(backend);
+    for (let i = 0; i < 50; i++) await kv.put("counter", String(i));
+
+    // close() waits for the compaction in flight
+    await kv.close();
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors.every((e) => e === failure)).toBe(true);
+    run.mockRestore();
+  });
+
+  it("rolls a committed compaction forward on open", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 128,
+      compactThreshold: 0,
+    });
+    for (let i = 0; i < 6; i++) {
+      await backend.put({
+        key: "a",
+        value: `${i}`.repeat(40),
+        encoding: "text",
+        metadata: null,
+        expiresAt: null,
+        createdAt: 0,
+        updatedAt: 0,
+        version: 0,
+      });
+    }
+    await backend.close();
+
+    // Simulate a crash after the manifest was written: segment 0 rewritten
+    // (with a copy of the last value), segments 1+ not yet removed
+    const segments = (await fsp.readdir(testDir))
+      .filter((f) => f.endsWith(".kvlog"))
+      .sort();
+    const lastSealed = segments[segments.length - 2]!;
+    await fsp.copyFile(
+      path.join(testDir, lastSealed),
+      path.join(testDir, segments[0] + ".compact"),
+    );
+    const ids = segments.slice(0, -1).map((f) => parseInt(f, 10));
+    await fsp.writeFile(
+      path.join(testDir, "COMPACT"),
+      JSON.stringify({ inputs: ids, outputs: [ids[0]] }),
+    );
+    // Output of an interrupted compaction that never committed
+    await fsp.writeFile(path.join(testDir, "000099.kvlog.compact"), "junk");
+
+    const reopened = new NodeFileSystemStorageBackend({ dir: testDir });
+    expect((await reopened.get("a"))?.value).toBe("5".repeat(40));
+    expect((await reopened.stats()).segments).toBe(2);
+    await reopened.close();
+
+    const files = (await fsp.readdir(testDir)).sort();
+    expect(files).toEqual([
+      segments[0]!.replace(".kvlog", ".hint"),
+      segments[0]!,
+      segments[segments.length - 1]!,
+    ]);
+  });
+
+  it("opens from hint files and falls back to scanning bad ones", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({
+        dir: testDir,
+        segmentMaxBytes: 256,
+        compactThreshold: 0,
+      }),
+    );
+    for (let i = 0; i < 20; i++) {
+      await kv.put(`k${i}`, "v".repeat(30), { metadata: { i } });
+    }
+    await kv.delete("k3");
+    await kv.close();
+
+    const hints = (await fsp.readdir(testDir))
+      .filter((f) => f.endsWith(".hint"))
+      .sort();
+    const segments = (await fsp.readdir(testDir)).filter((f) =>
+      f.endsWith(".kvlog"),
+    );
+    expect(hints).toHaveLength(segments.length - 1);
+
+    const first = path.join(testDir, hints[0]!);
+    await fsp.writeFile(first, "not a hint");
+    const scanned = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await scanned.get("k0")).toBe("v".repeat(30));
+    expect(await scanned.get("k3")).toBeNull();
+    expect((await scanned.list()).keys).toHaveLength(19);
+    await scanned.close();
+
+    // The scan rewrote the hint
+    expect((await fsp.readFile(first)).toString()).not.toBe("not a hint");
+
+    // Damage the first record header of the first segment: a scan would
+    // stop there, so finding every key proves the hint was used
+    const fh = await fsp.open(path.join(testDir, segments.sort()[0]!), "r+");
+    await fh.write(Buffer.alloc(4), 0, 4, 0);
+    await fh.close();
+    const hinted = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect((await hinted.list()).keys).toHaveLength(19);
+    expect((await hinted.list({ prefix: "k19" })).keys[0]?.metadata).toEqual({
+      i: 19,
+    });
+    await hinted.close();
+  });
+
+  it("keeps metadata, timestamps and versions across restarts", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const createdAt = Date.UTC(2030, 0, 1);
+    await backend.put({
+      key: "doc",
+      value: { a: 1 },
+      encoding: "json",
+      metadata: { tag: "x" },
+      expiresAt: null,
+      createdAt,
+      updatedAt: createdAt,
+      version: 0,
+    });
+    await backend.put({
+      key: "doc",
+      value: { a: 2 },
+      encoding: "json",
+      metadata: { tag: "y" },
+      expiresAt: null,
+      createdAt: 0,
+      updatedAt: createdAt + 1,
+      version: 0,
+    });
+    const before = await backend.get("doc");
+    await backend.close();
+
+    const reopened = new NodeFileSystemStorageBackend({ dir: testDir });
+    const after = await reopened.get("doc");
+    expect(after).toEqual(before!);
+    expect(after?.metadata).toEqual({ tag: "y" });
+    expect(after?.createdAt).toBe(createdAt);
+    expect(after?.updatedAt).toBe(createdAt + 1);
+    expect(after?.version).toBe(2);
+    await reopened.close();
+  });
+
+  it("reads version 1 segments and upgrades them when compacting", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+    await fsp.mkdir(testDir, { recursive: true });
+
+    // v1: 24-byte header, no metadata, 32-bit timestamp
+    const v1Frame = (key: string, value: string, encoding: number) => {
+      const keyBuf = Buffer.from(key);
+      const valBuf = Buffer.from(value);
+      const header = Buffer.alloc(24);
+      header.writeUInt32LE(0x4b564c47, 0);
+      header[4] = 1;
+      header[5] = encoding << 1;
+      header.writeUInt16LE(keyBuf.length, 6);
+      header.writeUInt32LE(valBuf.length, 8);
+      header.writeUInt32LE(1000, 12);
+      return Buffer.concat([header, keyBuf, valBuf]);
+    };
+    await fsp.writeFile(
+      path.join(testDir, "000001.kvlog"),
+      Buffer.concat([
+        v1Frame("a", "one", 0),
+        // json records hold the JSON text, which the log stores quoted
+        v1Frame("b", JSON.stringify(JSON.stringify({ n: 2 })), 1),
+        v1Frame("a", "uno", 0),
+      ]),
+    );
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 64,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    expect(await kv.get("a")).toBe("uno");
+    expect(await kv.get("b", { type: "json" })).toEqual({ n: 2 });
+    const { version } = (await backend.get("a"))!;
+    expect(version).toBe(2);
+
+    // Seals the v1 segment; compaction then rewrites it as v2
+    await kv.put("c", "three", { metadata: { m: 1 } });
+    await kv.compact();
+    await kv.close();
+
+    const compacted = await fsp.readFile(path.join(testDir, "000001.kvlog"));
+    expect(compacted[4]).toBe(3);
+
+    const reopened = new NodeFileSystemStorageBackend({ dir: testDir });
+    expect((await reopened.get("a"))?.value).toBe("uno");
+    expect((await reopened.get("a"))?.version).toBe(2);
+    expect((await reopened.get("b"))?.value).toBe('{"n":2}');
+    expect((await reopened.get("c"))?.metadata).toEqual({ m: 1 });
+    await reopened.close();
+  });
+
+  // Flip one byte of the first record whose bytes contain `marker`
+  const damage = async (file: string, marker: string) => {
+    const data = await fsp.readFile(file);
+    const at = data.indexOf(marker);
+    expect(at).toBeGreaterThan(0);
+    data[at] = data[at]! ^ 0xff;
+    await fsp.writeFile(file, data);
+  };
+
+  it("quarantines records that fail their checksum", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await kv.put("a", "A".repeat(20));
+    await kv.put("b", "B".repeat(20));
+    await kv.put("c", "C".repeat(20));
+    await damage(path.join(testDir, "000001.kvlog"), "BBBB");
+
+    const report = await kv.verify();
+    expect(report.records).toBe(2);
+    expect(report.corrupt).toHaveLength(1);
+    expect(report.corrupt[0]!.keys).toEqual(["b"]);
+    expect(await kv.get("b")).toBeNull();
+    expect(await kv.get("a")).toBe("A".repeat(20));
+    expect(await kv.get("c")).toBe("C".repeat(20));
+    await kv.close();
+
+    const quarantined = await fsp.readdir(path.join(testDir, "quarantine"));
+    expect(quarantined).toHaveLength(1);
+
+    // Recovery skips the damaged record instead of stopping at it, and the
+    // tombstone written by the quarantine keeps the key deleted
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await reopened.get("b")).toBeNull();
+    expect(await reopened.get("c")).toBe("C".repeat(20));
+    const again = await reopened.verify();
+    expect(again.corrupt).toHaveLength(1);
+    expect(again.corrupt[0]!.keys).toEqual([]);
+    await reopened.close();
+  });
+
+  it("does not replay a frame stored inside a damaged value", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const source = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: path.join(testDir, "source") }),
+    );
+    await source.put("inner", "planted");
+    await source.close();
+    const frame = await fsp.readFile(
+      path.join(testDir, "source", "000001.kvlog"),
+    );
+
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await kv.put("a", "A".repeat(20));
+    await kv.put(
+      "outer",
+      Buffer.concat([Buffer.from("OOOO"), frame, Buffer.from("tail")]),
+    );
+    await kv.put("c", "C".repeat(20));
+    await kv.close();
+    await damage(path.join(testDir, "000001.kvlog"), "OOOO");
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await reopened.get("inner")).toBeNull();
+    expect(await reopened.get("outer")).toBeNull();
+    expect(await reopened.get("c")).toBe("C".repeat(20));
+    const report = await reopened.verify();
+    expect(report.records).toBe(2);
+    expect(report.corrupt).toHaveLength(1);
+    // The whole of the outer frame, embedded frame included
+    const { start, end } = report.corrupt[0]!;
+    expect(end - start).toBeGreaterThan(frame.length + 8);
+    await reopened.close();
+  });
+
+  it("returns null for a corrupt record on read and quarantines it", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await kv.put("x", "X".repeat(20));
+    await kv.put("y", "Y".repeat(20));
+    await damage(path.join(testDir, "000001.kvlog"), "XXXX");
+
+    expect(await kv.get("x")).toBeNull();
+    expect(await kv.get("y")).toBe("Y".repeat(20));
+    await kv.close();
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect((await reopened.list()).keys.map((k) => k.name)).toEqual(["y"]);
+    await reopened.close();
+  });
+
+  it("truncates a torn write at the end of the active segment", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await kv.put("kept", "1");
+    await kv.put("torn", "2".repeat(100));
+    await kv.close();
+
+    const file = path.join(testDir, "000001.kvlog");
+    const { size } = await fsp.stat(file);
+    await fsp.truncate(file, size - 40);
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await reopened.get("kept")).toBe("1");
+    expect(await reopened.get("torn")).toBeNull();
+    await reopened.put("after", "3");
+    expect((await reopened.verify()).corrupt).toEqual([]);
+    await reopened.close();
+
+    const last = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await last.get("after")).toBe("3");
+    await last.close();
+  });
+
+  it("finishes appends that the OS writes only part of", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const writev = nodeFs.writev;
+    // At most 7 bytes per call, as a short write would leave them
+    const short = spyOn(nodeFs, "writev").mockImplementation(((
+      fd: number,
+      buffers: Buffer[],
+      cb: (err: Error | null, written: number) => void,
+    ) => {
+      const first = buffers[0]!.subarray(0, 7);
+      writev(fd, [first], cb);
+    }) as any);
+    try {
+      const kv = new KVStorageAdapter(
+        new NodeFileSystemStorageBackend({ dir: testDir }),
+      );
+      await kv.put("a", "first value");
+      await kv.put("b", "second value");
+      expect(short.mock.calls.length).toBeGreaterThan(4);
+      await kv.close();
+    } finally {
+      short.mockRestore();
+    }
+
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await kv.get("a")).toBe("first value");
+    expect(await kv.get("b")).toBe("second value");
+    expect((await kv.verify()).corrupt).toEqual([]);
+    await kv.close();
+  });
+
+  it("shares one fsync between concurrent writes with durability always", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      durability: "always",
+    });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("warmup", "1");
+
+    const fsyncs = spyOn(backend as any, "fsFsync");
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => kv.put(`k${i}`, String(i))),
+    );
+    expect(fsyncs.mock.calls.length).toBeGreaterThanOrEqual(1);
+    expect(fsyncs.mock.calls.length).toBeLessThanOrEqual(2);
+    await kv.close();
+  });
+
+  it("fsyncs only on flush() with durability none", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      durability: "none",
+    });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("warmup", "1");
+    const fsyncs = spyOn(backend as any, "fsFsync");
+
+    await kv.put("a", "1");
+    await kv.put("b", "2");
+    expect(fsyncs).not.toHaveBeenCalled();
+    await backend.flush();
+    expect(fsyncs).toHaveBeenCalledTimes(1);
+    await backend.flush(); // nothing new to sync
+    expect(fsyncs).toHaveBeenCalledTimes(1);
+    await kv.close();
+  });
+
+  it("fsyncs on a timer with durability interval", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      durability: "interval",
+      fsyncIntervalMs: 10,
+    });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("warmup", "1");
+    await backend.flush();
+    const fsyncs = spyOn(backend as any, "fsFsync");
+
+    await kv.put("a", "1");
+    await Bun.sleep(50);
+    expect(fsyncs).toHaveBeenCalledTimes(1);
+    await kv.close();
+  });
+
+  it("refuses a second process and takes over a stale lock", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+    await fsp.mkdir(testDir, { recursive: true });
+    const lockFile = path.join(testDir, "LOCK");
+    const lockedBy = (pid: number, since = Date.now()) =>
+      fsp.writeFile(
+        lockFile,
+        JSON.stringify({ pid, hostname: os.hostname(), since }),
+      );
+
+    // The parent process (the test runner's) stands in for another writer
+    await lockedBy(process.ppid);
+    const blocked = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    const err = await blocked.put("k", "v").catch((e) => e);
+    expect(err).toBeInstanceOf(KVLockedError);
+    expect(err.pid).toBe(process.ppid);
+
+    // Where process start times are known, a live process that started
+    // after the lock was taken only reuses its pid
+    if (existsSync(`/proc/${process.ppid}/stat`)) {
+      await lockedBy(process.ppid, 0);
+      const reused = new KVStorageAdapter(
+        new NodeFileSystemStorageBackend({ dir: testDir }),
+      );
+      await reused.put("k", "v");
+      await reused.close();
+    }
+
+    // No process has this pid
+    await lockedBy(2 ** 22 + 1);
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    await kv.put("k", "v");
+    const owner = JSON.parse(await fsp.readFile(lockFile, "utf8"));
+    expect(owner.pid).toBe(process.pid);
+
+    // Backends of one process share the directory
+    const peer = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    expect(await peer.get("k")).toBe("v");
+    await peer.close();
+    await kv.close();
+    expect(await Bun.file(lockFile).exists()).toBe(false);
+  });
+
+  it("shares one lock among every path to the same directory", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+    const link = `${testDir}-link`;
+    await fsp.rm(link, { force: true });
+    await fsp.mkdir(testDir, { recursive: true });
+    await fsp.symlink(path.resolve(testDir), link);
+    const lockFile = path.join(testDir, "LOCK");
+
+    try {
+      const plain = new KVStorageAdapter(
+        new NodeFileSystemStorageBackend({ dir: testDir }),
+      );
+      const slashed = new KVStorageAdapter(
+        new NodeFileSystemStorageBackend({ dir: `${testDir}/` }),
+      );
+      const linked = new KVStorageAdapter(
+        new NodeFileSystemStorageBackend({ dir: link }),
+      );
+      await plain.put("k", "v");
+      expect(await slashed.get("k")).toBe("v");
+      expect(await linked.get("k")).toBe("v");
+      await linked.put("k", "w");
+      expect(await plain.get("k")).toBe("w");
+
+      // The lock stays until the last of them closes
+      await plain.close();
+      await slashed.close();
+      expect(await Bun.file(lockFile).exists()).toBe(true);
+      await linked.close();
+      expect(await Bun.file(lockFile).exists()).toBe(false);
+    } finally {
+      await fsp.rm(link, { force: true });
+    }
+  });
+
+  it("opens read-only beside a writer and refreshes from its log", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 512,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("a", "1");
+    await kv.put("b", "2");
+
+    const reader = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      readOnly: true,
+    });
+    const ro = new KVStorageAdapter(reader);
+    expect(await ro.get("a")).toBe("1");
+    expect(await ro.put("a", "x").catch((e) => e)).toBeInstanceOf(
+      KVReadOnlyError,
+    );
+
+    // New writes, across several segment rotations
+    await kv.delete("a");
+    for (let i = 0; i < 20; i++) await kv.put(`n${i}`, "x".repeat(40));
+    expect(await ro.get("n19")).toBeNull();
+    await reader.refresh();
+    expect(await ro.get("a")).toBeNull();
+    expect(await ro.get("n19")).toBe("x".repeat(40));
+
+    // Compaction rewrites the segments the reader indexed
+    await kv.put("b", "3");
+    await backend.compact();
+    await reader.refresh();
+    expect(await ro.get("b")).toBe("3");
+    expect((await ro.list()).keys).toHaveLength(21);
+
+    await ro.close();
+    await kv.close();
+  });
+
+  // 3 MiB of a repeating pattern, produced 100 KiB at a time
+  const PATTERN = new Uint8Array(256).map((_, i) => i);
+  const bigStream = (size = 3 * 1024 * 1024) => {
+    let sent = 0;
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent >= size) return controller.close();
+        const chunk = new Uint8Array(Math.min(100 * 1024, size - sent));
+        for (let i = 0; i < chunk.length; i++)
+          chunk[i] = PATTERN[(sent + i) % 256]!;
+        sent += chunk.length;
+        controller.enqueue(chunk);
+      },
+    });
+  };
+  const readAll = async (stream: ReadableStream<Uint8Array>) =>
+    new Uint8Array(await new Response(stream).arrayBuffer());
+  const isPattern = (bytes: Uint8Array) => bytes.every((b, i) => b === i % 256);
+
+  it("streams large values into and out of the log", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 1024 * 1024,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    const encode = spyOn(backend as any, "encodeRecord");
+    await kv.put("before", "x");
+    await kv.put("media", bigStream(), { metadata: { type: "video" } });
+    await kv.put("after", "y");
+    // The value went to the log from the spool, never through a buffer
+    expect(encode.mock.calls[1]![2]).toMatchObject({ size: 3 * 1024 * 1024 });
+    expect(await fsp.readdir(path.join(testDir, "spool"))).toEqual([]);
+
+    const { value, metadata } = await kv.getWithMetadata("media", {
+      type: "stream",
+    });
+    expect(metadata).toEqual({ type: "video" });
+    const bytes = await readAll(value as ReadableStream<Uint8Array>);
+    expect(bytes.length).toBe(3 * 1024 * 1024);
+    expect(isPattern(bytes)).toBe(true);
+    expect(await kv.get("after")).toBe("y");
+
+    // Compaction copies the frame over chunk by chunk
+    await kv.put("before", "z");
+    await backend.compact();
+    const compacted = await kv.get("media", { type: "arrayBuffer" });
+    expect(isPattern(new Uint8Array(compacted as ArrayBuffer))).toBe(true);
+    await kv.close();
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    const again = await reopened.get("media", { type: "stream" });
+    expect(isPattern(await readAll(again as ReadableStream<Uint8Array>))).toBe(
+      true,
+    );
+    expect(await reopened.get("before")).toBe("z");
+    await reopened.close();
+  });
+
+  it("errors a streamed value that fails its checksum", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    // Sealed straight away, so reopening trusts the hint over the bytes
+    const kv = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({
+        dir: testDir,
+        segmentMaxBytes: 1024 * 1024,
+      }),
+    );
+    await kv.put("media", bigStream());
+    await kv.close();
+
+    const file = path.join(testDir, "000001.kvlog");
+    const data = await fsp.readFile(file);
+    data[2 * 1024 * 1024] = data[2 * 1024 * 1024]! ^ 0xff;
+    await fsp.writeFile(file, data);
+
+    const reopened = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir }),
+    );
+    const stream = await reopened.get("media", { type: "stream" });
+    expect(stream).not.toBeNull();
+    expect(readAll(stream as ReadableStream<Uint8Array>)).rejects.toThrow(
+      /Corrupt record/,
+    );
+    await reopened.close();
+  });
+
+  it("recovers and verifies a value larger than a segment a window at a time", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const open = () =>
+      new NodeFileSystemStorageBackend({
+        dir: testDir,
+        segmentMaxBytes: 64 * 1024,
+        compactThreshold: 0,
+      });
+    const kv = new KVStorageAdapter(open());
+    await kv.put("before", "x");
+    await kv.put("media", bigStream());
+    await kv.put("after", "y");
+    await kv.close();
+    // Without hints, opening has to scan every segment
+    for (const name of await fsp.readdir(testDir)) {
+      if (name.endsWith(".hint")) await fsp.rm(path.join(testDir, name));
+    }
+
+    const backend = open();
+    const reads = spyOn(backend as any, "fsRead");
+    const report = await backend.verify();
+    expect(report.corrupt).toEqual([]);
+    expect(report.records).toBe(3);
+    expect(reads.mock.calls.length).toBeGreaterThan(0);
+    const largest = Math.max(...reads.mock.calls.map((c) => c[3] as number));
+    expect(largest).toBeLessThanOrEqual(1024 * 1024);
+    reads.mockRestore();
+
+    const reopened = new KVStorageAdapter(backend);
+    const stream = await reopened.get("media", { type: "stream" });
+    expect(isPattern(await readAll(stream as ReadableStream<Uint8Array>))).toBe(
+      true,
+    );
+    expect(await reopened.get("after")).toBe("y");
+    await reopened.close();
+
+    // Damage inside the value is found without reading the frame whole
+    const file = path.join(testDir, "000002.kvlog");
+    const data = await fsp.readFile(file);
+    data[2 * 1024 * 1024] = data[2 * 1024 * 1024]! ^ 0xff;
+    await fsp.writeFile(file, data);
+
+    const damaged = open();
+    const found = await damaged.verify();
+    expect(found.corrupt).toEqual([
+      { segment: 2, start: 0, end: data.length, keys: ["media"] },
+    ]);
+    const saved = path.join(
+      testDir,
+      "quarantine",
+      `000002-0-${data.length}.bin`,
+    );
+    expect((await fsp.stat(saved)).size).toBe(data.length);
+    expect(await damaged.get("media")).toBeUndefined();
+    expect((await damaged.get("after"))?.value).toBe("y");
+    await damaged.close();
+  });
+
+  it("encrypts streamed values as they go into and out of the log", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const kv = new KVStorageAdapter(backend, {
+      encryptionProvider: new WebCryptoEncryptionProvider("media key"),
+    });
+    const encode = spyOn(backend as any, "encodeRecord");
+    await kv.put("media", bigStream());
+    // Spooled like any stream: 16 bytes of tag per 64 KiB segment, plus
+    // the header with its wrapped data key
+    const size = (encode.mock.calls[0]![2] as Blob).size;
+    expect(size).toBeGreaterThan(3 * 1024 * 1024 + 48 * 16);
+    expect(size).toBeLessThan(3 * 1024 * 1024 + 49 * 16 + 200);
+
+    const log = await fsp.readFile(path.join(testDir, "000001.kvlog"));
+    const run = Buffer.from(Uint8Array.from({ length: 256 }, (_, i) => i));
+    expect(log.indexOf(run)).toBe(-1);
+
+    const stream = await kv.get("media", { type: "stream" });
+    const bytes = await readAll(stream as ReadableStream<Uint8Array>);
+    expect(bytes.length).toBe(3 * 1024 * 1024);
+    expect(isPattern(bytes)).toBe(true);
+    await kv.close();
+  });
+
+  it("re-encrypts a streamed value without reading it whole", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const keyring = new KeyringEncryptionProvider({ old: "old key" }, "old");
+    const kv = new KVStorageAdapter(backend, { encryptionProvider: keyring });
+    await kv.put("media", bigStream());
+    await kv.put("doc", "small");
+    const before = await kv.getWithMetadata("media", { type: "stream" });
+    await (before.value as ReadableStream<Uint8Array>).cancel();
+
+    keyring.addKey("new", "new key");
+    keyring.setActiveKey("new");
+    const list = spyOn(backend, "list");
+    const readEntry = spyOn(backend as any, "readEntry");
+    const putStream = spyOn(backend, "putStream");
+    expect(await kv.reencryptAll()).toEqual({ scanned: 2, reencrypted: 2 });
+    expect(list.mock.calls[0]![0]).not.toHaveProperty("includeRecords");
+    // Only "doc" is read whole; "media" is piped back through putStream
+    expect(readEntry.mock.calls.map((c) => c[0])).toEqual(["doc"]);
+    expect(putStream.mock.calls.map((c) => c[0].key)).toEqual(["media"]);
+
+    keyring.removeKey("old");
+    const after = await kv.getWithMetadata("media", { type: "stream" });
+    expect(after.version).toBe(before.version! + 1);
+    const bytes = await readAll(after.value as ReadableStream<Uint8Array>);
+    expect(bytes.length).toBe(3 * 1024 * 1024);
+    expect(isPattern(bytes)).toBe(true);
+    expect(await kv.get("doc")).toBe("small");
+    await kv.close();
+  });
+
+  it("snapshots a consistent copy while writes go on", async () => {
+    const snapDir = `${testDir}-snapshot`;
+    await fsp.rm(testDir, { recursive: true, force: true });
+    await fsp.rm(snapDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 512,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("before", "old");
+    await kv.namespace("cache").put("k", "cached");
+
+    // Written in order, so the snapshot holds some prefix of k0..k49
+    const writes = (async () => {
+      for (let i = 0; i < 50; i++) await kv.put(`k${i}`, `v${i}`);
+    })();
+    await backend.snapshot(snapDir);
+    await writes;
+    await kv.put("before", "new");
+    await backend.compact();
+    await kv.close();
+
+    const snap = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: snapDir }),
+    );
+    expect(await snap.get("before")).toBe("old");
+    expect(await snap.namespace("cache").get("k")).toBe("cached");
+    const keys = (await snap.list({ prefix: "k" })).keys.map((k) => k.name);
+    const expected = Array.from({ length: keys.length }, (_, i) => `k${i}`);
+    expect(keys.sort()).toEqual(expected.sort());
+    for (const key of keys) {
+      expect(await snap.get(key)).toBe(`v${key.slice(1)}`);
+    }
+    await snap.close();
+
+    await expect(backend.snapshot(snapDir)).rejects.toThrow(/not empty/);
+    await fsp.rm(snapDir, { recursive: true, force: true });
+  });
+
+  it("backs up to a stream and restores from it", async () => {
+    const restoreDir = `${testDir}-restored`;
+    await fsp.rm(testDir, { recursive: true, force: true });
+    await fsp.rm(restoreDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 512,
+    });
+    const kv = new KVStorageAdapter(backend);
+    for (let i = 0; i < 20; i++) await kv.put(`k${i}`, `v${i}`);
+    await kv.namespace("cache").put("k", "cached");
+
+    const chunks: Uint8Array[] = [];
+    await backend.backup(
+      new WritableStream({
+        write(chunk) {
+          chunks.push(chunk);
+        },
+      }),
+    );
+    await kv.close();
+
+    const archive = () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(chunk);
+          controller.close();
+        },
+      });
+    await NodeFileSystemStorageBackend.restore(archive(), restoreDir);
+
+    const restored = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: restoreDir }),
+    );
+    expect((await restored.list()).keys).toHaveLength(20);
+    expect(await restored.get("k7")).toBe("v7");
+    expect(await restored.namespace("cache").get("k")).toBe("cached");
+    await restored.close();
+
+    // Only into an empty directory, leaving nothing behind on refusal
+    await expect(
+      NodeFileSystemStorageBackend.restore(archive(), restoreDir),
+    ).rejects.toThrow(/not empty/);
+    const siblings = await fsp.readdir(path.dirname(path.resolve(restoreDir)));
+    expect(siblings.filter((n) => n.includes(".restore-"))).toEqual([]);
+    await fsp.rm(restoreDir, { recursive: true, force: true });
+  });
+
+  it("ends a view as of a time at the first record stamped after it", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    // Writers stamp records before they append, so a later append may
+    // carry an earlier time
+    const backend = new NodeFileSystemStorageBackend({ dir: testDir });
+    const stamped = (key: string, value: string, at: number) => ({
+      key,
+      value,
+      encoding: "text" as const,
+      expiresAt: null,
+      metadata: null,
+      createdAt: at,
+      updatedAt: at,
+    });
+    await backend.put(stamped("a", "1", 1000));
+    await backend.put(stamped("b", "1", 3000));
+    await backend.put(stamped("a", "2", 2000));
+    await backend.close();
+
+    // "a" was 2 only once "b" existed
+    const view = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: testDir, asOf: 2500 }),
+    );
+    expect(await view.get("a")).toBe("1");
+    expect(await view.get("b")).toBeNull();
+    await view.close();
+  });
+
+  it("opens a view as of an earlier time or log position", async () => {
+    await fsp.rm(testDir, { recursive: true, force: true });
+
+    const backend = new NodeFileSystemStorageBackend({
+      dir: testDir,
+      segmentMaxBytes: 512,
+      compactThreshold: 0,
+    });
+    const kv = new KVStorageAdapter(backend);
+    await kv.put("config", "good", { metadata: { rev: 1 } });
+    await kv.putMany([
+      { key: "a", value: "1" },
+      { key: "b", value: "1" },
+    ]);
+    await kv.namespace("cache").put("k", "cached");
+    const position = await backend.logPosition();
+    await Bun.sleep(5);
+    const time = Date.now();
+    await Bun.sleep(5);
+
+    // The bad deploy
+    await kv.put("config", "broken");
+    await kv.putMany([
+      { key: "a", value: "2" },
+      { key: "c", value: "2" },
+    ]);
+    await kv.delete("b");
+    await kv.namespace("cache").delete("k");
+
+    for (const asOf of [time, position]) {
+      const view = new KVStorageAdapter(
+        new NodeFileSystemStorageBackend({ dir: testDir, asOf }),
+      );
+      expect(await view.get("config")).toBe("good");
+      expect((await view.list()).keys.map((k) => k.name)).toEqual([
+        "a",
+        "b",
+        "config",
+      ]);
+      expect(await view.get("a")).toBe("1");
+      expect(view.put("a", "3")).rejects.toBeInstanceOf(KVReadOnlyError);
+      await view.close();
+    }
+
+    const exportDir = `${testDir}-export`;
+    await fsp.rm(exportDir, { recursive: true, force: true });
+    const view = new NodeFileSystemStorageBackend({ dir: testDir, asOf: time });
+    await view.exportTo(exportDir);
+    await view.close();
+    await kv.close();
+
+    const recovered = new KVStorageAdapter(
+      new NodeFileSystemStorageBackend({ dir: exportDir }),
+    );
+    const { value, metadata } = await recovered.getWithMetadata("config");
+    expect(value).toBe("good");
+    expect(metadata).toEqual({ rev: 1 });
+    expect(await recovered.get("b")).toBe("1");
+    expect(await recovered.get("c")).toBeNull();
+    expect(await recovered.namespace("cache").get("k")).toBe("cached");
+    await recovered.close();
+    await fsp.rm(exportDir, { recursive: true, force: true });
+  });
 });
@@ -22,13 +22,17 @@ export function createIdbRepoAdapter<
 
   const key = (id: ID): string => `${prefix}${id}`;
 
-  /** List all keys (optionally filtered by our prefix). */
+  /** List all entities (optionally filtered by our prefix) in one pass. */
   async function allEntities(): Promise<E[]> {
-    const result = await kv.list({ prefix, limit: 10000 });
+    const result = await kv.list({
+      prefix,
+      limit: 10000,
+      includeValues: true,
+      type: "json",
+    });
     const entities: E[] = [];
     for (const k of result.keys) {
-      const val = await kv.get(k.name, { type: "json" });
-      if (val != null) entities.push(val as E);
+      if (k.value != null) entities.push(k.value as E);
     }
     return entities;
   }
@@ -40,12 +44,8 @@ export function createIdbRepoAdapter<
     },
 
     async findMany(ids: ID[]): Promise<E[]> {
-      const results: E[] = [];
-      for (const id of ids) {
-        const val = await kv.get(key(id), { type: "json" });
-        if (val != null) results.push(val as E);
-      }
-      return results;
+      const values = await kv.getMany(ids.map(key), { type: "json" });
+      return values.filter((val) => val != null) as E[];
     },
 
     async findAll(): Promise<E[]> {
@@ -1,26 +1,174 @@
 import type {
   KVAdapterOptions,
+  KVChangeEvent,
+  KVDeleteOptions,
   KVGetOptions,
+  KVGetType,
+  KVIterateEntry,
+  KVIterateOptions,
   KVListOptions,
   KVListResult,
+  KVMutateOptions,
   KVNamespace,
+  KVPutEntry,
   KVPutOptions,
+  KVReencryptOptions,
+  KVReencryptProgress,
+  KVTransaction,
   KVValue,
+  KVWatchListener,
+  KVWatchOptions,
+  KVWriteCondition,
+  StorageChange,
+  StoredEncoding,
   StoredRecord,
 } from "./types";
-import type { StorageBackend } from "./storage-backend";
+import type { StorageBackend, StorageVerifyReport } from "./storage-backend";
+import { StagedTransaction } from "./transaction";
 import { TinyLRU } from "./internal/cache";
-import { assertKey } from "./internal/validation";
+import { SealedStorageBackend } from "./internal/sealed-backend";
+import { assertKey, assertNamespaceName } from "./internal/validation";
 import { computeExpiresAtMs, isExpired } from "./internal/ttl";
-import { nowMs } from "./time-utils";
+import { etagOf } from "./internal/versioning";
+import { KVConflictError } from "./errors";
+import { readEnvelope } from "./encryption/envelope";
+import {
+  decryptSegments,
+  encryptSegments,
+  readWrappedKey,
+  wrappedKeyHeader,
+  type DataKeyWrapper,
+} from "./encryption/segmented-aead";
+import { nowMs, toEpochSeconds } from "./time-utils";
 import {
   decodeValue,
   normalizePutValue,
+  normalizePutValueSync,
   blobToArrayBuffer,
   blobToJson,
   blobToText,
+  streamToBlob,
 } from "./internal/value-codec";
 
+type CachedRecordInfo = {
+  metadata: unknown | null;
+  version: number;
+  etag: string;
+};
+
+// Encrypted values are stored as BOUND_PAYLOAD | encoding flag | ciphertext
+// bound to the key name and that flag; older ones are the ciphertext alone
+const BOUND_PAYLOAD = 2;
+// Values put as streams are stored as STREAMED_PAYLOAD | encoding flag |
+// segmented ciphertext (see segmented-aead), bound the same way
+const STREAMED_PAYLOAD = 3;
+
+type Watcher = {
+  options: KVWatchOptions;
+  keys: Set<string> | null;
+  listener: KVWatchListener;
+  // serializes deliveries that wait on a value read
+  queue: Promise<void>;
+};
+
+/**
+ * Extract the precondition part of put/delete options, if any
+ */
+function writeCondition(
+  options?: KVWriteCondition,
+): KVWriteCondition | undefined {
+  if (!options) return undefined;
+  const { onlyIfAbsent, ifVersion, ifMatch } = options;
+  if (!onlyIfAbsent && ifVersion === undefined && ifMatch === undefined) {
+    return undefined;
+  }
+  return { onlyIfAbsent, ifVersion, ifMatch };
+}
+
+/**
+ * Record a backend stores for an encoded value, stamped with the current time
+ */
+function newRecord(
+  key: string,
+  encoding: StoredEncoding,
+  value: unknown,
+  options: KVPutOptions | undefined,
+): StoredRecord {
+  const t = nowMs();
+  return {
+    key,
+    value,
+    encoding,
+    expiresAt: computeExpiresAtMs(options),
+    metadata: options?.metadata ?? null,
+    createdAt: t,
+    updatedAt: t,
+  };
+}
+
+/**
+ * Value of a plaintext record as a plain JS value for a mutation (strings
+ * stay strings)
+ */
+function mutableValueOf(rec: StoredRecord): unknown {
+  if (rec.encoding === "text") return rec.value;
+  if (rec.encoding === "binary") {
+    throw new TypeError(
+      `Cannot mutate binary value at ${JSON.stringify(rec.key)}`,
+    );
+  }
+  return decodeValue(rec, "json");
+}
+
+function expectNumber(key: string, value: unknown): number {
+  if (typeof value !== "number") {
+    throw new TypeError(`Value at ${JSON.stringify(key)} is not a number`);
+  }
+  return value;
+}
+
+/**
+ * Read from `reader` until `head` and what it read hold at least `length`
+ * bytes, or the stream ends
+ */
+async function readAtLeast(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  head: Uint8Array<ArrayBuffer>,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  while (head.length < length) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const joined = new Uint8Array(head.length + value.length);
+    joined.set(head, 0);
+    joined.set(value, head.length);
+    head = joined;
+  }
+  return head;
+}
+
+/**
+ * `head`, then whatever is left to read from `reader`
+ */
+function resumeStream(
+  head: Uint8Array[],
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of head) {
+        if (chunk.length > 0) controller.enqueue(chunk);
+      }
+    },
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+}
+
 /**
  * KVStorageAdapter implements KVNamespace over any StorageBackend.
  * It provides caching, TTL handling, and value encoding/decoding.
@@ -30,6 +178,14 @@ export class KVStorageAdapter implements KVNamespace {
   private encryptionProvider?: KVAdapterOptions["encryptionProvider"];
   private encryptionKeyId?: string;
   private encryptionReady: Promise<void> | null = null;
+  private watchers = new Set<Watcher>();
+  private namespaces = new Map<string, KVStorageAdapter>();
+  // Namespaces borrow the parent's encryption provider and leave its
+  // shutdown to the parent
+  private ownsProvider = true;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private sweepRun: Promise<void> | null = null;
+  private unsubscribeBackend: (() => void) | null = null;
 
   constructor(
     private backend: StorageBackend,
@@ -38,6 +194,54 @@ export class KVStorageAdapter implements KVNamespace {
     this.cache = new TinyLRU(opts?.cacheEntries ?? 2048);
     this.encryptionProvider = opts?.encryptionProvider;
     this.encryptionKeyId = opts?.encryptionKeyId;
+    if (opts?.encryptMetadata || opts?.blindKeys) {
+      this.backend = this.sealedBackend(backend);
+    }
+
+    if (opts?.sweepIntervalMs && opts.sweepIntervalMs > 0) {
+      this.sweepTimer = setInterval(() => {
+        if (!this.sweepRun) {
+          this.sweepRun = this.sweep().finally(() => {
+            this.sweepRun = null;
+          });
+        }
+      }, opts.sweepIntervalMs);
+      // Housekeeping alone should not keep a Node/Bun process alive
+      (this.sweepTimer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /**
+   * The backend wrapped so metadata is encrypted and, with `blindKeys`,
+   * keys are stored as tokens
+   */
+  private sealedBackend(backend: StorageBackend): StorageBackend {
+    const provider = this.encryptionProvider;
+    if (!provider) {
+      throw new Error(
+        "encryptMetadata and blindKeys need an encryptionProvider",
+      );
+    }
+    return new SealedStorageBackend(backend, {
+      encrypt: async (plaintext, associatedData) => {
+        await this.ensureEncryptionReady();
+        return provider.encrypt(
+          plaintext,
+          this.encryptionKeyId,
+          associatedData,
+        );
+      },
+      decrypt: async (ciphertext, associatedData) => {
+        await this.ensureEncryptionReady();
+        return provider.decrypt(
+          ciphertext,
+          this.encryptionKeyId,
+          associatedData,
+        );
+      },
+      blindingSecret: this.opts?.blindKeys?.secret,
+      allowPlaintext: this.opts?.allowPlaintextMetadata,
+    });
   }
 
   private async ensureEncryptionReady(): Promise<void> {
@@ -76,6 +280,150 @@ export class KVStorageAdapter implements KVNamespace {
     return plaintext;
   }
 
+  /**
+   * Encrypt an encoded value into what is stored for `key`
+   */
+  private async encryptValue(
+    key: string,
+    encoding: StoredRecord["encoding"],
+    storedValue: unknown,
+  ): Promise<Blob> {
+    const flag = this.encodingToFlag(encoding);
+    const ciphertext = await this.encryptionProvider!.encrypt(
+      await this.encodeForEncryption(encoding, storedValue),
+      this.encryptionKeyId,
+      this.associatedData(key, flag),
+    );
+    return new Blob([
+      new Uint8Array([BOUND_PAYLOAD, flag]),
+      Uint8Array.from(ciphertext),
+    ]);
+  }
+
+  /**
+   * Decrypt what is stored for `key`. A ciphertext moved to another key,
+   * or relabelled with another encoding, fails to decrypt.
+   */
+  private async decryptValue(
+    key: string,
+    stored: Uint8Array,
+  ): Promise<Uint8Array> {
+    const provider = this.encryptionProvider!;
+    if (stored[0] === BOUND_PAYLOAD && (stored[1] ?? 255) <= 3) {
+      const ciphertext = stored.subarray(2);
+      try {
+        return await provider.decrypt(
+          ciphertext,
+          this.encryptionKeyId,
+          this.associatedData(key, stored[1]!),
+        );
+      } catch (e) {
+        // Without an envelope, this may be an older value that only
+        // happens to start like a bound one
+        if (readEnvelope(ciphertext)) throw e;
+      }
+    }
+    return provider.decrypt(stored, this.encryptionKeyId);
+  }
+
+  private associatedData(key: string, flag: number): Uint8Array {
+    const name = new TextEncoder().encode(key);
+    const data = new Uint8Array(1 + name.length);
+    data[0] = flag;
+    data.set(name, 1);
+    return data;
+  }
+
+  /**
+   * Encrypts and decrypts the data key of a value stored in segments
+   */
+  private dataKeyWrapper(associatedData: Uint8Array): DataKeyWrapper {
+    const provider = this.encryptionProvider!;
+    return {
+      wrap: (dataKey) =>
+        provider.encrypt(dataKey, this.encryptionKeyId, associatedData),
+      unwrap: (wrappedKey) =>
+        provider.decrypt(wrappedKey, this.encryptionKeyId, associatedData),
+    };
+  }
+
+  private isStreamedPayload(stored: Uint8Array): boolean {
+    return (
+      stored[0] === STREAMED_PAYLOAD &&
+      stored[1] === this.encodingToFlag("binary")
+    );
+  }
+
+  /**
+   * Encrypt a binary stream, segment by segment, into what is stored for
+   * `key`
+   */
+  private async encryptStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+  ): Promise<ReadableStream<Uint8Array>> {
+    await this.ensureEncryptionReady();
+    const flag = this.encodingToFlag("binary");
+    const aad = this.associatedData(key, flag);
+    const prefix = new Uint8Array([STREAMED_PAYLOAD, flag]);
+    return stream
+      .pipeThrough(encryptSegments(this.dataKeyWrapper(aad), aad))
+      .pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          start: (controller) => controller.enqueue(prefix),
+        }),
+      );
+  }
+
+  /**
+   * Decrypt what is stored for a record as it is read. Values that were
+   * not stored in segments can only be decrypted whole, so they are read
+   * in full first.
+   */
+  private async decryptStream(
+    rec: StoredRecord,
+    stored: ReadableStream<Uint8Array>,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const reader = stored.getReader();
+    const head = await readAtLeast(reader, new Uint8Array(0), 2);
+    const streamed = this.isStreamedPayload(head);
+    const rest = resumeStream([streamed ? head.subarray(2) : head], reader);
+
+    if (streamed) {
+      const aad = this.associatedData(rec.key, head[1]!);
+      return rest.pipeThrough(decryptSegments(this.dataKeyWrapper(aad), aad));
+    }
+    const value = await streamToBlob(rest);
+    return (await this.decodeRecord(
+      { ...rec, value },
+      "stream",
+    )) as ReadableStream<Uint8Array>;
+  }
+
+  /**
+   * The data key of a value stored in segments, encrypted anew, as the
+   * header that leads the segments
+   * @returns null when the provider reports the data key is current
+   */
+  private async rewrapDataKey(
+    key: string,
+    flag: number,
+    wrappedKey: Uint8Array,
+  ): Promise<Uint8Array<ArrayBuffer> | null> {
+    const provider = this.encryptionProvider!;
+    if (
+      provider.needsReencrypt &&
+      !provider.needsReencrypt(wrappedKey, this.encryptionKeyId)
+    ) {
+      return null;
+    }
+
+    const wrapper = this.dataKeyWrapper(this.associatedData(key, flag));
+    return wrappedKeyHeader(
+      await wrapper.wrap(await wrapper.unwrap(wrappedKey)),
+    );
+  }
+
   private decodeEncryptedPayload(plaintext: Uint8Array): {
     encoding: StoredRecord["encoding"];
     value: unknown;
@@ -136,54 +484,258 @@ export class KVStorageAdapter implements KVNamespace {
   ): Promise<{
     value: string | ArrayBuffer | ReadableStream<Uint8Array> | unknown | null;
     metadata: T | null;
+    version: number | null;
+    etag: string | null;
   }> {
     assertKey(key);
 
     const wantType = options?.type ?? "text";
+    if (wantType === "stream" && this.encryptionProvider) {
+      return this.getDecryptedStream<T>(key);
+    }
+    if (wantType === "stream" && this.backend.getStream) {
+      return this.getStreamed<T>(key);
+    }
+
     const cacheTtl = options?.cacheTtl ?? 0;
     const cacheKey = cacheTtl > 0 ? `${key}::${wantType}` : null;
 
     if (cacheKey) {
       const hit = this.cache.get(cacheKey);
-      if (hit) return { value: hit.value, metadata: hit.meta as T };
+      if (hit) {
+        const info = hit.meta as CachedRecordInfo;
+        return {
+          value: hit.value,
+          metadata: info.metadata as T,
+          version: info.version,
+          etag: info.etag,
+        };
+      }
     }
 
+    const missing = { value: null, metadata: null, version: null, etag: null };
+
     const rec = await this.backend.get(key);
-    if (!rec) return { value: null, metadata: null };
+    if (!rec) return missing;
 
     if (isExpired(rec)) {
-      void this.delete(key);
-      return { value: null, metadata: null };
+      this.purgeLazily([key]);
+      return missing;
+    }
+
+    const decoded = await this.decodeRecord(rec, wantType);
+    const info = this.recordInfo(rec);
+
+    if (cacheKey) this.cache.set(cacheKey, decoded, info, cacheTtl);
+
+    return {
+      value: decoded,
+      metadata: info.metadata as T | null,
+      version: info.version,
+      etag: info.etag,
+    };
+  }
+
+  /**
+   * Read a value as a stream straight from the backend's storage. A stream
+   * can be consumed only once, so it is never cached.
+   */
+  private async getStreamed<T>(key: string): Promise<{
+    value: ReadableStream<Uint8Array> | null;
+    metadata: T | null;
+    version: number | null;
+    etag: string | null;
+  }> {
+    const got = await this.backend.getStream!(key);
+    if (!got) return { value: null, metadata: null, version: null, etag: null };
+
+    const { record, stream } = got;
+    if (isExpired(record)) {
+      await stream?.cancel();
+      this.purgeLazily([key]);
+      return { value: null, metadata: null, version: null, etag: null };
+    }
+
+    const info = this.recordInfo(record);
+    const value =
+      stream ??
+      ((await this.decodeRecord(
+        record,
+        "stream",
+      )) as ReadableStream<Uint8Array>);
+    return {
+      value,
+      metadata: info.metadata as T | null,
+      version: info.version,
+      etag: info.etag,
+    };
+  }
+
+  /**
+   * Read an encrypted value as a stream. Values put as streams are
+   * decrypted segment by segment as the stream is consumed. Never cached,
+   * like getStreamed.
+   */
+  private async getDecryptedStream<T>(key: string): Promise<{
+    value: ReadableStream<Uint8Array> | null;
+    metadata: T | null;
+    version: number | null;
+    etag: string | null;
+  }> {
+    await this.ensureEncryptionReady();
+    let record: StoredRecord | undefined;
+    let stream: ReadableStream<Uint8Array> | null = null;
+    if (this.backend.getStream) {
+      const got = await this.backend.getStream(key);
+      record = got?.record;
+      stream = got?.stream ?? null;
+    } else {
+      record = await this.backend.get(key);
+    }
+    if (!record)
+      return { value: null, metadata: null, version: null, etag: null };
+
+    if (isExpired(record)) {
+      await stream?.cancel();
+      this.purgeLazily([key]);
+      return { value: null, metadata: null, version: null, etag: null };
+    }
+    if (record.encoding !== "binary") {
+      throw new Error("Encrypted records must be stored as binary");
+    }
+
+    const info = this.recordInfo(record);
+    return {
+      value: await this.decryptStream(
+        record,
+        stream ??
+          ((record.value as Blob).stream() as ReadableStream<Uint8Array>),
+      ),
+      metadata: info.metadata as T | null,
+      version: info.version,
+      etag: info.etag,
+    };
+  }
+
+  /**
+   * Metadata, version and etag of a record, as cached alongside decoded values
+   */
+  private recordInfo(rec: StoredRecord): CachedRecordInfo {
+    return {
+      metadata: rec.metadata ?? null,
+      version: rec.version ?? 0,
+      etag: etagOf(rec),
+    };
+  }
+
+  async getMany(
+    keys: string[],
+    options?: KVGetOptions,
+  ): Promise<
+    Array<string | ArrayBuffer | ReadableStream<Uint8Array> | unknown | null>
+  > {
+    keys.forEach(assertKey);
+    if (keys.length === 0) return [];
+
+    const wantType = options?.type ?? "text";
+    const cacheTtl = options?.cacheTtl ?? 0;
+
+    const results: Array<unknown | null> = new Array(keys.length).fill(null);
+    const misses: number[] = [];
+    for (let i = 0; i < keys.length; i++) {
+      const hit =
+        cacheTtl > 0 ? this.cache.get(`${keys[i]}::${wantType}`) : null;
+      if (hit) results[i] = hit.value;
+      else misses.push(i);
     }
+    if (misses.length === 0) return results;
 
-    let effectiveRecord = rec;
-    if (this.encryptionProvider) {
-      await this.ensureEncryptionReady();
+    const recs = await this.backend.getMany(misses.map((i) => keys[i]!));
+    const expired: string[] = [];
 
-      if (effectiveRecord.encoding !== "binary") {
-        throw new Error("Encrypted records must be stored as binary");
+    for (let j = 0; j < misses.length; j++) {
+      const i = misses[j]!;
+      const rec = recs[j];
+      if (!rec) continue;
+      if (isExpired(rec)) {
+        expired.push(rec.key);
+        continue;
       }
 
-      const encrypted = await blobToArrayBuffer(effectiveRecord.value as Blob);
-      const plaintext = await this.encryptionProvider.decrypt(
-        new Uint8Array(encrypted),
-        this.encryptionKeyId,
-      );
-      const decrypted = this.decodeEncryptedPayload(plaintext);
-      effectiveRecord = {
-        ...effectiveRecord,
-        encoding: decrypted.encoding,
-        value: decrypted.value,
-      };
+      const decoded = await this.decodeRecord(rec, wantType);
+      if (cacheTtl > 0) {
+        this.cache.set(
+          `${rec.key}::${wantType}`,
+          decoded,
+          this.recordInfo(rec),
+          cacheTtl,
+        );
+      }
+      results[i] = decoded;
+    }
+
+    if (expired.length > 0) this.purgeLazily(expired);
+
+    return results;
+  }
+
+  /**
+   * Decrypt a stored record (if configured), restoring its original encoding
+   */
+  private async plainRecord(rec: StoredRecord): Promise<StoredRecord> {
+    if (!this.encryptionProvider) return rec;
+    await this.ensureEncryptionReady();
+
+    if (rec.encoding !== "binary") {
+      throw new Error("Encrypted records must be stored as binary");
     }
 
+    const encrypted = new Uint8Array(
+      await blobToArrayBuffer(rec.value as Blob),
+    );
+    if (this.isStreamedPayload(encrypted)) {
+      const aad = this.associatedData(rec.key, encrypted[1]!);
+      try {
+        const value = await streamToBlob(
+          new Blob([encrypted.subarray(2)])
+            .stream()
+            .pipeThrough(decryptSegments(this.dataKeyWrapper(aad), aad)),
+        );
+        return { ...rec, encoding: "binary", value };
+      } catch (e) {
+        // As in decryptValue: without an envelope on its data key this may
+        // be an older value that only happens to start like one in segments
+        let found: ReturnType<typeof readWrappedKey> = null;
+        try {
+          found = readWrappedKey(encrypted.subarray(2));
+        } catch {
+          // Its length prefix rules segments out
+        }
+        if (found && readEnvelope(found.wrappedKey)) throw e;
+      }
+    }
+    const plaintext = await this.decryptValue(rec.key, encrypted);
+    const decrypted = this.decodeEncryptedPayload(plaintext);
+    return { ...rec, encoding: decrypted.encoding, value: decrypted.value };
+  }
+
+  /**
+   * Decrypt (if configured) and decode a stored record into the requested type
+   */
+  private async decodeRecord(
+    rec: StoredRecord,
+    wantType: KVGetType,
+  ): Promise<
+    string | ArrayBuffer | ReadableStream<Uint8Array> | unknown | null
+  > {
+    const effectiveRecord = await this.plainRecord(rec);
+
     let decoded = decodeValue(effectiveRecord, wantType);
 
-    if (effectiveRecord.encoding === "binary") {
+    // decodeValue streams a binary value itself
+    if (effectiveRecord.encoding === "binary" && wantType !== "stream") {
       const blob = decoded as unknown as Blob;
-      if (wantType === "stream") {
-        decoded = (blob.stream() as ReadableStream<Uint8Array>) ?? null;
-      } else if (wantType === "arrayBuffer") {
+      if (wantType === "arrayBuffer") {
         decoded = await blobToArrayBuffer(blob);
       } else if (wantType === "json") {
         decoded = await blobToJson(blob);
@@ -192,8 +744,6 @@ export class KVStorageAdapter implements KVNamespace {
       }
     }
 
-    const meta = (rec.metadata ?? null) as T | null;
-
     if (
       this.encryptionProvider?.postDeserialize &&
       wantType === "json" &&
@@ -202,9 +752,7 @@ export class KVStorageAdapter implements KVNamespace {
       decoded = await this.encryptionProvider.postDeserialize(decoded);
     }
 
-    if (cacheKey) this.cache.set(cacheKey, decoded, meta, cacheTtl);
-
-    return { value: decoded, metadata: meta };
+    return decoded;
   }
 
   async put(
@@ -214,6 +762,101 @@ export class KVStorageAdapter implements KVNamespace {
   ): Promise<void> {
     assertKey(key);
 
+    if (value instanceof ReadableStream && this.encryptionProvider) {
+      await this.putEncryptedStream(key, value, options);
+      return;
+    }
+    if (value instanceof ReadableStream && this.backend.putStream) {
+      // Hand the stream through instead of collecting it into a Blob
+      try {
+        await this.backend.putStream(
+          this.streamedRecord(key, options),
+          value,
+          writeCondition(options),
+        );
+      } finally {
+        this.invalidateCache(key);
+      }
+      return;
+    }
+
+    const rec = await this.buildRecord(key, value, options);
+    try {
+      await this.backend.put(rec, writeCondition(options));
+    } finally {
+      this.invalidateCache(key);
+    }
+  }
+
+  /**
+   * Encrypt a stream segment by segment while it is stored. The plaintext
+   * is never held whole; on backends that cannot store a stream, the
+   * ciphertext is collected into a Blob.
+   */
+  private async putEncryptedStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+    options?: KVPutOptions,
+  ): Promise<void> {
+    const rec = this.streamedRecord(key, options);
+    const encrypted = await this.encryptStream(key, stream);
+    try {
+      if (this.backend.putStream) {
+        await this.backend.putStream(rec, encrypted, writeCondition(options));
+      } else {
+        await this.backend.put(
+          { ...rec, value: await streamToBlob(encrypted) },
+          writeCondition(options),
+        );
+      }
+    } finally {
+      this.invalidateCache(key);
+    }
+  }
+
+  /**
+   * Record of a binary value put as a stream; the value itself is not in it
+   */
+  private streamedRecord(key: string, options?: KVPutOptions): StoredRecord {
+    return newRecord(key, "binary", null, options);
+  }
+
+  async putMany(entries: KVPutEntry[]): Promise<void> {
+    entries.forEach((e) => assertKey(e.key));
+    if (entries.length === 0) return;
+
+    const recs: StoredRecord[] = [];
+    for (const e of entries) {
+      recs.push(await this.buildRecord(e.key, e.value, e.options));
+    }
+
+    try {
+      // Conditions are checked by an atomic commit: one that fails
+      // rejects the whole batch
+      if (entries.some((e) => writeCondition(e.options))) {
+        await this.backend.commit(
+          recs.map((record, i) => ({
+            type: "put",
+            record,
+            condition: writeCondition(entries[i]!.options),
+          })),
+        );
+      } else {
+        await this.backend.putMany(recs);
+      }
+    } finally {
+      for (const e of entries) this.invalidateCache(e.key);
+    }
+  }
+
+  /**
+   * Encode (and encrypt, if configured) a value into the record a backend stores
+   */
+  private async buildRecord(
+    key: string,
+    value: KVValue,
+    options?: KVPutOptions,
+  ): Promise<StoredRecord> {
     await this.ensureEncryptionReady();
 
     const valueToStore = this.encryptionProvider?.preSerialize
@@ -221,48 +864,540 @@ export class KVStorageAdapter implements KVNamespace {
       : value;
 
     const { encoding, stored } = await normalizePutValue(valueToStore);
-    const expiresAt = computeExpiresAtMs(options);
-
-    const t = nowMs();
-    let recordEncoding = encoding;
-    let recordValue = stored;
-    if (this.encryptionProvider) {
-      const plaintext = await this.encodeForEncryption(encoding, stored);
-      const ciphertext = await this.encryptionProvider.encrypt(
-        plaintext,
-        this.encryptionKeyId,
+
+    if (!this.encryptionProvider) {
+      return newRecord(key, encoding, stored, options);
+    }
+    const encrypted = await this.encryptValue(key, encoding, stored);
+    return newRecord(key, "binary", encrypted, options);
+  }
+
+  async delete(key: string, options?: KVDeleteOptions): Promise<void> {
+    assertKey(key);
+
+    try {
+      await this.backend.delete(key, writeCondition(options));
+    } finally {
+      this.invalidateCache(key);
+    }
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    keys.forEach(assertKey);
+    if (keys.length === 0) return;
+
+    await this.backend.deleteMany(keys);
+    for (const key of keys) this.invalidateCache(key);
+  }
+
+  /**
+   * Run `fn` against a transaction handle and commit its writes atomically.
+   * Rejects with KVConflictError (and applies nothing) if a key read inside
+   * the transaction was modified concurrently; callers may simply retry.
+   */
+  async transaction<T>(fn: (tx: KVTransaction) => Promise<T>): Promise<T> {
+    const tx = new StagedTransaction(this.backend, {
+      encode: (key, value, options) => this.buildRecord(key, value, options),
+      decode: (rec, type) => this.decodeRecord(rec, type),
+    });
+
+    let result: T;
+    try {
+      result = await fn(tx);
+    } catch (e) {
+      tx.abort();
+      throw e;
+    }
+
+    const keys = tx.stagedKeys();
+    try {
+      await tx.commit();
+    } finally {
+      for (const key of keys) this.invalidateCache(key);
+    }
+    return result;
+  }
+
+  /**
+   * Atomically add `delta` to a numeric value, starting from
+   * `options.initial` (default 0) when the key is absent
+   * @returns The new value
+   */
+  async increment(
+    key: string,
+    delta = 1,
+    options?: KVMutateOptions,
+  ): Promise<number> {
+    return this.mutate(key, options, (current) => {
+      if (current === undefined) return (options?.initial ?? 0) + delta;
+      return expectNumber(key, current) + delta;
+    });
+  }
+
+  /**
+   * Atomically store the smaller of the current value and `value`
+   * @returns The new value
+   */
+  async min(
+    key: string,
+    value: number,
+    options?: KVMutateOptions,
+  ): Promise<number> {
+    return this.mutate(key, options, (current) =>
+      current === undefined
+        ? value
+        : Math.min(expectNumber(key, current), value),
+    );
+  }
+
+  /**
+   * Atomically store the larger of the current value and `value`
+   * @returns The new value
+   */
+  async max(
+    key: string,
+    value: number,
+    options?: KVMutateOptions,
+  ): Promise<number> {
+    return this.mutate(key, options, (current) =>
+      current === undefined
+        ? value
+        : Math.max(expectNumber(key, current), value),
+    );
+  }
+
+  /**
+   * Atomically append to a string, or to an array (arrays are concatenated,
+   * other values pushed as one element)
+   * @returns The new value
+   */
+  async append(
+    key: string,
+    value: unknown,
+    options?: KVMutateOptions,
+  ): Promise<string | unknown[]> {
+    return this.mutate(key, options, (current): string | unknown[] => {
+      if (current === undefined) {
+        return typeof value === "string" || Array.isArray(value)
+          ? value
+          : [value];
+      }
+      if (typeof current === "string" && typeof value === "string") {
+        return current + value;
+      }
+      if (Array.isArray(current)) return current.concat(value);
+      throw new TypeError(
+        `Cannot append to the value at ${JSON.stringify(key)}`,
       );
-      recordEncoding = "binary";
-      recordValue = new Blob([Uint8Array.from(ciphertext)]);
-    }
-
-    const rec: StoredRecord = {
-      key,
-      value: recordValue,
-      encoding: recordEncoding,
-      expiresAt,
-      metadata: options?.metadata ?? null,
-      createdAt: t,
-      updatedAt: t,
+    });
+  }
+
+  /**
+   * Read-modify-write of one key, which the backend applies with no other
+   * write to the key in between. Without encryption every step is
+   * synchronous, so a backend can run it inside a single write. TTL and
+   * metadata of the existing record are kept unless `options` replaces them.
+   */
+  private async mutate<T>(
+    key: string,
+    options: KVMutateOptions | undefined,
+    apply: (current: unknown) => T,
+  ): Promise<T> {
+    assertKey(key);
+    await this.ensureEncryptionReady();
+
+    let result!: T;
+    const replace = (rec: StoredRecord | undefined, record: StoredRecord) => {
+      if (rec && computeExpiresAtMs(options) === null) {
+        record.expiresAt = rec.expiresAt;
+      }
+      if (rec && options?.metadata === undefined) {
+        record.metadata = rec.metadata ?? null;
+      }
+      return record;
     };
 
-    await this.backend.put(rec);
-    this.invalidateCache(key);
+    try {
+      await this.backend.update(key, (rec) => {
+        if (this.encryptionProvider) {
+          return (async () => {
+            result = apply(rec ? await this.mutableValue(rec) : undefined);
+            return replace(rec, await this.buildRecord(key, result, options));
+          })();
+        }
+        result = apply(rec ? mutableValueOf(rec) : undefined);
+        const { encoding, stored } = normalizePutValueSync(result as KVValue)!;
+        return replace(rec, newRecord(key, encoding, stored, options));
+      });
+    } finally {
+      this.invalidateCache(key);
+    }
+    return result;
+  }
+
+  /**
+   * Current value of a record as a plain JS value (strings stay strings)
+   */
+  private async mutableValue(rec: StoredRecord): Promise<unknown> {
+    const plain = await this.plainRecord(rec);
+    const value = mutableValueOf(plain);
+    if (plain.encoding === "text") return value;
+    return this.encryptionProvider?.postDeserialize && value !== null
+      ? this.encryptionProvider.postDeserialize(value)
+      : value;
   }
 
-  async delete(key: string): Promise<void> {
-    assertKey(key);
+  /**
+   * Observe puts, deletes and expirations of keys matching `options.prefix`
+   * or listed in `options.keys` (everything when neither is given). Events
+   * cover writes from this adapter and from others sharing the same store.
+   * With `includeValue`, put events carry the key's value as read at
+   * delivery time.
+   * @returns Function that stops the watch
+   */
+  watch(options: KVWatchOptions, listener: KVWatchListener): () => void {
+    for (const key of options.keys ?? []) assertKey(key);
 
-    await this.backend.delete(key);
-    this.invalidateCache(key);
+    const watcher: Watcher = {
+      options,
+      keys: options.keys ? new Set(options.keys) : null,
+      listener,
+      queue: Promise.resolve(),
+    };
+    this.watchers.add(watcher);
+    if (!this.unsubscribeBackend) {
+      this.unsubscribeBackend = this.backend.subscribe((change) =>
+        this.dispatchChange(change),
+      );
+    }
+
+    return () => {
+      if (!this.watchers.delete(watcher)) return;
+      if (this.watchers.size === 0 && this.unsubscribeBackend) {
+        this.unsubscribeBackend();
+        this.unsubscribeBackend = null;
+      }
+    };
+  }
+
+  private dispatchChange(change: StorageChange): void {
+    // Writes may come from another handle, so never trust the cache here
+    this.invalidateCache(change.key);
+
+    for (const watcher of Array.from(this.watchers)) {
+      if (watcher.keys && !watcher.keys.has(change.key)) continue;
+      const prefix = watcher.options.prefix;
+      if (prefix && !change.key.startsWith(prefix)) continue;
+
+      const event: KVChangeEvent = {
+        type: change.type,
+        key: change.key,
+        metadata: change.metadata,
+      };
+      if (change.expiresAt) event.expiration = toEpochSeconds(change.expiresAt);
+      if (change.version !== null) event.version = change.version;
+
+      watcher.queue = watcher.queue.then(async () => {
+        if (!this.watchers.has(watcher)) return;
+        try {
+          if (watcher.options.includeValue && change.type === "put") {
+            event.value = await this.get(change.key, {
+              type: watcher.options.type ?? "text",
+            });
+          }
+          watcher.listener(event);
+        } catch (e) {
+          console.error("[idb-repo] watch listener failed", e);
+        }
+      });
+    }
+  }
+
+  /**
+   * A KV isolated from this one and from its other namespaces: its own
+   * object store on IndexedDB, its own subdirectory on Node.js. It shares
+   * this adapter's options (encryption, cache size, sweeper) and is closed
+   * together with it.
+   */
+  namespace(name: string): KVStorageAdapter {
+    assertNamespaceName(name);
+    let ns = this.namespaces.get(name);
+    if (!ns) {
+      ns = new KVStorageAdapter(this.backend.namespace(name), this.opts);
+      ns.ownsProvider = false;
+      this.namespaces.set(name, ns);
+    }
+    return ns;
+  }
+
+  /**
+   * Walk keys in lexicographic order (descending with `reverse`), limited to
+   * `prefix` and the [start, end) range. Pages through the backend in
+   * batches of `batchSize`; with `includeValues` values come back with
+   * each page instead of being read key by key.
+   */
+  async *iterate(
+    options: KVIterateOptions = {},
+  ): AsyncIterableIterator<KVIterateEntry> {
+    let remaining = options.limit ?? Infinity;
+    const batchSize = Math.min(Math.max(1, options.batchSize ?? 100), 10000);
+    let cursor: string | undefined;
+
+    while (remaining > 0) {
+      const { records, ...page } = await this.backend.list({
+        prefix: options.prefix,
+        start: options.start,
+        end: options.end,
+        reverse: options.reverse,
+        limit: Math.min(batchSize, remaining),
+        cursor,
+        includeRecords: options.includeValues ?? false,
+      });
+
+      const entries: KVIterateEntry[] = page.keys;
+      if (records) {
+        const wantType = options.type ?? "text";
+        for (let i = 0; i < entries.length; i++) {
+          entries[i]!.value = await this.decodeRecord(records[i]!, wantType);
+        }
+      }
+
+      for (const entry of entries) {
+        yield entry;
+        remaining--;
+      }
+      if (page.list_complete || !page.cursor) return;
+      cursor = page.cursor;
+    }
+  }
+
+  /**
+   * Remove every expired record now instead of waiting for the sweeper
+   * @returns Number of records purged
+   */
+  async purgeExpired(): Promise<number> {
+    const limit = Math.max(1, this.opts?.sweepBatchSize ?? 256);
+    let total = 0;
+    for (;;) {
+      const keys = await this.backend.purgeExpired({ limit });
+      for (const key of keys) this.invalidateCache(key);
+      total += keys.length;
+      if (keys.length < limit) return total;
+    }
+  }
+
+  /**
+   * Reclaim disk space taken by overwritten, deleted and expired records.
+   * A no-op on backends that do not need it (memory, IndexedDB).
+   */
+  async compact(): Promise<void> {
+    await this.backend.compact?.();
+  }
+
+  /**
+   * Resolve once every write made so far is on disk. Only the Node.js
+   * backend can hold writes back (see its `durability` option); elsewhere
+   * they are durable when they resolve.
+   */
+  async flush(): Promise<void> {
+    await this.backend.flush?.();
+  }
+
+  /**
+   * Check stored records for corruption. Damaged records are quarantined:
+   * their keys are deleted and listed in the report. Only the Node.js
+   * backend checksums records; elsewhere this reports nothing.
+   */
+  async verify(): Promise<StorageVerifyReport> {
+    const report = (await this.backend.verify?.()) ?? {
+      segments: 0,
+      records: 0,
+      corrupt: [],
+    };
+    for (const range of report.corrupt) {
+      for (const key of range.keys) this.invalidateCache(key);
+    }
+    return report;
+  }
+
+  /**
+   * Rewrite records encrypted under an old key with the key the provider
+   * encrypts with now, a page of `batchSize` records at a time. Providers
+   * that implement `needsReencrypt` (such as KeyringEncryptionProvider)
+   * have only their old records rewritten; with others, every record is.
+   * Records stored before ciphertexts were bound to their key name are
+   * always rewritten. Values put as streams keep their segments; only the
+   * data key they were encrypted with is encrypted anew.
+   * Each rewrite is conditioned on the version read, so a concurrent write
+   * wins; it is under the new key already. A rewrite is a put like any
+   * other: it bumps the record's version and etag, and watchers get a
+   * `put` event for it. Namespaces are not included.
+   * @returns Totals once every record has been looked at
+   */
+  async reencryptAll(
+    options: KVReencryptOptions = {},
+  ): Promise<KVReencryptProgress> {
+    const provider = this.encryptionProvider;
+    if (!provider) throw new Error("No encryption provider is configured");
+    await this.ensureEncryptionReady();
+
+    const batchSize = Math.min(Math.max(1, options.batchSize ?? 100), 10000);
+    const progress: KVReencryptProgress = { scanned: 0, reencrypted: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const page = await this.backend.list({ limit: batchSize, cursor });
+      for (const { name } of page.keys) {
+        progress.scanned++;
+        try {
+          if (await this.reencryptKey(name)) progress.reencrypted++;
+        } catch (e) {
+          if (!(e instanceof KVConflictError)) throw e;
+        } finally {
+          this.invalidateCache(name);
+        }
+      }
+
+      options.onProgress?.({ ...progress });
+      if (page.list_complete || !page.cursor) return progress;
+      cursor = page.cursor;
+    }
+  }
+
+  /**
+   * Rewrite what is stored for `key` under the current key, unless it is
+   * under it already. Of a value put as a stream, only the header with its
+   * data key is read; the segments after it are copied as they are read.
+   * @returns Whether the record was rewritten
+   */
+  private async reencryptKey(key: string): Promise<boolean> {
+    const provider = this.encryptionProvider!;
+    let rec: StoredRecord | undefined;
+    let stream: ReadableStream<Uint8Array> | null = null;
+    if (this.backend.getStream) {
+      const got = await this.backend.getStream(key);
+      rec = got?.record;
+      stream = got?.stream ?? null;
+    } else {
+      rec = await this.backend.get(key);
+    }
+    if (!rec || isExpired(rec)) {
+      await stream?.cancel();
+      return false;
+    }
+    if (rec.encoding !== "binary") {
+      await stream?.cancel();
+      throw new Error("Encrypted records must be stored as binary");
+    }
+
+    const reader = (
+      stream ?? ((rec.value as Blob).stream() as ReadableStream<Uint8Array>)
+    ).getReader();
+    let head = await readAtLeast(reader, new Uint8Array(0), 2);
+    let value: Blob | ReadableStream<Uint8Array>;
+    if (this.isStreamedPayload(head)) {
+      let found = readWrappedKey(head.subarray(2));
+      while (!found) {
+        const longer = await readAtLeast(reader, head, head.length + 1);
+        if (longer.length === head.length) {
+          throw new Error("Invalid encrypted stream header");
+        }
+        head = longer;
+        found = readWrappedKey(head.subarray(2));
+      }
+      const header = await this.rewrapDataKey(key, head[1]!, found.wrappedKey);
+      if (!header) {
+        await reader.cancel();
+        return false;
+      }
+      const rest = head.subarray(2 + found.end);
+      if (stream) {
+        value = resumeStream([head.subarray(0, 2), header, rest], reader);
+      } else {
+        await reader.cancel();
+        value = new Blob([
+          head.subarray(0, 2),
+          header,
+          (rec.value as Blob).slice(2 + found.end),
+        ]);
+      }
+    } else {
+      let whole = rec.value as Blob;
+      if (stream) whole = await streamToBlob(resumeStream([head], reader));
+      else await reader.cancel();
+      const stored = new Uint8Array(await blobToArrayBuffer(whole));
+      if (
+        stored[0] === BOUND_PAYLOAD &&
+        provider.needsReencrypt &&
+        !provider.needsReencrypt(stored.subarray(2), this.encryptionKeyId)
+      ) {
+        return false;
+      }
+      const plain = await this.plainRecord({ ...rec, value: whole });
+      value = await this.encryptValue(key, plain.encoding, plain.value);
+    }
+
+    const rewritten = {
+      ...rec,
+      encoding: "binary" as const,
+      updatedAt: nowMs(),
+    };
+    const condition = { ifVersion: rec.version ?? 0 };
+    if (value instanceof ReadableStream) {
+      if (this.backend.putStream) {
+        await this.backend.putStream(rewritten, value, condition);
+        return true;
+      }
+      value = await streamToBlob(value);
+    }
+    await this.backend.put({ ...rewritten, value }, condition);
+    return true;
+  }
+
+  private async sweep(): Promise<void> {
+    try {
+      const purged = await this.purgeExpired();
+      this.opts?.onSweep?.(purged);
+    } catch (e) {
+      console.error("[idb-repo] expiration sweep failed", e);
+    }
+  }
+
+  /**
+   * Drop records a read found expired. The backend re-checks expiry as part
+   * of the delete, so a concurrent put of the same key is never lost.
+   */
+  private purgeLazily(keys: string[]): void {
+    this.backend.purgeExpired({ limit: keys.length, keys }).catch(() => {
+      // Best effort; the sweeper or a later read retries
+    });
   }
 
   async list(options?: KVListOptions): Promise<KVListResult> {
-    return this.backend.list(options ?? {});
+    const opts = options ?? {};
+    const { records, ...page } = await this.backend.list({
+      ...opts,
+      includeRecords: opts.includeValues ?? false,
+    });
+    if (records) {
+      const wantType = opts.type ?? "text";
+      for (let i = 0; i < page.keys.length; i++) {
+        page.keys[i]!.value = await this.decodeRecord(records[i]!, wantType);
+      }
+    }
+    return page;
   }
 
   async close(): Promise<void> {
-    if (this.encryptionProvider?.shutdown) {
+    for (const ns of this.namespaces.values()) await ns.close();
+    this.namespaces.clear();
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+    await this.sweepRun;
+    this.watchers.clear();
+    this.unsubscribeBackend?.();
+    this.unsubscribeBackend = null;
+    if (this.ownsProvider && this.encryptionProvider?.shutdown) {
       await this.encryptionProvider.shutdown();
     }
     await this.backend.close();
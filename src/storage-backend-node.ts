@@ -1,18 +1,39 @@
 import type {
-  KVListOptions,
-  KVListResult,
+  StorageListOptions,
+  StorageListResult,
+  KVWriteCondition,
+  StorageChange,
   StoredRecord,
   KVListKey,
 } from "./types";
-import type { StorageBackend } from "./storage-backend";
+import {
+  describeChange,
+  opKey,
+  type StorageBackend,
+  type StorageCorruptRange,
+  type StoragePurgeOptions,
+  type StorageUpdate,
+  type StorageVerifyReport,
+  type StorageWriteOp,
+  type StoredStream,
+} from "./storage-backend";
+import { ChangeFeed, type ChangeListener } from "./internal/change-feed";
 import { nowMs, toEpochSeconds } from "./time-utils";
-import { encodeCursor, decodeCursor } from "./internal/cursor";
+import { encodeCursor } from "./internal/cursor";
+import { inScan, resolveScan, scanBounds } from "./internal/key-range";
+import { OrderedMap } from "./internal/ordered-map";
+import { ExpiryIndex } from "./internal/expiry-index";
+import { checkWriteCondition, stampRecord } from "./internal/versioning";
+import { crc32c, crc32cCombine } from "./internal/crc32c";
+import { readTar, tarEnd, tarHeader, tarPadding } from "./internal/tar";
+import { KVLockedError, KVReadOnlyError } from "./errors";
 
 // We use dynamic imports for Node-specific modules to avoid breaking browser builds
 let fs: typeof import("node:fs") | undefined;
 let fsp: typeof import("node:fs/promises") | undefined;
 let path: typeof import("node:path") | undefined;
 let crypto: typeof import("node:crypto") | undefined;
+let os: typeof import("node:os") | undefined;
 
 async function ensureNode() {
   if (!fs) {
@@ -20,13 +41,726 @@ async function ensureNode() {
     fsp = await import("node:fs/promises");
     path = await import("node:path");
     crypto = await import("node:crypto");
+    os = await import("node:os");
   }
 }
 
 const MAGIC = 0x4b564c47; // 'KVLG'
-const VERSION = 1;
-const HEADER_SIZE = 24; // Increased to accommodate more fields if needed, or keep at 20 and pack
+const VERSION = 3;
+// Older headers are still read; compaction rewrites their records as v3
+const HEADER_SIZE_V1 = 24;
+const HEADER_SIZE_V2 = 48;
+const HEADER_SIZE = 52;
 const FLAG_TOMBSTONE = 0b00000001;
+// bits 1-4: encoding
+const FLAG_TXN = 0b00100000; // record belongs to a framed batch
+const FLAG_TXN_COMMIT = 0b01000000; // closes a batch; its records apply only once this is seen
+// Written (atomically, via rename) once compacted segments are complete;
+// its presence means the swap must be rolled forward
+const COMPACT_MANIFEST = "COMPACT";
+// Hint files: the index entries of one sealed segment, so opening the store
+// does not have to read every record header
+// 'KVH2'; the first format ('KVHT') stored offsets and sizes as u32 and is
+// rebuilt by scanning its segment
+const HINT_MAGIC = 0x4b564832;
+const HINT_HEADER_SIZE = 16; // magic u32, entry count u32, segment size f64
+const HINT_ENTRY_SIZE = 55; // fixed part of an entry, before key + metadata
+const HINT_DIGEST_SIZE = 32; // trailing sha256 of everything before it
+// Corrupt byte ranges are copied here before their keys are dropped
+const QUARANTINE_DIR = "quarantine";
+// Held by the one process allowed to write to a directory
+const LOCK_FILE = "LOCK";
+// Streamed values are collected here before they are copied into the log
+const SPOOL_DIR = "spool";
+// Large values are read, written and copied in pieces of this size
+const STREAM_CHUNK = 64 * 1024;
+// Segments are scanned through a window of this size, so neither a segment
+// nor a record has to fit in memory to be recovered or verified
+const SCAN_WINDOW = 1024 * 1024;
+// valLen is a u32
+const MAX_VALUE_BYTES = 0xffffffff;
+// Files a snapshot or backup holds, relative to the store directory
+const STORE_FILE = /^(namespaces\/[A-Za-z0-9_.-]+\/)*\d{6}\.(kvlog|hint)$/;
+
+/**
+ * A decoded record header. Each frame is header + key + metadata + value.
+ *
+ * v1 (24 bytes): magic u32 | version u8 | flags u8 | keyLen u16 |
+ *   valLen u32 | ts u32 (truncated ms) | expiresAt f64
+ * v2 (48 bytes): magic u32 | version u8 | flags u8 | keyLen u16 |
+ *   valLen u32 | metaLen u32 | createdAt f64 | updatedAt f64 |
+ *   expiresAt f64 | record version f64
+ * v3 (52 bytes): v2 followed by crc32c u32 of the rest of the header and
+ *   the key, metadata and value
+ *
+ * v1 frames carry no metadata, creation time or record version; those
+ * come back null and recovery fills them in as best it can. Only v3
+ * frames carry a checksum.
+ */
+type FrameHeader = {
+  headerSize: number;
+  flags: number;
+  keyLen: number;
+  metaLen: number;
+  valLen: number;
+  createdAt: number | null;
+  updatedAt: number;
+  expiresAt: number | null;
+  version: number | null;
+  checksum: number | null;
+};
+
+/**
+ * Throw unless a value of `size` bytes fits in a frame
+ */
+function assertValueSize(size: number): void {
+  if (size > MAX_VALUE_BYTES) {
+    throw new RangeError(
+      `Value exceeds the Node backend's limit of ${MAX_VALUE_BYTES} bytes`,
+    );
+  }
+}
+
+/**
+ * Decode the header at the start of `buf`
+ * @returns null when it is not a (complete) record header
+ */
+function parseHeader(buf: Buffer): FrameHeader | null {
+  if (buf.length < HEADER_SIZE_V1 || buf.readUInt32LE(0) !== MAGIC) {
+    return null;
+  }
+  const flags = buf[5] ?? 0;
+  const keyLen = buf.readUInt16LE(6);
+  const valLen = buf.readUInt32LE(8);
+
+  if (buf[4] === 1) {
+    return {
+      headerSize: HEADER_SIZE_V1,
+      flags,
+      keyLen,
+      metaLen: 0,
+      valLen,
+      createdAt: null,
+      updatedAt: buf.readUInt32LE(12),
+      expiresAt: buf.readDoubleLE(16) || null,
+      version: null,
+      checksum: null,
+    };
+  }
+
+  const headerSize =
+    buf[4] === 2 ? HEADER_SIZE_V2 : buf[4] === 3 ? HEADER_SIZE : 0;
+  if (!headerSize || buf.length < headerSize) return null;
+  return {
+    headerSize,
+    flags,
+    keyLen,
+    metaLen: buf.readUInt32LE(12),
+    valLen,
+    createdAt: buf.readDoubleLE(16),
+    updatedAt: buf.readDoubleLE(24),
+    expiresAt: buf.readDoubleLE(32) || null,
+    version: buf.readDoubleLE(40),
+    checksum: headerSize === HEADER_SIZE ? buf.readUInt32LE(48) : null,
+  };
+}
+
+/**
+ * Locate a whole, intact frame at `pos`
+ * @returns Its header and total size, or null when the bytes there are
+ * not a frame, run past the end of `data` or fail their checksum
+ */
+function frameAt(
+  data: Buffer,
+  pos: number,
+): { header: FrameHeader; size: number } | null {
+  const header = parseHeader(data.subarray(pos, pos + HEADER_SIZE));
+  if (!header) return null;
+  const size =
+    header.headerSize + header.keyLen + header.metaLen + header.valLen;
+  if (pos + size > data.length) return null;
+  if (header.checksum !== null) {
+    const crc = crc32c(
+      data.subarray(pos + HEADER_SIZE, pos + size),
+      crc32c(data.subarray(pos, pos + HEADER_SIZE_V2)),
+    );
+    if (crc !== header.checksum) return null;
+  }
+  return { header, size };
+}
+
+/**
+ * Encode a v3 record header, checksumming it together with its payload
+ */
+function encodeHeader(
+  fields: Omit<
+    FrameHeader,
+    "headerSize" | "createdAt" | "version" | "checksum"
+  > & {
+    createdAt: number;
+    version: number;
+  },
+  payload: Buffer[],
+  // A value that is not in `payload`: its checksum and length
+  tail?: { crc: number; size: number },
+): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.writeUInt32LE(MAGIC, 0);
+  header[4] = VERSION;
+  header[5] = fields.flags;
+  header.writeUInt16LE(fields.keyLen, 6);
+  header.writeUInt32LE(fields.valLen, 8);
+  header.writeUInt32LE(fields.metaLen, 12);
+  header.writeDoubleLE(fields.createdAt, 16);
+  header.writeDoubleLE(fields.updatedAt, 24);
+  header.writeDoubleLE(fields.expiresAt ?? 0, 32);
+  header.writeDoubleLE(fields.version, 40);
+
+  let crc = crc32c(header.subarray(0, HEADER_SIZE_V2));
+  for (const part of payload) crc = crc32c(part, crc);
+  if (tail) crc = crc32cCombine(crc, tail.crc, tail.size);
+  header.writeUInt32LE(crc, 48);
+  return header;
+}
+
+/**
+ * Copy of a v3 header with new flags, checksummed again from the checksum
+ * of the rest of its frame
+ */
+function restampHeader(
+  header: Buffer,
+  flags: number,
+  rest: { crc: number; size: number },
+): Buffer {
+  const out = Buffer.from(header.subarray(0, HEADER_SIZE));
+  out[5] = flags;
+  const crc = crc32cCombine(
+    crc32c(out.subarray(0, HEADER_SIZE_V2)),
+    rest.crc,
+    rest.size,
+  );
+  out.writeUInt32LE(crc, 48);
+  return out;
+}
+
+/**
+ * Continue a v3 frame's checksum over `chunk`, which starts `pos` bytes
+ * into the frame; the checksum field itself is skipped
+ */
+function frameCrc(chunk: Buffer, pos: number, crc: number): number {
+  const skipFrom = Math.min(Math.max(0, HEADER_SIZE_V2 - pos), chunk.length);
+  const skipTo = Math.min(Math.max(0, HEADER_SIZE - pos), chunk.length);
+  crc = crc32c(chunk.subarray(0, skipFrom), crc);
+  return crc32c(chunk.subarray(skipTo), crc);
+}
+
+/**
+ * Metadata as stored in a frame: JSON, or nothing when there is none
+ */
+function encodeMetadata(metadata: unknown): Buffer {
+  return metadata != null
+    ? Buffer.from(JSON.stringify(metadata), "utf8")
+    : Buffer.alloc(0);
+}
+
+/**
+ * Prepare a live record for a compacted segment: batch flags are cleared,
+ * since copied records stand alone, and older frames are rewritten as v3
+ * with the metadata, times and version the index holds for them
+ */
+function upgradeFrame(
+  frame: Buffer,
+  header: FrameHeader,
+  entry: IndexEntry,
+): Buffer {
+  const keyStart = header.headerSize;
+  const keyBuf = frame.subarray(keyStart, keyStart + header.keyLen);
+  const valBuf = frame.subarray(keyStart + header.keyLen + header.metaLen);
+  const metaBuf = encodeMetadata(entry.metadata);
+  const payload = [keyBuf, metaBuf, valBuf];
+  return Buffer.concat([
+    encodeHeader(
+      {
+        flags: header.flags & ~(FLAG_TXN | FLAG_TXN_COMMIT),
+        keyLen: header.keyLen,
+        metaLen: metaBuf.length,
+        valLen: header.valLen,
+        createdAt: entry.createdAt,
+        updatedAt: entry.ts,
+        expiresAt: entry.expiresAt,
+        version: entry.version,
+      },
+      payload,
+    ),
+    ...payload,
+  ]);
+}
+
+/**
+ * Decode the record in an intact frame; index fields come from `meta`
+ * @returns undefined when the value does not parse (old frames have no
+ * checksum, so this is where their corruption shows)
+ */
+function decodeValue(
+  key: string,
+  meta: IndexEntry,
+  header: FrameHeader,
+  frame: Buffer<ArrayBuffer>,
+): StoredRecord | undefined {
+  const encodingFlag = (header.flags >> 1) & 0x0f; // bits 1-4 for encoding
+  const valueBuf = frame.subarray(
+    header.headerSize + header.keyLen + header.metaLen,
+  );
+
+  // Map encoding flag back to StoredEncoding
+  const encodings: StoredRecord["encoding"][] = [
+    "text",
+    "json",
+    "clone",
+    "binary",
+  ];
+  const encoding = encodings[encodingFlag] || "binary";
+
+  let value: any;
+  try {
+    if (encoding === "text") value = valueBuf.toString("utf8");
+    else if (encoding === "json") value = JSON.parse(valueBuf.toString("utf8"));
+    else if (encoding === "clone")
+      value = JSON.parse(valueBuf.toString("utf8")); // Simplified for POC
+    else value = new Blob([valueBuf]);
+  } catch {
+    return undefined;
+  }
+
+  return {
+    key,
+    value,
+    encoding,
+    expiresAt: meta.expiresAt,
+    metadata: meta.metadata,
+    createdAt: meta.createdAt,
+    updatedAt: meta.ts,
+    version: meta.version,
+  };
+}
+
+/**
+ * Inode of each segment file, by segment id
+ */
+function segmentInodes(
+  segments: Array<{ id: number; path: string }>,
+): Map<number, number> {
+  const inodes = new Map<number, number>();
+  for (const seg of segments) {
+    try {
+      inodes.set(seg.id, fs!.statSync(seg.path).ino);
+    } catch {
+      // Deleted since it was listed; the next refresh sees it gone
+    }
+  }
+  return inodes;
+}
+
+/**
+ * Whether a lock was left behind by a process that no longer runs. Locks
+ * taken on another host can't be checked and are never considered stale.
+ */
+function isStaleLock(holder: LockOwner, hostname: string): boolean {
+  if (holder.hostname !== hostname) return false;
+  // Only asked while no hub of this process has the directory open, so a
+  // lock with our pid is from an earlier process that had it (a restarted
+  // container) or from an open that failed
+  if (holder.pid === process.pid) return true;
+  try {
+    process.kill(holder.pid, 0);
+  } catch (e) {
+    // EPERM: alive, just not ours to signal
+    return (e as NodeJS.ErrnoException).code === "ESRCH";
+  }
+  // A process that started after the lock was taken only reuses the pid
+  // of the one that took it (after a crash or a reboot)
+  const started = processStartTime(holder.pid);
+  return started !== null && started > holder.since + START_TIME_SLACK_MS;
+}
+
+// Process start times are known to within a second (the boot time's
+// resolution)
+const START_TIME_SLACK_MS = 1000;
+
+/**
+ * When a process started, in epoch ms, where /proc tells (Linux)
+ * @returns null elsewhere, or if the process is gone
+ */
+function processStartTime(pid: number): number | null {
+  try {
+    const stat = fs!.readFileSync(`/proc/${pid}/stat`, "utf8");
+    // Fields after the command name, which may hold spaces, start at the
+    // 3rd; starttime is the 22nd, in clock ticks (USER_HZ, 100/s) since boot
+    const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+    const ticks = Number(fields[22 - 3]);
+    const boot = /^btime (\d+)$/m.exec(fs!.readFileSync("/proc/stat", "utf8"));
+    if (!boot || !Number.isFinite(ticks)) return null;
+    return Number(boot[1]) * 1000 + ticks * 10;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create `dir` if needed; throw unless it is empty
+ */
+async function ensureEmptyDir(dir: string): Promise<void> {
+  await fsp!.mkdir(dir, { recursive: true });
+  if ((await fsp!.readdir(dir)).length > 0) {
+    throw new Error(`"${dir}" is not empty`);
+  }
+}
+
+/**
+ * A file of a captured store: `size` bytes to be read from `fd`
+ */
+type CapturedFile = {
+  name: string;
+  fd: number;
+  size: number;
+};
+
+/**
+ * A frame found while walking a segment
+ */
+type ScannedFrame = {
+  offset: number;
+  size: number;
+  header: FrameHeader;
+  key: string;
+  metadata: unknown;
+};
+
+/**
+ * Bytes [0, end) of a file, read through a window of SCAN_WINDOW bytes
+ */
+class FileWindow {
+  private buf = Buffer.alloc(0);
+  private bufStart = 0;
+
+  constructor(
+    private readAt: (buf: Buffer, pos: number) => Promise<number>,
+    readonly end: number,
+  ) {}
+
+  /**
+   * `len` bytes from `pos`, fewer where the file ends. The window moves to
+   * `pos` when they are not all in it, and grows for a longer `len`.
+   */
+  async bytes(pos: number, len: number): Promise<Buffer> {
+    len = Math.max(0, Math.min(len, this.end - pos));
+    const from = pos - this.bufStart;
+    if (from < 0 || from + len > this.buf.length) {
+      const buf = Buffer.alloc(
+        Math.min(Math.max(len, SCAN_WINDOW), this.end - pos),
+      );
+      const n = await this.readAt(buf, pos);
+      this.buf = buf.subarray(0, n);
+      this.bufStart = pos;
+      return this.buf.subarray(0, len);
+    }
+    return this.buf.subarray(from, from + len);
+  }
+}
+
+/**
+ * Like frameAt, over a file: a frame larger than the window has its
+ * checksum computed a window at a time
+ * @returns Its header, total size and the bytes of its key and metadata
+ */
+async function frameIn(
+  win: FileWindow,
+  pos: number,
+): Promise<{ header: FrameHeader; size: number; keyMeta: Buffer } | null> {
+  const head = await win.bytes(pos, HEADER_SIZE);
+  const header = parseHeader(head);
+  if (!header) return null;
+  const size =
+    header.headerSize + header.keyLen + header.metaLen + header.valLen;
+  if (pos + size > win.end) return null;
+  const keyMetaLen = header.keyLen + header.metaLen;
+
+  if (size <= SCAN_WINDOW) {
+    const frame = await win.bytes(pos, size);
+    if (!frameAt(frame, 0)) return null;
+    const keyMeta = frame.subarray(
+      header.headerSize,
+      header.headerSize + keyMetaLen,
+    );
+    return { header, size, keyMeta };
+  }
+
+  const keyMeta = await win.bytes(pos + header.headerSize, keyMetaLen);
+  if (header.checksum !== null) {
+    let crc = crc32c(head.subarray(0, HEADER_SIZE_V2));
+    for (let at = pos + HEADER_SIZE; at < pos + size; at += SCAN_WINDOW) {
+      crc = crc32c(
+        await win.bytes(at, Math.min(SCAN_WINDOW, pos + size - at)),
+        crc,
+      );
+    }
+    if (crc !== header.checksum) return null;
+  }
+  return { header, size, keyMeta };
+}
+
+/**
+ * Whether `pos` is where a frame boundary may be: the end of the file or
+ * the start of a header
+ */
+async function boundaryAt(win: FileWindow, pos: number): Promise<boolean> {
+  if (pos === win.end) return true;
+  return pos < win.end && !!parseHeader(await win.bytes(pos, HEADER_SIZE));
+}
+
+/**
+ * Offset of the next intact frame at or after `from` that a header or the
+ * end of the file follows, or the end of the file when there is none. A
+ * value may hold bytes that pass for a whole frame, so an intact frame
+ * alone is not enough to resync on.
+ */
+async function nextFrame(win: FileWindow, from: number): Promise<number> {
+  const magic = Buffer.alloc(4);
+  magic.writeUInt32LE(MAGIC, 0);
+
+  for (let pos = from; pos < win.end;) {
+    const chunk = await win.bytes(pos, SCAN_WINDOW);
+    for (let i = chunk.indexOf(magic); i >= 0;) {
+      const found = await frameIn(win, pos + i);
+      if (found && (await boundaryAt(win, pos + i + found.size))) {
+        return pos + i;
+      }
+      i = chunk.indexOf(magic, i + 1);
+    }
+    // The magic may straddle the end of this chunk
+    if (pos + chunk.length >= win.end) break;
+    pos += Math.max(1, chunk.length - (magic.length - 1));
+  }
+  return win.end;
+}
+
+/**
+ * Where to resume after the damaged frame at `pos`: past the length its
+ * header declares when an intact frame or the end of the file is there,
+ * so a frame embedded in its value is never taken for a record, and
+ * otherwise at the next intact frame
+ */
+async function resyncAfter(win: FileWindow, pos: number): Promise<number> {
+  const header = parseHeader(await win.bytes(pos, HEADER_SIZE));
+  if (header) {
+    const end =
+      pos + header.headerSize + header.keyLen + header.metaLen + header.valLen;
+    if (end === win.end || (end < win.end && (await frameIn(win, end)))) {
+      return end;
+    }
+  }
+  return nextFrame(win, pos + 1);
+}
+
+/**
+ * Walk the frames of a file from `from` to its end. A frame that is
+ * damaged (bad header, bad checksum, truncated) is skipped by resyncing
+ * on the next intact one, so a corrupt record does not hide the ones
+ * after it.
+ * @returns The intact frames and the byte ranges that are not
+ */
+async function scanFrames(
+  win: FileWindow,
+  from = 0,
+): Promise<{
+  frames: ScannedFrame[];
+  corrupt: Array<{ start: number; end: number }>;
+}> {
+  const frames: ScannedFrame[] = [];
+  const corrupt: Array<{ start: number; end: number }> = [];
+
+  let pos = from;
+  while (pos < win.end) {
+    const found = await frameIn(win, pos);
+    if (!found) {
+      const end = await resyncAfter(win, pos);
+      corrupt.push({ start: pos, end });
+      pos = end;
+      continue;
+    }
+
+    const { header, size, keyMeta } = found;
+    let metadata: unknown = null;
+    try {
+      if (header.metaLen > 0) {
+        metadata = JSON.parse(keyMeta.toString("utf8", header.keyLen));
+      }
+    } catch {
+      // Only reachable for v2 frames, which have no checksum
+      corrupt.push({ start: pos, end: pos + size });
+      pos += size;
+      continue;
+    }
+    frames.push({
+      offset: pos,
+      size,
+      header,
+      key: keyMeta.toString("utf8", 0, header.keyLen),
+      metadata,
+    });
+    pos += size;
+  }
+  return { frames, corrupt };
+}
+
+/**
+ * When NodeFileSystemStorageBackend writes reach the disk:
+ * - "none": left to the OS; only `flush()` forces them
+ * - "interval": fsync every `fsyncIntervalMs` while there are new writes
+ * - "always": a write resolves once it is fsynced; concurrent writes share
+ *   one fsync (group commit)
+ */
+export type NodeDurability = "none" | "interval" | "always";
+
+/**
+ * Options of NodeFileSystemStorageBackend
+ */
+export type NodeStorageOptions = {
+  dbName?: string;
+  dir?: string;
+  segmentMaxBytes?: number;
+  compactThreshold?: number;
+  // Called when a compaction started by `compactThreshold` fails (default:
+  // logged with console.error); compact() rejects on its own
+  onCompactionError?: (error: unknown) => void;
+  durability?: NodeDurability;
+  fsyncIntervalMs?: number;
+  // Read a store another process may be writing: takes no lock, never
+  // writes, and rejects writes with KVReadOnlyError
+  readOnly?: boolean;
+  // Read-only: pick up new writes this often (see `refresh()`); 0 = never
+  refreshIntervalMs?: number;
+  // Open a read-only view of the store as it was at this time (epoch ms)
+  // or log position, by replaying the log up to it
+  asOf?: number | NodeLogPosition;
+};
+
+/**
+ * A point in a store's log: the segment and the byte offset within it.
+ * Everything written before it lies in earlier segments or below `offset`.
+ */
+export type NodeLogPosition = {
+  segment: number;
+  offset: number;
+};
+
+/**
+ * Contents of the lock file
+ */
+type LockOwner = {
+  pid: number;
+  hostname: string;
+  since: number;
+};
+
+/**
+ * Disk usage of a NodeFileSystemStorageBackend directory
+ */
+export type NodeStorageStats = {
+  segments: number;
+  totalBytes: number; // size of all segment files
+  liveBytes: number; // bytes of records still reachable through the index
+  spaceAmplification: number; // totalBytes / liveBytes
+};
+
+/**
+ * Segment swap recorded by a compaction: every input id is replaced, the
+ * outputs reuse the lowest input ids and the rest are deleted
+ */
+type CompactionManifest = {
+  inputs: number[];
+  outputs: number[];
+};
+
+/**
+ * A serialized log record ready to be appended. `record` is set for puts,
+ * `key` and `version` (the one the key's record ended at) for tombstones,
+ * and neither for control frames (batch commit markers). A streamed value
+ * is not in `buffers`: it is copied from `source` after them.
+ */
+type EncodedFrame = {
+  buffers: Buffer[];
+  size: number;
+  record?: StoredRecord;
+  key?: string;
+  version?: number;
+  source?: SpooledValue;
+};
+
+/**
+ * A streamed value written out to the spool, with its checksum
+ */
+type SpooledValue = {
+  path: string;
+  size: number;
+  crc: number;
+};
+
+type IndexEntry = {
+  fileId: number;
+  offset: number;
+  size: number;
+  ts: number;
+  createdAt: number;
+  version: number;
+  expiresAt: number | null;
+  metadata: any | null;
+};
+
+/**
+ * What one backend tells its peers after appending to the shared log
+ */
+type AppendNotice = {
+  fileId: number;
+  end: number;
+  entries: SegmentEntries;
+  changes: StorageChange[];
+};
+
+/**
+ * Index updates made by one segment's records, in log order; null for a
+ * tombstone, followed by the version the key's record ended at. Replaying
+ * them over the preceding segments rebuilds the index.
+ */
+type SegmentEntries = Array<[string, IndexEntry | null, number?]>;
+
+/**
+ * Cached read fd of a segment. Once `retired` (its segment was replaced or
+ * the index reloaded) it is closed when the last read holding it ends.
+ */
+type ReadFd = {
+  fd: number;
+  last: number;
+  refs: number;
+  retired: boolean;
+};
+
+/**
+ * Backends opened on the same directory within this process. Their writes
+ * are serialized through one lock and every append is replayed into the
+ * peers' indexes, so all handles observe a single consistent store.
+ */
+type DirHub = {
+  members: Set<NodeFileSystemStorageBackend>;
+  writeLock: Promise<void>;
+  compacting: Promise<void> | null;
+  unsynced: boolean; // appended to since the active segment's last fsync
+  lock: LockOwner | null; // what the lock file said when we took it
+};
+
+// Keyed by the directory's real path, so that every spelling of it (a
+// trailing slash, a symlink) shares one hub and one lock
+const dirHubs = new Map<string, DirHub>();
 
 /**
  * NodeFileSystemStorageBackend: High-performance persistent storage for Node.js
@@ -35,244 +769,1761 @@ const FLAG_TOMBSTONE = 0b00000001;
 export class NodeFileSystemStorageBackend implements StorageBackend {
   private dir: string;
   private opened = false;
+  private opening: Promise<void> | null = null;
+  private hub: DirHub | null = null;
+  private feed = new ChangeFeed();
   private activeId = 1;
   private activeFd: number | null = null;
   private activeSize = 0;
   private activeOffset = 0;
 
   // Index stores metadata to satisfy 'list' without disk hits
-  private index = new Map<
-    string,
-    {
-      fileId: number;
-      offset: number;
-      size: number;
-      ts: number;
-      expiresAt: number | null;
-      metadata: any | null;
-    }
-  >();
-
-  private fdCache = new Map<number, { fd: number; last: number }>();
+  private index = new OrderedMap<IndexEntry>();
+  // Keys of the index by expiration time, for purges
+  private expiry = new ExpiryIndex();
+  // Version each deleted or purged key ended at. Their tombstones are
+  // kept through compaction so a key written again continues from it.
+  private retired = new Map<string, number>();
+  // Entries of the active segment, written out as its hint file on rotation
+  private activeEntries: SegmentEntries = [];
+
+  private fdCache = new Map<number, ReadFd>();
   private segmentMaxBytes = 32 * 1024 * 1024; // 32 MiB
+  // Compact automatically once sealed segments are this many times larger
+  // than the live data they hold; 0 disables
+  private compactThreshold = 2;
+  // Compaction started after a rotation, which close() waits for
+  private backgroundCompaction: Promise<void> | null = null;
+  private namespaces = new Map<string, NodeFileSystemStorageBackend>();
+  private durability: NodeDurability = "interval";
+  private fsyncIntervalMs = 1000;
+  private fsyncTimer: ReturnType<typeof setInterval> | null = null;
+  // Flush not started yet; callers arriving before it starts share it
+  private pendingFlush: Promise<void> | null = null;
+  private lastFlush: Promise<void> = Promise.resolve();
+
+  private readOnly: boolean;
+  private asOf: number | NodeLogPosition | null;
+  // A view as of a time has replayed a frame stamped after it
+  private pastAsOf = false;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private refreshing: Promise<void> | null = null;
+  // Read-only: inode of each segment as last read, to notice compactions
+  private inodes = new Map<number, number>();
+
+  constructor(private opts?: NodeStorageOptions) {
+    // Use dbName as the directory name if dir is not provided
+    this.dir = opts?.dir || opts?.dbName || "kv-data";
+    this.asOf = opts?.asOf ?? null;
+    this.readOnly = (opts?.readOnly ?? false) || this.asOf !== null;
+    if (opts?.segmentMaxBytes) this.segmentMaxBytes = opts.segmentMaxBytes;
+    if (opts?.compactThreshold !== undefined) {
+      this.compactThreshold = opts.compactThreshold;
+    }
+    if (opts?.durability) this.durability = opts.durability;
+    if (opts?.fsyncIntervalMs) this.fsyncIntervalMs = opts.fsyncIntervalMs;
+  }
+
+  private async ensureOpened() {
+    if (this.opened) return;
+    if (!this.opening) {
+      this.opening = this.open().finally(() => {
+        this.opening = null;
+      });
+    }
+    await this.opening;
+  }
+
+  private async open() {
+    await ensureNode();
+
+    this.dir = path!.resolve(this.dir);
+
+    // A reader keeps to itself: it takes no lock and shares no state with
+    // writers in this process, exactly as if it were another process.
+    // Writers stay synchronous up to registering the hub, so backends
+    // opening together cannot both create one.
+    if (!this.readOnly) fs!.mkdirSync(this.dir, { recursive: true });
+    if (fs!.existsSync(this.dir)) this.dir = fs!.realpathSync(this.dir);
+    let hub = this.readOnly ? undefined : dirHubs.get(this.dir);
+    if (!hub) {
+      hub = {
+        members: new Set(),
+        writeLock: Promise.resolve(),
+        compacting: null,
+        unsynced: false,
+        lock: null,
+      };
+      if (!this.readOnly) {
+        hub.lock = this.acquireLock();
+        try {
+          // Left by puts that were streaming when the last writer stopped
+          fs!.rmSync(path!.join(this.dir, SPOOL_DIR), {
+            recursive: true,
+            force: true,
+          });
+        } catch (e) {
+          this.releaseLock(hub.lock);
+          throw e;
+        }
+        dirHubs.set(this.dir, hub);
+      }
+    }
+    this.hub = hub;
+
+    // Recover under the shared lock so no peer appends mid-scan
+    await this.withWriteLock(async () => {
+      await this.recoverFromDisk();
+      hub.members.add(this);
+    });
+    this.opened = true;
+
+    if (this.durability === "interval" && !this.readOnly) {
+      this.fsyncTimer = setInterval(() => {
+        if (!hub.unsynced) return;
+        this.flush().catch((e) => {
+          console.error("[idb-repo] fsync failed", e);
+        });
+      }, this.fsyncIntervalMs);
+      // Don't keep the process alive just to fsync
+      (this.fsyncTimer as { unref?: () => void }).unref?.();
+    }
+
+    const refreshMs = this.opts?.refreshIntervalMs ?? 0;
+    if (this.readOnly && this.asOf === null && refreshMs > 0) {
+      this.refreshTimer = setInterval(() => {
+        this.refresh().catch((e) => {
+          console.error("[idb-repo] refresh failed", e);
+        });
+      }, refreshMs);
+      (this.refreshTimer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /**
+   * Create the lock file, or take it over when the process that left it
+   * is gone. Throws KVLockedError while another live process holds it.
+   */
+  private acquireLock(): LockOwner {
+    const lockPath = path!.join(this.dir, LOCK_FILE);
+    const owner: LockOwner = {
+      pid: process.pid,
+      hostname: os!.hostname(),
+      since: Date.now(),
+    };
+
+    for (;;) {
+      try {
+        fs!.writeFileSync(lockPath, JSON.stringify(owner), {
+          flag: "wx",
+          mode: 0o600,
+        });
+        return owner;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+      }
+
+      let holder: LockOwner | null = null;
+      try {
+        holder = JSON.parse(fs!.readFileSync(lockPath, "utf8")) as LockOwner;
+      } catch {
+        // Unreadable: a crash while the lock was being written
+      }
+      if (holder && !isStaleLock(holder, owner.hostname)) {
+        throw new KVLockedError(this.dir, holder.pid, holder.hostname);
+      }
+      fs!.rmSync(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Remove the lock file if it is still the one `owner` wrote
+   */
+  private releaseLock(owner: LockOwner): void {
+    const lockPath = path!.join(this.dir, LOCK_FILE);
+    try {
+      const holder = JSON.parse(
+        fs!.readFileSync(lockPath, "utf8"),
+      ) as LockOwner;
+      if (holder.pid === owner.pid && holder.since === owner.since) {
+        fs!.rmSync(lockPath, { force: true });
+      }
+    } catch {
+      // Already gone
+    }
+  }
+
+  private async recoverFromDisk() {
+    if (this.readOnly) await this.awaitCompactionSwap();
+    else await this.finishCompaction();
+
+    const segments = await this.listSegments();
+    if (this.readOnly) this.inodes = segmentInodes(segments);
+    const newest = segments[segments.length - 1];
+    if (!newest) {
+      if (!this.readOnly) await this.openActiveForAppend(1);
+      return;
+    }
+
+    const end = await this.recoverIndex(segments);
+    this.activeId = newest.id;
+    this.activeSize = end;
+    this.activeOffset = end;
+    if (this.readOnly) return;
+
+    await this.openActiveForAppend(this.activeId);
+    if (this.activeSize >= this.segmentMaxBytes) {
+      await this.rotate();
+    }
+  }
+
+  /**
+   * Read-only: a writer is between writing a compaction manifest and
+   * swapping the segments, which only takes a moment; wait it out rather
+   * than read a half-swapped directory
+   */
+  private async awaitCompactionSwap(): Promise<void> {
+    const manifestPath = path!.join(this.dir, COMPACT_MANIFEST);
+    for (let i = 0; i < 40 && fs!.existsSync(manifestPath); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+    if (fs!.existsSync(manifestPath)) {
+      throw new Error(
+        `KV store at "${this.dir}" has an unfinished compaction; open it for writing once to complete it`,
+      );
+    }
+  }
+
+  /**
+   * Read-only: catch up with writes made since the store was opened (or
+   * last refreshed) by tailing the log. When a compaction has rewritten
+   * segments the index is rebuilt instead.
+   */
+  async refresh(): Promise<void> {
+    await this.ensureOpened();
+    // A view as of an earlier point never moves on
+    if (!this.readOnly || this.asOf !== null) return;
+    if (!this.refreshing) {
+      this.refreshing = this.withWriteLock(() => this.catchUp()).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async catchUp(): Promise<void> {
+    if (fs!.existsSync(path!.join(this.dir, COMPACT_MANIFEST))) return;
+    const segments = await this.listSegments();
+
+    // Compaction replaces sealed segments wholesale, so offsets in the
+    // index can no longer be trusted: start over
+    const current = segmentInodes(segments);
+    for (const [id, ino] of this.inodes) {
+      if (current.get(id) !== ino) return this.reload(segments);
+    }
+
+    const changes: StorageChange[] = [];
+    for (const seg of segments) {
+      if (seg.id < this.activeId) continue;
+      const from = seg.id === this.activeId ? this.activeOffset : 0;
+      const { end } = await this.scanSegment(seg, true, from, changes);
+      this.activeId = seg.id;
+      this.activeOffset = end;
+      this.activeSize = end;
+    }
+    this.inodes = current;
+    this.feed.emit(changes);
+  }
+
+  private async reload(
+    segments: Array<{ id: number; path: string }>,
+  ): Promise<void> {
+    const previous = this.index;
+    this.index = new OrderedMap();
+    this.expiry = new ExpiryIndex();
+    this.retired = new Map();
+    this.retireReadFds(Array.from(this.fdCache.keys()));
+
+    this.inodes = segmentInodes(segments);
+    const newest = segments[segments.length - 1];
+    const end = newest ? await this.recoverIndex(segments) : 0;
+    this.activeId = newest?.id ?? 1;
+    this.activeOffset = end;
+    this.activeSize = end;
+
+    // Report what differs; records only moved by compaction keep their version
+    const changes: StorageChange[] = [];
+    for (const [key, prev] of previous) {
+      const next = this.index.get(key) ?? null;
+      if (next && next.version === prev.version) continue;
+      const change = describeChange(key, prev, next);
+      if (change) changes.push(change);
+    }
+    for (const [key, next] of this.index) {
+      if (previous.has(key)) continue;
+      const change = describeChange(key, undefined, next);
+      if (change) changes.push(change);
+    }
+    this.feed.emit(changes);
+  }
+
+  async get(key: string): Promise<StoredRecord | undefined> {
+    await this.ensureOpened();
+    const meta = this.index.get(key);
+    if (!meta) return undefined;
+
+    // Check expiration
+    if (meta.expiresAt && meta.expiresAt <= nowMs()) {
+      // Lazy delete; re-checked under the lock so a fresh put survives
+      void this.purgeExpired({ limit: 1, keys: [key] });
+      return undefined;
+    }
+
+    return this.readEntry(key, meta);
+  }
+
+  /**
+   * Read and decode the record an index entry points at
+   * @returns undefined when the record is corrupt; it is then quarantined
+   */
+  private async readEntry(
+    key: string,
+    meta: IndexEntry,
+    fd?: number,
+  ): Promise<StoredRecord | undefined> {
+    // Taken in the same tick as the caller's index lookup so a compaction
+    // swap cannot pair a stale offset with a rewritten file
+    const held = fd === undefined ? this.acquireReadFd(meta.fileId) : null;
+    const frame = Buffer.alloc(meta.size);
+    try {
+      await this.fsRead(fd ?? held!.fd, frame, 0, meta.size, meta.offset);
+    } finally {
+      if (held) this.releaseReadFd(held);
+    }
+    const header = frameAt(frame, 0)?.header;
+    const record = header && decodeValue(key, meta, header, frame);
+    if (!record && this.readOnly) {
+      // Likely a compaction swapped the file under us; refresh will tell
+      console.warn(
+        `[idb-repo] unreadable record for "${key}" in segment ${meta.fileId} at ${meta.offset}`,
+      );
+    } else if (!record) {
+      console.error(
+        `[idb-repo] corrupt record for "${key}" in segment ${meta.fileId} at ${meta.offset}; quarantining it`,
+      );
+      const range = {
+        segment: meta.fileId,
+        start: meta.offset,
+        end: meta.offset + meta.size,
+        keys: [key],
+      };
+      this.withWriteLock(() => this.quarantine([range], [frame])).catch((e) => {
+        console.error("[idb-repo] quarantine failed", e);
+      });
+    }
+    return record;
+  }
+
+  /**
+   * Append tombstones for the keys whose current record lies in a corrupt
+   * range, after saving the range's bytes under `quarantine/`: from
+   * `contents` when given, else copied from the segment. Must be called
+   * under the write lock.
+   */
+  private async quarantine(
+    ranges: StorageCorruptRange[],
+    contents?: Buffer[],
+  ): Promise<void> {
+    const dir = path!.join(this.dir, QUARANTINE_DIR);
+    await fsp!.mkdir(dir, { recursive: true });
+    const doomed = new Set<string>();
+    for (let i = 0; i < ranges.length; i++) {
+      const { segment, start, end, keys } = ranges[i]!;
+      const file = path!.join(dir, `${this.pad6(segment)}-${start}-${end}.bin`);
+      if (contents) {
+        await fsp!.writeFile(file, contents[i]!, { mode: 0o600 });
+      } else {
+        await this.copyToFile(this.segmentPath(segment), start, end, file);
+      }
+      for (const key of keys) {
+        const entry = this.index.get(key);
+        if (
+          entry &&
+          entry.fileId === segment &&
+          entry.offset >= start &&
+          entry.offset < end
+        ) {
+          doomed.add(key);
+        }
+      }
+    }
+    if (doomed.size > 0) {
+      await this.appendFrames(
+        Array.from(doomed, (key) => this.encodeTombstone(key)),
+      );
+    }
+  }
+
+  async put(record: StoredRecord, condition?: KVWriteCondition): Promise<void> {
+    await this.ensureOpened();
+    await this.write(async () => {
+      const prev = this.liveEntry(record.key);
+      checkWriteCondition(record.key, prev, condition);
+      const stamped = stampRecord(record, prev, this.lastVersion(record.key));
+      await this.appendFrames([await this.encodeRecord(stamped)]);
+    });
+  }
+
+  /**
+   * Store a binary value from a stream. It is written to a spool file
+   * first, outside the write lock so a slow producer holds up no other
+   * writes, and then copied into the log.
+   */
+  async putStream(
+    record: StoredRecord,
+    stream: ReadableStream<Uint8Array>,
+    condition?: KVWriteCondition,
+  ): Promise<void> {
+    await this.ensureOpened();
+    if (this.readOnly) throw new KVReadOnlyError(this.dir);
+
+    const source = await this.spool(stream);
+    try {
+      await this.write(async () => {
+        const prev = this.liveEntry(record.key);
+        checkWriteCondition(record.key, prev, condition);
+        const stamped = stampRecord(
+          { ...record, encoding: "binary" },
+          prev,
+          this.lastVersion(record.key),
+        );
+        await this.appendFrames([await this.encodeRecord(stamped, 0, source)]);
+      });
+    } finally {
+      await fsp!.rm(source.path, { force: true });
+    }
+  }
+
+  private async spool(
+    stream: ReadableStream<Uint8Array>,
+  ): Promise<SpooledValue> {
+    const dir = path!.join(this.dir, SPOOL_DIR);
+    await fsp!.mkdir(dir, { recursive: true });
+    const file = path!.join(dir, `${crypto!.randomUUID()}.tmp`);
+    const fh = await fsp!.open(file, "w", 0o600);
+    const reader = stream.getReader();
+    let size = 0;
+    let crc = 0;
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        size += value.length;
+        assertValueSize(size);
+        crc = crc32c(value, crc);
+        await fh.write(value);
+      }
+    } catch (e) {
+      await reader.cancel(e).catch(() => undefined);
+      await fh.close();
+      await fsp!.rm(file, { force: true });
+      throw e;
+    }
+    await fh.close();
+    return { path: file, size, crc };
+  }
+
+  /**
+   * Read a record, streaming a binary value from its segment instead of
+   * reading it into memory. The checksum is checked as the value is read:
+   * a corrupt value errors the stream once it has all been read.
+   */
+  async getStream(key: string): Promise<StoredStream | undefined> {
+    await this.ensureOpened();
+    const meta = this.index.get(key);
+    if (!meta) return undefined;
+    if (meta.expiresAt && meta.expiresAt <= nowMs()) {
+      void this.purgeExpired({ limit: 1, keys: [key] });
+      return undefined;
+    }
+
+    // The stream may outlive later compactions, so it gets an fd of its
+    // own, opened in the same tick as the index lookup (see readEntry)
+    const fd = fs!.openSync(this.segmentPath(meta.fileId), "r");
+    let header: FrameHeader | null;
+    try {
+      const head = Buffer.alloc(Math.min(meta.size, HEADER_SIZE));
+      await this.fsRead(fd, head, 0, head.length, meta.offset);
+      header = parseHeader(head);
+    } catch (e) {
+      fs!.closeSync(fd);
+      throw e;
+    }
+
+    const binary = header && ((header.flags >> 1) & 0x0f) === 3;
+    if (
+      !header ||
+      !binary ||
+      header.checksum === null ||
+      meta.size <= STREAM_CHUNK
+    ) {
+      // Small, not binary or without a checksum: read it whole as get() does
+      try {
+        const record = await this.readEntry(key, meta, fd);
+        return record && { record, stream: null };
+      } finally {
+        fs!.closeSync(fd);
+      }
+    }
+
+    const checksum = header.checksum;
+    const valueStart = header.headerSize + header.keyLen + header.metaLen;
+    const chunks = this.readChunks(fd, meta.offset, meta.size);
+    let pos = 0;
+    let crc = 0;
+    let open = true;
+    const release = () => {
+      if (open) fs!.closeSync(fd);
+      open = false;
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        let next: IteratorResult<Buffer>;
+        try {
+          next = await chunks.next();
+        } catch (e) {
+          release();
+          throw e;
+        }
+        if (next.done) {
+          release();
+          if (crc === checksum) controller.close();
+          else {
+            controller.error(
+              new Error(
+                `Corrupt record for "${key}" in segment ${meta.fileId} at ${meta.offset}; run verify() to quarantine it`,
+              ),
+            );
+          }
+          return;
+        }
+
+        const chunk = next.value;
+        crc = frameCrc(chunk, pos, crc);
+        const from = Math.max(0, valueStart - pos);
+        pos += chunk.length;
+        if (from < chunk.length) controller.enqueue(chunk.subarray(from));
+      },
+      cancel: release,
+    });
+
+    return {
+      record: {
+        key,
+        value: null,
+        encoding: "binary",
+        expiresAt: meta.expiresAt,
+        metadata: meta.metadata,
+        createdAt: meta.createdAt,
+        updatedAt: meta.ts,
+        version: meta.version,
+      },
+      stream,
+    };
+  }
+
+  async delete(key: string, condition?: KVWriteCondition): Promise<void> {
+    await this.ensureOpened();
+    await this.write(async () => {
+      checkWriteCondition(key, this.liveEntry(key), condition);
+      if (!this.index.has(key)) return;
+
+      // Append a tombstone record
+      await this.appendFrames([this.encodeTombstone(key)]);
+    });
+  }
+
+  /**
+   * Append tombstones for expired entries, found through the expiry index
+   */
+  async purgeExpired(options: StoragePurgeOptions): Promise<string[]> {
+    await this.ensureOpened();
+    // Expired entries are already invisible to reads; leave them to the writer
+    if (this.readOnly) return [];
+    return this.write(async () => {
+      const now = nowMs();
+      const purged: string[] = [];
+      for (const key of options.keys ?? this.expiry.expired(now)) {
+        if (purged.length >= options.limit) break;
+        const meta = this.index.get(key);
+        if (!meta || meta.expiresAt === null || meta.expiresAt > now) continue;
+        purged.push(key);
+      }
+      if (purged.length > 0) {
+        await this.appendFrames(purged.map((key) => this.encodeTombstone(key)));
+      }
+      return purged;
+    });
+  }
+
+  async getMany(keys: string[]): Promise<Array<StoredRecord | undefined>> {
+    const out: Array<StoredRecord | undefined> = [];
+    for (const key of keys) out.push(await this.get(key));
+    return out;
+  }
+
+  async putMany(records: StoredRecord[]): Promise<void> {
+    await this.ensureOpened();
+    if (records.length === 0) return;
+
+    await this.write(async () => {
+      // Later entries for the same key build on earlier ones in the batch
+      const pending = new Map<string, StoredRecord>();
+      const frames: EncodedFrame[] = [];
+      for (const record of records) {
+        const prev = pending.get(record.key) ?? this.liveEntry(record.key);
+        const stamped = stampRecord(record, prev, this.lastVersion(record.key));
+        pending.set(record.key, stamped);
+        frames.push(await this.encodeRecord(stamped));
+      }
+      await this.appendFrames(frames);
+    });
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    await this.ensureOpened();
+    await this.write(async () => {
+      const frames = Array.from(new Set(keys))
+        .filter((k) => this.index.has(k))
+        .map((k) => this.encodeTombstone(k));
+      if (frames.length === 0) return;
+      await this.appendFrames(frames);
+    });
+  }
+
+  /**
+   * Append all ops as one framed batch: the records are flagged FLAG_TXN and
+   * followed by a commit marker, in a single writev. Recovery applies a batch
+   * only when its marker is present, so a crash mid-write loses all of it.
+   */
+  async commit(ops: StorageWriteOp[]): Promise<void> {
+    await this.ensureOpened();
+    if (ops.length === 0) return;
+
+    await this.write(async () => {
+      type Staged = { createdAt: number; version?: number } | null;
+      const staged = new Map<string, Staged>();
+      // Versions the staged deletes end at
+      const ended = new Map<string, number>();
+      const frames: EncodedFrame[] = [];
+
+      for (const op of ops) {
+        const key = opKey(op);
+        const prev = staged.has(key)
+          ? (staged.get(key) ?? undefined)
+          : this.liveEntry(key);
+        checkWriteCondition(key, prev, op.condition);
+        const last = staged.has(key)
+          ? (staged.get(key)?.version ?? ended.get(key) ?? 0)
+          : this.lastVersion(key);
+
+        if (op.type === "put") {
+          const stamped = stampRecord(op.record, prev, last);
+          staged.set(key, stamped);
+          frames.push(await this.encodeRecord(stamped, FLAG_TXN));
+        } else if (op.type === "delete") {
+          staged.set(key, null);
+          ended.set(key, last);
+          frames.push(this.encodeTombstone(key, FLAG_TXN, last));
+        }
+      }
+
+      if (frames.length === 0) return;
+      frames.push(this.encodeCommitMarker());
+      await this.appendFrames(frames);
+    });
+  }
+
+  /**
+   * Read the record and append `fn`'s replacement under the write lock, so
+   * even an asynchronous `fn` needs no retries
+   */
+  async update(key: string, fn: StorageUpdate): Promise<void> {
+    await this.ensureOpened();
+    await this.write(async () => {
+      const prev = this.liveEntry(key);
+      const next = await fn(prev && (await this.readEntry(key, prev)));
+      if (!next) return;
+      const stamped = stampRecord(next, prev, this.lastVersion(key));
+      await this.appendFrames([await this.encodeRecord(stamped)]);
+    });
+  }
+
+  /**
+   * Version a key's record is at or, once deleted or expired, ended at
+   */
+  private lastVersion(key: string): number {
+    return this.index.get(key)?.version ?? this.retired.get(key) ?? 0;
+  }
+
+  /**
+   * Apply one index update of a segment's entries
+   */
+  private applyEntry(
+    key: string,
+    entry: IndexEntry | null,
+    ended: number | undefined,
+  ): void {
+    if (entry) {
+      this.index.set(key, entry);
+      this.expiry.set(key, entry.expiresAt);
+      this.retired.delete(key);
+    } else {
+      this.index.delete(key);
+      this.expiry.delete(key);
+      // A key that never had a record has no version to keep
+      if (ended) this.retired.set(key, ended);
+      else this.retired.delete(key);
+    }
+  }
+
+  /**
+   * Index entry for a key, ignoring expired records
+   */
+  private liveEntry(key: string) {
+    const meta = this.index.get(key);
+    if (!meta) return undefined;
+    if (meta.expiresAt && meta.expiresAt <= nowMs()) return undefined;
+    return meta;
+  }
+
+  /**
+   * Run a write under the lock; with "always" durability, resolve only
+   * once it has been fsynced
+   */
+  private async write<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.readOnly) throw new KVReadOnlyError(this.dir);
+    const result = await this.withWriteLock(fn);
+    if (this.durability === "always") await this.flush();
+    return result;
+  }
+
+  /**
+   * Make every write that completed before this call durable. Calls made
+   * while a flush is waiting to start join it, so a burst of writers pays
+   * for one fsync.
+   */
+  async flush(): Promise<void> {
+    await this.ensureOpened();
+    if (this.readOnly) return;
+    if (this.pendingFlush) return this.pendingFlush;
+
+    const flush = this.lastFlush.then(() => {
+      this.pendingFlush = null;
+      // Under the lock, so the active segment cannot rotate or be closed
+      // while it is being synced
+      return this.withWriteLock(async () => {
+        const hub = this.hub!;
+        if (!hub.unsynced || this.activeFd === null) return;
+        hub.unsynced = false;
+        await this.fsFsync(this.activeFd);
+      });
+    });
+    this.pendingFlush = flush;
+    this.lastFlush = flush.catch(() => undefined);
+    return flush;
+  }
+
+  /**
+   * Run `fn` after all previously queued writes on this directory have settled
+   */
+  private withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    const hub = this.hub!;
+    const run = hub.writeLock.then(fn);
+    hub.writeLock = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    return this.feed.subscribe(listener);
+  }
+
+  /**
+   * A namespace is a separate log in a subdirectory of this one
+   */
+  namespace(name: string): StorageBackend {
+    let ns = this.namespaces.get(name);
+    if (!ns) {
+      // Positions belong to one log; a namespace has a log of its own
+      if (this.asOf !== null && typeof this.asOf !== "number") {
+        throw new Error(
+          "Namespaces of a view as of a log position can't be opened; open the view as of a time instead",
+        );
+      }
+      ns = new NodeFileSystemStorageBackend({
+        ...this.opts,
+        dir: `${this.dir}/namespaces/${name}`,
+        segmentMaxBytes: this.segmentMaxBytes,
+      });
+      this.namespaces.set(name, ns);
+    }
+    return ns;
+  }
+
+  /**
+   * Adopt an append made by another backend on the same directory
+   */
+  private applyPeerAppend(notice: AppendNotice): void {
+    for (const [key, entry, ended] of notice.entries) {
+      this.applyEntry(key, entry, ended);
+    }
+
+    if (notice.fileId > this.activeId) {
+      // The peer rotated; follow it to the new active segment
+      if (this.activeFd !== null) fs!.closeSync(this.activeFd);
+      const p = path!.join(this.dir, this.pad6(notice.fileId) + ".kvlog");
+      this.activeFd = fs!.openSync(p, "a+", 0o600);
+      this.activeId = notice.fileId;
+      this.activeEntries = [];
+    }
+    if (notice.fileId === this.activeId) {
+      this.activeOffset = notice.end;
+      this.activeSize = notice.end;
+      this.activeEntries.push(...notice.entries);
+    }
+
+    this.feed.emit(notice.changes);
+  }
+
+  /**
+   * Serialize a record into header + key + value buffers
+   */
+  private async encodeRecord(
+    record: StoredRecord,
+    extraFlags = 0,
+    source?: SpooledValue,
+  ): Promise<EncodedFrame> {
+    const keyBuf = Buffer.from(record.key, "utf8");
+    let valBuf: Buffer;
+
+    if (source) valBuf = Buffer.alloc(0);
+    else if (record.encoding === "text")
+      valBuf = Buffer.from(record.value as string, "utf8");
+    else if (record.encoding === "json" || record.encoding === "clone")
+      valBuf = Buffer.from(JSON.stringify(record.value), "utf8");
+    else {
+      const blob = record.value as Blob;
+      valBuf = Buffer.from(await blob.arrayBuffer());
+    }
+
+    const metaBuf = encodeMetadata(record.metadata);
+
+    // Pack flags: bit 0: tombstone, bits 1-4: encoding
+    const encodingMap = { text: 0, json: 1, clone: 2, binary: 3 };
+    const payload = [keyBuf, metaBuf, valBuf];
+    const valLen = source?.size ?? valBuf.length;
+    assertValueSize(valLen);
+    const header = encodeHeader(
+      {
+        flags: (encodingMap[record.encoding] << 1) | extraFlags,
+        keyLen: keyBuf.length,
+        metaLen: metaBuf.length,
+        valLen,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        expiresAt: record.expiresAt,
+        version: record.version ?? 1,
+      },
+      payload,
+      source,
+    );
+
+    return {
+      buffers: [header, ...payload],
+      size: HEADER_SIZE + keyBuf.length + metaBuf.length + valLen,
+      record,
+      source,
+    };
+  }
+
+  /**
+   * Serialize a tombstone (header + key, no value). Its version is the one
+   * the key's record ended at.
+   */
+  private encodeTombstone(
+    key: string,
+    extraFlags = 0,
+    version = this.lastVersion(key),
+  ): EncodedFrame {
+    const keyBuf = Buffer.from(key, "utf8");
+    const now = nowMs();
+    const header = encodeHeader(
+      {
+        flags: FLAG_TOMBSTONE | extraFlags, // bit 0: tombstone
+        keyLen: keyBuf.length,
+        metaLen: 0,
+        valLen: 0,
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: null,
+        version,
+      },
+      [keyBuf],
+    );
+
+    return {
+      buffers: [header, keyBuf],
+      size: HEADER_SIZE + keyBuf.length,
+      key,
+      version,
+    };
+  }
 
-  constructor(opts?: { dbName?: string; dir?: string }) {
-    // Use dbName as the directory name if dir is not provided
-    this.dir = opts?.dir || opts?.dbName || "kv-data";
+  /**
+   * Serialize the marker that closes a framed batch (no key, no value)
+   */
+  private encodeCommitMarker(): EncodedFrame {
+    const now = nowMs();
+    const header = encodeHeader(
+      {
+        flags: FLAG_TXN_COMMIT,
+        keyLen: 0,
+        metaLen: 0,
+        valLen: 0,
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: null,
+        version: 0,
+      },
+      [],
+    );
+
+    return { buffers: [header], size: HEADER_SIZE };
   }
 
-  private async ensureOpened() {
-    if (this.opened) return;
-    await ensureNode();
+  /**
+   * Append frames to the active segment with a single writev and update the index.
+   * A batch is never split across segments: we rotate up front if it won't fit.
+   */
+  private async appendFrames(frames: EncodedFrame[]): Promise<void> {
+    const totalLen = frames.reduce((n, f) => n + f.size, 0);
+
+    if (
+      this.activeSize > 0 &&
+      this.activeSize + totalLen > this.segmentMaxBytes
+    ) {
+      await this.rotate();
+      // Not awaited: compaction takes the write lock we are holding
+      this.compactInBackground();
+    }
+
+    const baseOffset = this.activeOffset;
+    let buffers: Buffer[] = [];
+    for (const frame of frames) {
+      buffers.push(...frame.buffers);
+      if (!frame.source) continue;
+      // A spooled value follows its header, key and metadata
+      await this.fsWritev(this.activeFd!, buffers);
+      buffers = [];
+      const src = fs!.openSync(frame.source.path, "r");
+      try {
+        await this.copyRange(src, 0, frame.source.size, this.activeFd!);
+      } finally {
+        fs!.closeSync(src);
+      }
+    }
+    if (buffers.length > 0) await this.fsWritev(this.activeFd!, buffers);
+
+    this.activeOffset += totalLen;
+    this.activeSize += totalLen;
+    this.hub!.unsynced = true;
+
+    const entries: AppendNotice["entries"] = [];
+    const changes: StorageChange[] = [];
+    let offset = baseOffset;
+    for (const frame of frames) {
+      if (frame.record) {
+        const entry: IndexEntry = {
+          fileId: this.activeId,
+          offset,
+          size: frame.size,
+          ts: frame.record.updatedAt,
+          createdAt: frame.record.createdAt,
+          version: frame.record.version ?? 1,
+          expiresAt: frame.record.expiresAt,
+          metadata: frame.record.metadata,
+        };
+        this.applyEntry(frame.record.key, entry, undefined);
+        entries.push([frame.record.key, entry]);
+        changes.push(describeChange(frame.record.key, undefined, entry)!);
+      } else if (frame.key !== undefined) {
+        const change = describeChange(
+          frame.key,
+          this.index.get(frame.key),
+          null,
+        );
+        if (change) changes.push(change);
+        this.applyEntry(frame.key, null, frame.version);
+        entries.push([frame.key, null, frame.version]);
+      }
+      offset += frame.size;
+    }
 
-    if (!path!.isAbsolute(this.dir)) {
-      this.dir = path!.join(process.cwd(), this.dir);
+    this.activeEntries.push(...entries);
+    const notice = {
+      fileId: this.activeId,
+      end: this.activeOffset,
+      entries,
+      changes,
+    };
+    this.feed.emit(changes);
+    for (const peer of this.hub!.members) {
+      if (peer !== this) peer.applyPeerAppend(notice);
     }
 
-    await fsp!.mkdir(this.dir, { recursive: true });
+    // A streamed value can fill a segment by itself. Seal it right away so
+    // the next open reads its hint rather than scanning the whole value.
+    if (
+      frames.some((f) => f.source) &&
+      this.activeSize >= this.segmentMaxBytes
+    ) {
+      await this.rotate();
+    }
+  }
 
+  /**
+   * Segment count, on-disk size and space amplification of the store
+   */
+  async stats(): Promise<NodeStorageStats> {
+    await this.ensureOpened();
     const segments = await this.listSegments();
-    if (segments.length === 0) {
-      await this.openActiveForAppend(1);
-    } else {
-      await this.recoverIndex(segments);
-      const newest = segments[segments.length - 1];
-      if (!newest) return; // Should not happen given segments.length > 0
-      this.activeId = newest.id;
-      await this.openActiveForAppend(this.activeId);
-
-      const st = await fsp!.stat(
-        path!.join(this.dir, this.pad6(this.activeId) + ".kvlog"),
-      );
-      this.activeSize = st.size;
-      this.activeOffset = st.size;
+    const totalBytes = await this.segmentBytes(segments);
+    const liveBytes = this.liveBytes(() => true);
+    return {
+      segments: segments.length,
+      totalBytes,
+      liveBytes,
+      spaceAmplification: totalBytes / Math.max(liveBytes, 1),
+    };
+  }
+
+  /**
+   * Rewrite all sealed segments keeping only live records, then swap them
+   * in and delete the old files. Writes continue while records are copied;
+   * only the swap itself takes the write lock.
+   * @returns Stats after compaction
+   */
+  async compact(): Promise<NodeStorageStats> {
+    await this.ensureOpened();
+    const hub = this.hub!;
+    if (!hub.compacting && !this.readOnly) {
+      hub.compacting = this.runCompaction().finally(() => {
+        hub.compacting = null;
+      });
+    }
+    await hub.compacting;
+    return this.stats();
+  }
 
-      if (this.activeSize >= this.segmentMaxBytes) {
-        await this.rotate();
+  /**
+   * Where the log ends now. Open the store with this as `asOf` later to see
+   * it as it is at this moment.
+   */
+  async logPosition(): Promise<NodeLogPosition> {
+    await this.ensureOpened();
+    return this.withWriteLock(async () => ({
+      segment: this.activeId,
+      offset: this.activeOffset,
+    }));
+  }
+
+  /**
+   * Write a copy of the store, as of the moment of the call, to
+   * `targetDir`, which must be empty or not exist. Writes go on meanwhile.
+   * Sealed segments are hard-linked where the file system allows and
+   * copied otherwise; the active segment is copied up to its last write.
+   * Namespaces are included, each captured at its own moment.
+   */
+  async snapshot(targetDir: string): Promise<void> {
+    await this.ensureOpened();
+    const target = path!.resolve(targetDir);
+    await ensureEmptyDir(target);
+
+    const files = await this.capture(target);
+    try {
+      for (const file of files) {
+        const out = fs!.openSync(path!.join(target, file.name), "wx", 0o600);
+        try {
+          await this.copyRange(file.fd, 0, file.size, out);
+          await this.fsFsync(out);
+        } finally {
+          fs!.closeSync(out);
+        }
       }
+    } finally {
+      for (const file of files) fs!.closeSync(file.fd);
+    }
+
+    for (const name of await this.namespaceNames()) {
+      const ns = this.namespace(name) as NodeFileSystemStorageBackend;
+      await ns.snapshot(path!.join(target, "namespaces", name));
     }
-    this.opened = true;
   }
 
-  async get(key: string): Promise<StoredRecord | undefined> {
+  /**
+   * Write a copy of the store, as snapshot() would, to `stream` as a tar
+   * archive. Restore it with NodeFileSystemStorageBackend.restore().
+   */
+  async backup(stream: WritableStream<Uint8Array>): Promise<void> {
     await this.ensureOpened();
-    const meta = this.index.get(key);
-    if (!meta) return undefined;
+    const writer = stream.getWriter();
+    try {
+      await this.writeArchive(writer, "");
+      await writer.write(tarEnd());
+      await writer.close();
+    } catch (e) {
+      await writer.abort(e).catch(() => undefined);
+      throw e;
+    }
+  }
 
-    // Check expiration
-    if (meta.expiresAt && meta.expiresAt <= nowMs()) {
-      // Lazy delete
-      void this.delete(key);
-      return undefined;
+  private async writeArchive(
+    writer: WritableStreamDefaultWriter<Uint8Array>,
+    prefix: string,
+  ): Promise<void> {
+    const files = await this.capture();
+    const now = Date.now();
+    try {
+      for (const file of files) {
+        await writer.write(tarHeader(prefix + file.name, file.size, now));
+        for await (const chunk of this.readChunks(file.fd, 0, file.size)) {
+          await writer.write(chunk);
+        }
+        await writer.write(tarPadding(file.size));
+      }
+    } finally {
+      for (const file of files) fs!.closeSync(file.fd);
     }
 
-    const fd = await this.getReadFd(meta.fileId);
+    for (const name of await this.namespaceNames()) {
+      const ns = this.namespace(name) as NodeFileSystemStorageBackend;
+      await ns.ensureOpened();
+      await ns.writeArchive(writer, `${prefix}namespaces/${name}/`);
+    }
+  }
 
-    // Read header
-    const header = Buffer.alloc(HEADER_SIZE);
-    await this.fsRead(fd, header, 0, HEADER_SIZE, meta.offset);
+  /**
+   * Write the records this backend sees to a new store in `targetDir`,
+   * which must be empty or not exist; on a view opened `asOf` an earlier
+   * point, that is the store as it was then. Records keep their times,
+   * versions and metadata. Namespaces are included when they can be
+   * opened (see `namespace()`).
+   */
+  async exportTo(targetDir: string): Promise<void> {
+    await this.ensureOpened();
+    const target = path!.resolve(targetDir);
+    await ensureEmptyDir(target);
+
+    const out = new NodeFileSystemStorageBackend({
+      dir: target,
+      segmentMaxBytes: this.segmentMaxBytes,
+      compactThreshold: 0,
+      durability: "none",
+    });
+    try {
+      await out.ensureOpened();
+      for (const key of Array.from(this.index.keys())) {
+        const stored = await this.getStream(key);
+        if (!stored) continue;
+        const source = stored.stream && (await out.spool(stored.stream));
+        try {
+          await out.write(async () => {
+            const frame = await out.encodeRecord(
+              stored.record,
+              0,
+              source ?? undefined,
+            );
+            await out.appendFrames([frame]);
+          });
+        } finally {
+          if (source) await fsp!.rm(source.path, { force: true });
+        }
+      }
+      // Deleted keys go on counting versions from where they ended
+      const ended = Array.from(this.retired, ([key, version]) =>
+        out.encodeTombstone(key, 0, version),
+      );
+      if (ended.length > 0) await out.write(() => out.appendFrames(ended));
+      await out.flush();
+    } finally {
+      await out.close();
+    }
 
-    const keyLen = header.readUInt16LE(6);
-    const valLen = header.readUInt32LE(8);
-    const encodingFlag = (header[5] ?? 0) >> 1; // bits 1-4 for encoding
+    if (this.asOf !== null && typeof this.asOf !== "number") return;
+    for (const name of await this.namespaceNames()) {
+      const ns = this.namespace(name) as NodeFileSystemStorageBackend;
+      await ns.exportTo(path!.join(target, "namespaces", name));
+    }
+  }
 
-    const payloadLen = keyLen + valLen;
-    const payload = Buffer.alloc(payloadLen);
-    await this.fsRead(fd, payload, 0, payloadLen, meta.offset + HEADER_SIZE);
+  /**
+   * Recreate a store in `dir`, which must be empty or not exist, from a
+   * snapshot directory or a backup stream. Files are gathered in a staging
+   * directory beside it and moved into place once all are there.
+   */
+  static async restore(
+    source: string | ReadableStream<Uint8Array>,
+    dir: string,
+  ): Promise<void> {
+    await ensureNode();
+    const target = path!.resolve(dir);
+    await ensureEmptyDir(target);
+    const staging = `${target}.restore-${crypto!.randomUUID()}`;
+    await fsp!.mkdir(staging, { recursive: true });
+
+    // Path in the staging directory for a file named in the source
+    const place = async (name: string) => {
+      if (!STORE_FILE.test(name)) {
+        throw new Error(`Unexpected file in store backup: ${name}`);
+      }
+      const file = path!.join(staging, name);
+      await fsp!.mkdir(path!.dirname(file), { recursive: true });
+      return file;
+    };
 
-    const valueBuf = payload.subarray(keyLen);
+    try {
+      if (typeof source === "string") {
+        const from = path!.resolve(source);
+        for (const entry of await fsp!.readdir(from, { recursive: true })) {
+          const name = entry.split(path!.sep).join("/");
+          // The snapshot may have been opened since: skip its LOCK and spool
+          if (!STORE_FILE.test(name)) continue;
+          await fsp!.copyFile(
+            path!.join(from, entry),
+            await place(name),
+            fs!.constants.COPYFILE_EXCL,
+          );
+        }
+      } else {
+        await readTar(source, async (name) => {
+          const fh = await fsp!.open(await place(name), "wx", 0o600);
+          return {
+            write: async (chunk) => {
+              await fh.write(chunk);
+            },
+            close: async () => {
+              await fh.sync();
+              await fh.close();
+            },
+          };
+        });
+      }
+      await fsp!.rm(target, { recursive: true, force: true });
+      await fsp!.rename(staging, target);
+    } catch (e) {
+      await fsp!.rm(staging, { recursive: true, force: true });
+      throw e;
+    }
+  }
 
-    // Map encoding flag back to StoredEncoding
-    const encodings: StoredRecord["encoding"][] = [
-      "text",
-      "json",
-      "clone",
-      "binary",
-    ];
-    const encoding = encodings[encodingFlag] || "binary";
+  /**
+   * Take hold of the files that make up the store right now: under the
+   * write lock, sealed segments and their hints are hard-linked into
+   * `linkInto` when given, and the rest opened. Compaction replaces files
+   * rather than changing them, so what is held stays as captured. The
+   * active segment only grows; it is captured up to its last write.
+   */
+  private async capture(linkInto?: string): Promise<CapturedFile[]> {
+    if (this.asOf !== null) {
+      // The files hold everything written since, too
+      throw new Error(
+        "A view as of an earlier point can't be copied file by file; use exportTo()",
+      );
+    }
+    return this.withWriteLock(async () => {
+      const files: CapturedFile[] = [];
+      try {
+        for (const seg of await this.listSegments()) {
+          // A reader may list segments it has not caught up with yet
+          if (seg.id > this.activeId) continue;
+          const name = path!.basename(seg.path);
+          if (seg.id === this.activeId) {
+            const fd = fs!.openSync(seg.path, "r");
+            files.push({ name, fd, size: this.activeOffset });
+            continue;
+          }
 
-    let value: any;
-    if (encoding === "text") value = valueBuf.toString("utf8");
-    else if (encoding === "json") value = JSON.parse(valueBuf.toString("utf8"));
-    else if (encoding === "clone")
-      value = JSON.parse(valueBuf.toString("utf8")); // Simplified for POC
-    else value = new Blob([valueBuf]);
+          for (const file of [seg.path, this.hintPath(seg.id)]) {
+            if (!fs!.existsSync(file)) continue;
+            const name = path!.basename(file);
+            if (linkInto) {
+              try {
+                fs!.linkSync(file, path!.join(linkInto, name));
+                continue;
+              } catch {
+                // Another file system, or no hard links there: copy it
+              }
+            }
+            const fd = fs!.openSync(file, "r");
+            files.push({ name, fd, size: fs!.fstatSync(fd).size });
+          }
+        }
+      } catch (e) {
+        for (const file of files) fs!.closeSync(file.fd);
+        throw e;
+      }
+      return files;
+    });
+  }
 
-    return {
-      key,
-      value,
-      encoding,
-      expiresAt: meta.expiresAt,
-      metadata: meta.metadata,
-      createdAt: meta.ts, // Approximate
-      updatedAt: meta.ts,
-    };
+  /**
+   * Namespaces with a directory in this store
+   */
+  private async namespaceNames(): Promise<string[]> {
+    try {
+      const entries = await fsp!.readdir(path!.join(this.dir, "namespaces"), {
+        withFileTypes: true,
+      });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw e;
+    }
   }
 
-  async put(record: StoredRecord): Promise<void> {
+  /**
+   * Check every record against its checksum (older frames without one:
+   * that they parse) and quarantine damaged ranges. Their bytes are copied
+   * to `quarantine/` and keys whose current record was in them are
+   * deleted, so reads no longer trip over them. Writes wait while it runs;
+   * a read-only instance only reports.
+   */
+  async verify(): Promise<StorageVerifyReport> {
     await this.ensureOpened();
+    return this.withWriteLock(async () => {
+      const located = new Map<number, Array<[string, number]>>();
+      for (const [key, entry] of this.index) {
+        let list = located.get(entry.fileId);
+        if (!list) located.set(entry.fileId, (list = []));
+        list.push([key, entry.offset]);
+      }
 
-    const keyBuf = Buffer.from(record.key, "utf8");
-    let valBuf: Buffer;
+      const report: StorageVerifyReport = {
+        segments: 0,
+        records: 0,
+        corrupt: [],
+      };
+      for (const seg of await this.listSegments()) {
+        const { frames, corrupt } = await this.scanFile(
+          seg.path,
+          0,
+          seg.id === this.activeId ? this.activeOffset : undefined,
+        );
+        report.segments++;
+        report.records += frames.filter(
+          (f) => !(f.header.flags & FLAG_TXN_COMMIT),
+        ).length;
+
+        for (const { start, end } of corrupt) {
+          const keys = (located.get(seg.id) ?? [])
+            .filter(([, offset]) => offset >= start && offset < end)
+            .map(([key]) => key);
+          report.corrupt.push({ segment: seg.id, start, end, keys });
+        }
+      }
 
-    if (record.encoding === "text")
-      valBuf = Buffer.from(record.value as string, "utf8");
-    else if (record.encoding === "json" || record.encoding === "clone")
-      valBuf = Buffer.from(JSON.stringify(record.value), "utf8");
-    else {
-      const blob = record.value as Blob;
-      valBuf = Buffer.from(await blob.arrayBuffer());
+      if (report.corrupt.length > 0 && !this.readOnly) {
+        await this.quarantine(report.corrupt);
+      }
+      return report;
+    });
+  }
+
+  /**
+   * Copy a frame too large to buffer into a compaction output a chunk at a
+   * time, checking its checksum first. Only v3 frames are copied this way;
+   * batch flags are cleared as upgradeFrame does.
+   * @returns The entry for its new location, or null when the frame is
+   * damaged or older than v3
+   */
+  private async copyLargeFrame(
+    src: number,
+    entry: IndexEntry,
+    outputFor: (size: number) => { id: number; fd: number; size: number },
+  ): Promise<IndexEntry | null> {
+    const head = Buffer.alloc(HEADER_SIZE);
+    await this.fsRead(src, head, 0, HEADER_SIZE, entry.offset);
+    const header = parseHeader(head);
+    if (header?.checksum == null) return null;
+
+    const rest = {
+      crc: await this.checksumRange(
+        src,
+        entry.offset + HEADER_SIZE,
+        entry.size - HEADER_SIZE,
+      ),
+      size: entry.size - HEADER_SIZE,
+    };
+    const crc = crc32cCombine(
+      crc32c(head.subarray(0, HEADER_SIZE_V2)),
+      rest.crc,
+      rest.size,
+    );
+    if (crc !== header.checksum) return null;
+
+    const out = outputFor(entry.size);
+    const flags = header.flags & ~(FLAG_TXN | FLAG_TXN_COMMIT);
+    await this.fsWritev(out.fd, [restampHeader(head, flags, rest)]);
+    await this.copyRange(src, entry.offset + HEADER_SIZE, rest.size, out.fd);
+    const moved = { ...entry, fileId: out.id, offset: out.size };
+    out.size += entry.size;
+    return moved;
+  }
+
+  /**
+   * Start maybeCompact without waiting for it. close() waits for it, and
+   * a failure goes to `onCompactionError`.
+   */
+  private compactInBackground(): void {
+    if (this.backgroundCompaction) return;
+    this.backgroundCompaction = this.maybeCompact()
+      .catch((e) => {
+        const report = this.opts?.onCompactionError;
+        if (report) report(e);
+        else console.error("[idb-repo] compaction failed", e);
+      })
+      .catch((e) => {
+        console.error("[idb-repo] onCompactionError failed", e);
+      })
+      .finally(() => {
+        this.backgroundCompaction = null;
+      });
+  }
+
+  /**
+   * Compact when sealed segments exceed `compactThreshold` x their live data
+   */
+  private async maybeCompact(): Promise<void> {
+    if (this.compactThreshold <= 0 || this.hub!.compacting) return;
+    const sealedBelow = this.activeId;
+    const sealed = (await this.listSegments()).filter(
+      (s) => s.id < sealedBelow,
+    );
+    if (sealed.length === 0) return;
+
+    const total = await this.segmentBytes(sealed);
+    const live =
+      this.liveBytes((e) => e.fileId < sealedBelow) + this.retiredBytes();
+    if (total >= this.compactThreshold * Math.max(live, 1)) {
+      await this.compact();
     }
+  }
 
-    const keyLen = keyBuf.length;
-    const valLen = valBuf.length;
-    const totalLen = HEADER_SIZE + keyLen + valLen;
+  private async segmentBytes(
+    segments: Array<{ id: number; path: string }>,
+  ): Promise<number> {
+    let total = 0;
+    for (const seg of segments) total += (await fsp!.stat(seg.path)).size;
+    return total;
+  }
 
-    if (this.activeSize + totalLen > this.segmentMaxBytes) {
-      await this.rotate();
+  private liveBytes(include: (entry: IndexEntry) => boolean): number {
+    const now = nowMs();
+    let total = 0;
+    for (const entry of this.index.values()) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) continue;
+      if (include(entry)) total += entry.size;
     }
+    return total;
+  }
 
-    const header = Buffer.alloc(HEADER_SIZE);
-    header.writeUInt32LE(MAGIC, 0);
-    header[4] = VERSION;
+  /**
+   * Size of the tombstones compaction keeps for deleted keys
+   */
+  private retiredBytes(): number {
+    let total = 0;
+    for (const key of this.retired.keys()) {
+      total += HEADER_SIZE + Buffer.byteLength(key, "utf8");
+    }
+    return total;
+  }
 
-    // Pack flags: bit 0: tombstone, bits 1-4: encoding
-    const encodingMap = { text: 0, json: 1, clone: 2, binary: 3 };
-    const encodingFlag = encodingMap[record.encoding] << 1;
-    header[5] = encodingFlag;
+  private async runCompaction(): Promise<void> {
+    // Sealed segments always form a prefix of the log, so tombstones in
+    // them can be dropped together with the records they shadow. Only the
+    // version each deleted key ended at is kept, in one fresh tombstone.
+    const sealedBelow = this.activeId;
+    const inputs = (await this.listSegments()).filter(
+      (s) => s.id < sealedBelow,
+    );
+    if (inputs.length === 0) return;
+
+    const now = nowMs();
+    const snapshot = Array.from(this.index).filter(
+      ([, e]) => e.fileId < sealedBelow,
+    );
+    const retired = Array.from(this.retired);
+
+    type Output = { id: number; fd: number; size: number };
+    const outputs: Output[] = [];
+    const moves: Array<[string, IndexEntry, IndexEntry]> = [];
+    const expired: Array<[string, IndexEntry]> = [];
+    // Tombstones written to each output
+    const tombstones = new Map<number, SegmentEntries>();
+    const readers = new Map<number, number>();
+    const damaged: StorageCorruptRange[] = [];
+    const damagedBytes: Buffer[] = [];
+
+    // The output a frame of `size` bytes goes to. Outputs reuse input ids,
+    // so never open more than there are inputs.
+    const outputFor = (size: number): Output => {
+      let out = outputs[outputs.length - 1];
+      if (
+        !out ||
+        (out.size > 0 &&
+          out.size + size > this.segmentMaxBytes &&
+          outputs.length < inputs.length)
+      ) {
+        const id = inputs[outputs.length]!.id;
+        const fd = fs!.openSync(this.segmentPath(id) + ".compact", "w", 0o600);
+        out = { id, fd, size: 0 };
+        outputs.push(out);
+      }
+      return out;
+    };
 
-    header.writeUInt16LE(keyLen, 6);
-    header.writeUInt32LE(valLen, 8);
-    header.writeUInt32LE(record.updatedAt >>> 0, 12); // ts
+    try {
+      for (const [key, entry] of snapshot) {
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          expired.push([key, entry]);
+          continue;
+        }
 
-    // Write expiresAt (8 bytes starting at index 16)
-    if (record.expiresAt) {
-      header.writeDoubleLE(record.expiresAt, 16);
-    } else {
-      header.writeDoubleLE(0, 16);
-    }
+        let src = readers.get(entry.fileId);
+        if (src === undefined) {
+          src = fs!.openSync(this.segmentPath(entry.fileId), "r");
+          readers.set(entry.fileId, src);
+        }
 
-    const writeOffset = this.activeOffset;
-    await this.fsWritev(this.activeFd!, [header, keyBuf, valBuf]);
+        if (entry.size > STREAM_CHUNK) {
+          const copied = await this.copyLargeFrame(src, entry, outputFor);
+          if (copied) {
+            moves.push([key, entry, copied]);
+            continue;
+          }
+          // Damaged or an older frame: handled whole, below
+        }
 
-    this.activeOffset += totalLen;
-    this.activeSize += totalLen;
+        const stored = Buffer.alloc(entry.size);
+        await this.fsRead(src, stored, 0, entry.size, entry.offset);
+        const found = frameAt(stored, 0);
+        if (!found) {
+          // Copying would give the damaged bytes a fresh checksum
+          damaged.push({
+            segment: entry.fileId,
+            start: entry.offset,
+            end: entry.offset + entry.size,
+            keys: [key],
+          });
+          damagedBytes.push(stored);
+          continue;
+        }
+        const frame = upgradeFrame(stored, found.header, entry);
+        const out = outputFor(frame.length);
+        await this.fsWritev(out.fd, [frame]);
+
+        moves.push([
+          key,
+          entry,
+          { ...entry, fileId: out.id, offset: out.size, size: frame.length },
+        ]);
+        out.size += frame.length;
+      }
 
-    this.index.set(record.key, {
-      fileId: this.activeId,
-      offset: writeOffset,
-      size: totalLen,
-      ts: record.updatedAt,
-      expiresAt: record.expiresAt,
-      metadata: record.metadata,
+      const ended = [
+        ...retired,
+        ...expired.map(([key, entry]): [string, number] => [
+          key,
+          entry.version,
+        ]),
+      ];
+      for (const [key, version] of ended) {
+        const frame = this.encodeTombstone(key, 0, version);
+        const out = outputFor(frame.size);
+        await this.fsWritev(out.fd, frame.buffers);
+        out.size += frame.size;
+        let list = tombstones.get(out.id);
+        if (!list) tombstones.set(out.id, (list = []));
+        list.push([key, null, version]);
+      }
+      for (const out of outputs) fs!.fsyncSync(out.fd);
+    } finally {
+      for (const out of outputs) fs!.closeSync(out.fd);
+      for (const fd of readers.values()) fs!.closeSync(fd);
+    }
+
+    const manifest: CompactionManifest = {
+      inputs: inputs.map((s) => s.id),
+      outputs: outputs.map((o) => o.id),
+    };
+
+    await this.withWriteLock(async () => {
+      if (damaged.length > 0) await this.quarantine(damaged, damagedBytes);
+      await this.writeManifest(manifest);
+
+      // From here on everything is synchronous, so no read or write can
+      // observe the directory or the index half-swapped
+      this.swapCompactedFiles(manifest);
+      const notice = {
+        inputs: manifest.inputs,
+        moves: moves.map(([key, from, to]) => ({ key, from, to })),
+        expired: expired.map(([key, from]) => ({ key, from, to: null })),
+      };
+      this.applyCompaction(notice);
+      for (const peer of this.hub!.members) {
+        if (peer !== this) peer.applyCompaction(notice);
+      }
     });
+
+    for (const out of outputs) {
+      await this.writeHint(out.id, [
+        ...moves
+          .filter(([, , to]) => to.fileId === out.id)
+          .map(([key, , to]): [string, IndexEntry] => [key, to]),
+        ...(tombstones.get(out.id) ?? []),
+      ]);
+    }
   }
 
-  async delete(key: string): Promise<void> {
-    await this.ensureOpened();
-    const meta = this.index.get(key);
-    if (!meta) return;
+  /**
+   * Point index entries at their compacted copies and drop expired ones.
+   * Entries changed since the snapshot keep their newer location.
+   */
+  private applyCompaction(notice: {
+    inputs: number[];
+    moves: Array<{ key: string; from: IndexEntry; to: IndexEntry | null }>;
+    expired: Array<{ key: string; from: IndexEntry; to: IndexEntry | null }>;
+  }): void {
+    const changes: StorageChange[] = [];
+    for (const { key, from, to } of [...notice.moves, ...notice.expired]) {
+      const cur = this.index.get(key);
+      if (!cur || cur.fileId !== from.fileId || cur.offset !== from.offset) {
+        continue;
+      }
+      if (to) {
+        this.index.set(key, { ...cur, fileId: to.fileId, offset: to.offset });
+      } else {
+        this.applyEntry(key, null, cur.version);
+        const change = describeChange(key, cur, null);
+        if (change) changes.push(change);
+      }
+    }
 
-    // Append a tombstone record
-    const keyBuf = Buffer.from(key, "utf8");
-    const keyLen = keyBuf.length;
-    const totalLen = HEADER_SIZE + keyLen;
+    this.retireReadFds(notice.inputs);
 
-    if (this.activeSize + totalLen > this.segmentMaxBytes) {
-      await this.rotate();
+    this.feed.emit(changes);
+  }
+
+  private async writeManifest(manifest: CompactionManifest): Promise<void> {
+    const target = path!.join(this.dir, COMPACT_MANIFEST);
+    const fh = await fsp!.open(target + ".tmp", "w", 0o600);
+    try {
+      await fh.writeFile(JSON.stringify(manifest));
+      await fh.sync();
+    } finally {
+      await fh.close();
     }
+    await fsp!.rename(target + ".tmp", target);
+    this.fsyncDir();
+  }
 
-    const header = Buffer.alloc(HEADER_SIZE);
-    header.writeUInt32LE(MAGIC, 0);
-    header[4] = VERSION;
-    header[5] = FLAG_TOMBSTONE; // bit 0: tombstone
-    header.writeUInt16LE(keyLen, 6);
-    header.writeUInt32LE(0, 8); // valLen = 0
-    header.writeUInt32LE(nowMs() >>> 0, 12);
+  /**
+   * Move compacted segments into place and delete the leftover inputs.
+   * Idempotent, so recovery can re-run it after a crash mid-swap. The
+   * manifest goes only once the swap is durable.
+   */
+  private swapCompactedFiles(manifest: CompactionManifest): void {
+    // Hints describe the old files; outputs get new ones after the swap
+    for (const id of manifest.inputs) {
+      fs!.rmSync(this.hintPath(id), { force: true });
+    }
+    for (const id of manifest.outputs) {
+      const tmp = this.segmentPath(id) + ".compact";
+      if (fs!.existsSync(tmp)) fs!.renameSync(tmp, this.segmentPath(id));
+    }
+    for (const id of manifest.inputs) {
+      if (!manifest.outputs.includes(id)) {
+        fs!.rmSync(this.segmentPath(id), { force: true });
+      }
+    }
+    this.fsyncDir();
+    fs!.rmSync(path!.join(this.dir, COMPACT_MANIFEST), { force: true });
+  }
 
-    await this.fsWritev(this.activeFd!, [header, keyBuf]);
+  /**
+   * Roll forward a compaction whose manifest was written, and discard the
+   * partial output of one that was interrupted before that point
+   */
+  private async finishCompaction(): Promise<void> {
+    const manifestPath = path!.join(this.dir, COMPACT_MANIFEST);
+    if (fs!.existsSync(manifestPath)) {
+      const manifest = JSON.parse(
+        await fsp!.readFile(manifestPath, "utf8"),
+      ) as CompactionManifest;
+      this.swapCompactedFiles(manifest);
+    }
 
-    this.activeOffset += totalLen;
-    this.activeSize += totalLen;
+    for (const name of await fsp!.readdir(this.dir)) {
+      if (
+        name.endsWith(".kvlog.compact") ||
+        name.endsWith(".hint.tmp") ||
+        name === COMPACT_MANIFEST + ".tmp"
+      ) {
+        await fsp!.rm(path!.join(this.dir, name), { force: true });
+      }
+    }
+  }
 
-    this.index.delete(key);
+  private segmentPath(id: number): string {
+    return path!.join(this.dir, this.pad6(id) + ".kvlog");
   }
 
-  async list(options: KVListOptions): Promise<KVListResult> {
+  async list(options: StorageListOptions): Promise<StorageListResult> {
     await this.ensureOpened();
-    const prefix = options.prefix ?? "";
+    const scan = resolveScan(options);
+    const prefix = scan.prefix;
     const limit = Math.min(Math.max(1, options.limit ?? 1000), 10000);
-    const cursorRaw = options.cursor ?? null;
-
-    let after: string | null = null;
-    if (cursorRaw) {
-      const decoded = decodeCursor(cursorRaw);
-      if (decoded && decoded.prefix === prefix) after = decoded.after;
-    }
 
     const now = nowMs();
-    let keys = Array.from(this.index.keys())
-      .filter((k) => k.startsWith(prefix))
-      .sort();
-
-    if (after !== null) {
-      const idx = keys.findIndex((k) => k > after);
-      keys = idx >= 0 ? keys.slice(idx) : [];
-    }
 
     const resultKeys: KVListKey[] = [];
+    const records: StoredRecord[] | undefined = options.includeRecords
+      ? []
+      : undefined;
     let lastKey: string | null = null;
     let listComplete = true;
 
-    for (const key of keys) {
+    // Seek straight to the scan's range (and cursor) in scan order. Record
+    // reads below yield; the iterator picks up writes made meanwhile.
+    for (const [key, meta] of this.index.range(
+      scanBounds(scan),
+      scan.reverse,
+    )) {
+      if (!inScan(scan, key)) continue;
       if (resultKeys.length >= limit) {
         listComplete = false;
         break;
       }
+      if (meta.expiresAt && meta.expiresAt <= now) continue;
 
-      const meta = this.index.get(key)!;
-      if (meta.expiresAt && meta.expiresAt <= now) {
-        continue;
+      if (records) {
+        const record = await this.readEntry(key, meta);
+        if (!record) continue; // corrupt; quarantined
+        records.push(record);
       }
 
       const result: KVListKey = { name: key };
@@ -285,29 +2536,59 @@ export class NodeFileSystemStorageBackend implements StorageBackend {
 
     if (!listComplete && lastKey !== null) {
       const nextCursor = encodeCursor({ v: 1, prefix, after: lastKey });
-      return { keys: resultKeys, list_complete: false, cursor: nextCursor };
+      return {
+        keys: resultKeys,
+        list_complete: false,
+        cursor: nextCursor,
+        records,
+      };
     }
 
-    return { keys: resultKeys, list_complete: true };
+    return { keys: resultKeys, list_complete: true, records };
   }
 
   async close(): Promise<void> {
+    for (const ns of this.namespaces.values()) await ns.close();
+    this.namespaces.clear();
+    if (this.opening) await this.opening.catch(() => undefined);
     if (!this.opened) return;
 
+    const hub = this.hub!;
+    await this.backgroundCompaction;
+    if (this.fsyncTimer) clearInterval(this.fsyncTimer);
+    this.fsyncTimer = null;
+    if (this.durability !== "none") await this.flush();
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+    await this.withWriteLock(async () => {
+      hub.members.delete(this);
+      if (hub.members.size === 0 && dirHubs.get(this.dir) === hub) {
+        dirHubs.delete(this.dir);
+        if (hub.lock) this.releaseLock(hub.lock);
+      }
+    });
+    this.feed.clear();
+
     if (this.activeFd !== null) {
       fs!.closeSync(this.activeFd);
       this.activeFd = null;
     }
 
-    for (const entry of this.fdCache.values()) {
-      fs!.closeSync(entry.fd);
-    }
-    this.fdCache.clear();
+    this.retireReadFds(Array.from(this.fdCache.keys()));
     this.opened = false;
   }
 
   private async listSegments(): Promise<Array<{ id: number; path: string }>> {
-    const entries = await fsp!.readdir(this.dir, { withFileTypes: true });
+    let entries: import("node:fs").Dirent[];
+    try {
+      entries = await fsp!.readdir(this.dir, { withFileTypes: true });
+    } catch (e) {
+      // A reader may open a store nobody has written yet
+      if (this.readOnly && (e as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
     const segments: { id: number; path: string }[] = [];
 
     for (const e of entries) {
@@ -332,91 +2613,463 @@ export class NodeFileSystemStorageBackend implements StorageBackend {
 
   private async rotate() {
     if (this.activeFd !== null) {
+      // Sealed segments are always durable, whatever the durability setting
+      if (this.hub!.unsynced) await this.fsFsync(this.activeFd);
+      this.hub!.unsynced = false;
       fs!.closeSync(this.activeFd);
     }
+    await this.writeHint(this.activeId, this.activeEntries);
+    this.activeEntries = [];
     this.activeId++;
     await this.openActiveForAppend(this.activeId);
     this.activeSize = 0;
     this.activeOffset = 0;
   }
 
-  private async recoverIndex(segments: Array<{ id: number; path: string }>) {
-    for (const seg of segments) {
-      const fh = await fsp!.open(seg.path, "r");
-      const fd = fh.fd;
-      try {
-        const { size: fileSize } = await fh.stat();
-        let pos = 0;
-        const header = Buffer.alloc(HEADER_SIZE);
-
-        while (pos + HEADER_SIZE <= fileSize) {
-          const { bytesRead } = await fh.read(header, 0, HEADER_SIZE, pos);
-          if (bytesRead !== HEADER_SIZE) break;
-
-          const magic = header.readUInt32LE(0);
-          if (magic !== MAGIC) break;
-
-          const flags = header[5] ?? 0;
-          const keyLen = header.readUInt16LE(6);
-          const valLen = header.readUInt32LE(8);
-          const ts = header.readUInt32LE(12);
-          const expiresAt = header.readDoubleLE(16);
-
-          const total = HEADER_SIZE + keyLen + valLen;
-          if (pos + total > fileSize) break;
-
-          const keyBuf = Buffer.alloc(keyLen);
-          await fh.read(keyBuf, 0, keyLen, pos + HEADER_SIZE);
-          const keyStr = keyBuf.toString("utf8");
-
-          if (flags & FLAG_TOMBSTONE) {
-            this.index.delete(keyStr);
-          } else {
-            // TODO: Recover metadata if we want it in the index
-            // For now, metadata recovery from disk isn't implemented in this simple POC
-            this.index.set(keyStr, {
-              fileId: seg.id,
-              offset: pos,
-              size: total,
-              ts,
-              expiresAt: expiresAt || null,
-              metadata: null, // Lossy recovery for metadata in this simple version
-            });
-          }
-
-          pos += total;
+  /**
+   * Rebuild the index from hint files where they are valid and by scanning
+   * the remaining segments; hints are written for sealed segments that had
+   * to be scanned
+   * @returns The offset the active (last) segment was applied up to
+   */
+  private async recoverIndex(
+    segments: Array<{ id: number; path: string }>,
+  ): Promise<number> {
+    let end = 0;
+    const asOf = this.asOf;
+    for (let i = 0; i < segments.length; i++) {
+      const seg = segments[i]!;
+      const sealed = i < segments.length - 1;
+      if (asOf !== null && typeof asOf !== "number" && seg.id > asOf.segment) {
+        break;
+      }
+      if (this.pastAsOf) break;
+      // Hints hold no times for tombstones, and a view as of a position
+      // stops partway through its segment: those have to be scanned
+      const wholeSegment =
+        asOf === null || (typeof asOf !== "number" && seg.id < asOf.segment);
+      const hinted = sealed && wholeSegment ? await this.readHint(seg) : null;
+      if (hinted) {
+        for (const [key, entry, ended] of hinted) {
+          this.applyEntry(key, entry, ended);
         }
-      } finally {
-        await fh.close();
+        continue;
+      }
+
+      const scanned = await this.scanSegment(seg, !sealed);
+      if (!sealed) {
+        this.activeEntries = scanned.entries;
+        end = scanned.end;
+      } else if (!this.readOnly) {
+        await this.writeHint(seg.id, scanned.entries);
+      }
+    }
+    return end;
+  }
+
+  /**
+   * Replay one segment's records, from byte `from` on, into the index.
+   * Damaged records are skipped (see `verify()`); on the active segment a
+   * damaged tail is a torn write and is cut off (read-only: left alone,
+   * as it may be a write in progress). Changes are collected into
+   * `changes` when given.
+   * @returns The entries applied, in log order, and the offset up to
+   * which the segment was applied
+   */
+  private async scanSegment(
+    seg: { id: number; path: string },
+    active: boolean,
+    from = 0,
+    changes?: StorageChange[],
+  ): Promise<{ entries: SegmentEntries; end: number }> {
+    const applied: SegmentEntries = [];
+    const { frames, corrupt, size } = await this.scanFile(seg.path, from);
+    const asOf = this.asOf;
+    // Whether a frame was written by the point a view is opened as of.
+    // Writers stamp records before their appends are ordered, so times do
+    // not grow along the log: a view as of a time ends at the first frame
+    // stamped after it, as frames past that one may not have existed then.
+    const inView = (frame: ScannedFrame) => {
+      if (asOf === null) return true;
+      if (typeof asOf !== "number") {
+        return seg.id < asOf.segment || frame.offset < asOf.offset;
       }
+      if (frame.header.updatedAt > asOf) this.pastAsOf = true;
+      return !this.pastAsOf;
+    };
+
+    const apply = (frame: ScannedFrame) => {
+      const { header, key } = frame;
+      const prev = this.index.get(key);
+      let entry: IndexEntry | null = null;
+      let ended: number | undefined;
+      if (header.flags & FLAG_TOMBSTONE) {
+        // Tombstones written before they carried a version hold 0
+        ended = header.version || this.lastVersion(key);
+      } else {
+        // v1 headers carry no version; re-derive it by counting puts since
+        // the key's last tombstone.
+        entry = {
+          fileId: seg.id,
+          offset: frame.offset,
+          size: frame.size,
+          ts: header.updatedAt,
+          createdAt:
+            header.createdAt ?? (prev ? prev.createdAt : header.updatedAt),
+          version: header.version ?? this.lastVersion(key) + 1,
+          expiresAt: header.expiresAt,
+          metadata: frame.metadata,
+        };
+      }
+      this.applyEntry(key, entry, ended);
+      applied.push([key, entry, ended]);
+
+      const change = changes && describeChange(key, prev, entry);
+      if (change) changes!.push(change);
+    };
+
+    // Frames of a batch whose commit marker has not been read yet
+    let pendingTxn: ScannedFrame[] = [];
+    let nextCorrupt = 0;
+    for (const frame of frames) {
+      // A batch with damage inside it can never be applied whole
+      while (
+        nextCorrupt < corrupt.length &&
+        corrupt[nextCorrupt]!.start < frame.offset
+      ) {
+        pendingTxn = [];
+        nextCorrupt++;
+      }
+
+      const { flags } = frame.header;
+      if (flags & FLAG_TXN_COMMIT) {
+        // A batch belongs to the view when its commit does
+        if (inView(frame)) pendingTxn.forEach(apply);
+        pendingTxn = [];
+      } else if (flags & FLAG_TXN) {
+        pendingTxn.push(frame);
+      } else {
+        // A plain record after unterminated batch frames means that
+        // batch was torn by a crash: drop it.
+        pendingTxn = [];
+        if (inView(frame)) apply(frame);
+      }
+    }
+
+    // Cut an incomplete batch off the tail so later appends can't be
+    // mistaken for its continuation, and on the active segment cut off a
+    // partially written record
+    let cutAt = pendingTxn[0]?.offset ?? size;
+    const tail = corrupt[corrupt.length - 1];
+    if (active && tail && tail.end === size) {
+      cutAt = Math.min(cutAt, tail.start);
+      corrupt.pop();
+    }
+    if (cutAt < size && !this.readOnly) {
+      await fsp!.truncate(seg.path, cutAt);
+    }
+
+    if (corrupt.length > 0) {
+      console.warn(
+        `[idb-repo] skipped ${corrupt.length} corrupt range(s) in ${seg.path}; run verify() to quarantine them`,
+      );
+    }
+    return { entries: applied, end: Math.max(from, cutAt) };
+  }
+
+  /**
+   * Scan the frames of a segment file from `from` up to `end` (its size
+   * by default), a window at a time
+   */
+  private async scanFile(file: string, from: number, end?: number) {
+    const fd = fs!.openSync(file, "r");
+    try {
+      const size = end ?? fs!.fstatSync(fd).size;
+      const win = new FileWindow(
+        (buf, pos) => this.fsRead(fd, buf, 0, buf.length, pos),
+        size,
+      );
+      return { ...(await scanFrames(win, from)), size };
+    } finally {
+      fs!.closeSync(fd);
+    }
+  }
+
+  /**
+   * Write the hint file of a sealed segment (via rename, so readers never
+   * see a partial one). It records the segment's size, and a digest
+   * guards against corruption; either mismatch makes open scan instead.
+   */
+  private async writeHint(fileId: number, entries: SegmentEntries) {
+    const { size } = await fsp!.stat(this.segmentPath(fileId));
+    const parts: Buffer[] = [];
+    const header = Buffer.alloc(HINT_HEADER_SIZE);
+    header.writeUInt32LE(HINT_MAGIC, 0);
+    header.writeUInt32LE(entries.length, 4);
+    header.writeDoubleLE(size, 8);
+    parts.push(header);
+
+    for (const [key, entry, ended] of entries) {
+      const keyBuf = Buffer.from(key, "utf8");
+      const metaBuf =
+        entry?.metadata != null
+          ? Buffer.from(JSON.stringify(entry.metadata), "utf8")
+          : Buffer.alloc(0);
+      const fixed = Buffer.alloc(HINT_ENTRY_SIZE);
+      fixed[0] = entry ? 0 : FLAG_TOMBSTONE;
+      fixed.writeUInt16LE(keyBuf.length, 1);
+      fixed.writeUInt32LE(metaBuf.length, 3);
+      if (entry) {
+        fixed.writeDoubleLE(entry.offset, 7);
+        fixed.writeDoubleLE(entry.size, 15);
+        fixed.writeDoubleLE(entry.ts, 23);
+        fixed.writeDoubleLE(entry.createdAt, 31);
+        fixed.writeDoubleLE(entry.version, 39);
+        fixed.writeDoubleLE(entry.expiresAt ?? 0, 47);
+      } else {
+        fixed.writeDoubleLE(ended ?? 0, 39);
+      }
+      parts.push(fixed, keyBuf, metaBuf);
+    }
+
+    const body = Buffer.concat(parts);
+    const digest = crypto!.createHash("sha256").update(body).digest();
+    const target = this.hintPath(fileId);
+    await fsp!.writeFile(target + ".tmp", Buffer.concat([body, digest]), {
+      mode: 0o600,
+    });
+    await fsp!.rename(target + ".tmp", target);
+  }
+
+  /**
+   * Load a segment's hint file
+   * @returns Its entries, or null when the hint is missing, corrupt or
+   * does not match the segment
+   */
+  private async readHint(seg: {
+    id: number;
+    path: string;
+  }): Promise<SegmentEntries | null> {
+    let buf: Buffer;
+    try {
+      buf = await fsp!.readFile(this.hintPath(seg.id));
+    } catch {
+      return null;
     }
+    if (buf.length < HINT_HEADER_SIZE + HINT_DIGEST_SIZE) return null;
+
+    const body = buf.subarray(0, buf.length - HINT_DIGEST_SIZE);
+    const digest = crypto!.createHash("sha256").update(body).digest();
+    if (!digest.equals(buf.subarray(body.length))) return null;
+    if (body.readUInt32LE(0) !== HINT_MAGIC) return null;
+    const { size } = await fsp!.stat(seg.path);
+    if (body.readDoubleLE(8) !== size) return null;
+
+    const entries: SegmentEntries = [];
+    const count = body.readUInt32LE(4);
+    let pos = HINT_HEADER_SIZE;
+    for (let i = 0; i < count; i++) {
+      if (pos + HINT_ENTRY_SIZE > body.length) return null;
+      const tombstone = (body[pos] ?? 0) & FLAG_TOMBSTONE;
+      const keyLen = body.readUInt16LE(pos + 1);
+      const metaLen = body.readUInt32LE(pos + 3);
+      const keyStart = pos + HINT_ENTRY_SIZE;
+      if (keyStart + keyLen + metaLen > body.length) return null;
+      const key = body.toString("utf8", keyStart, keyStart + keyLen);
+
+      if (tombstone) {
+        entries.push([key, null, body.readDoubleLE(pos + 39)]);
+      } else {
+        const expiresAt = body.readDoubleLE(pos + 47);
+        entries.push([
+          key,
+          {
+            fileId: seg.id,
+            offset: body.readDoubleLE(pos + 7),
+            size: body.readDoubleLE(pos + 15),
+            ts: body.readDoubleLE(pos + 23),
+            createdAt: body.readDoubleLE(pos + 31),
+            version: body.readDoubleLE(pos + 39),
+            expiresAt: expiresAt || null,
+            metadata:
+              metaLen > 0
+                ? JSON.parse(
+                    body.toString(
+                      "utf8",
+                      keyStart + keyLen,
+                      keyStart + keyLen + metaLen,
+                    ),
+                  )
+                : null,
+          },
+        ]);
+      }
+      pos = keyStart + keyLen + metaLen;
+    }
+    return pos === body.length ? entries : null;
   }
 
-  private async getReadFd(fileId: number): Promise<number> {
-    if (fileId === this.activeId && this.activeFd !== null)
-      return this.activeFd;
+  private hintPath(fileId: number): string {
+    return path!.join(this.dir, this.pad6(fileId) + ".hint");
+  }
 
+  /**
+   * Read fd of a segment, held until releaseReadFd(). The active segment
+   * gets one of its own too, so rotation never closes an fd under a read.
+   */
+  private acquireReadFd(fileId: number): ReadFd {
     let entry = this.fdCache.get(fileId);
-    if (entry) {
-      entry.last = performance.now();
-      return entry.fd;
+    if (!entry) {
+      const fd = fs!.openSync(this.segmentPath(fileId), "r");
+      entry = { fd, last: 0, refs: 0, retired: false };
+      this.fdCache.set(fileId, entry);
     }
+    entry.last = performance.now();
+    entry.refs++;
+    return entry;
+  }
+
+  private releaseReadFd(entry: ReadFd): void {
+    entry.refs--;
+    if (entry.retired && entry.refs === 0) fs!.closeSync(entry.fd);
+  }
 
-    const p = path!.join(this.dir, this.pad6(fileId) + ".kvlog");
-    const fd = fs!.openSync(p, "r");
-    this.fdCache.set(fileId, { fd, last: performance.now() });
-    return fd;
+  /**
+   * Stop handing out the cached read fds of these segments; each is closed
+   * once no read holds it
+   */
+  private retireReadFds(fileIds: number[]): void {
+    for (const id of fileIds) {
+      const entry = this.fdCache.get(id);
+      if (!entry) continue;
+      this.fdCache.delete(id);
+      entry.retired = true;
+      if (entry.refs === 0) fs!.closeSync(entry.fd);
+    }
   }
 
   private pad6(n: number): string {
     return String(n).padStart(6, "0");
   }
 
-  private fsWritev(fd: number, buffers: Buffer[]): Promise<number> {
+  /**
+   * Read `size` bytes of a file from `start`, STREAM_CHUNK at a time
+   */
+  private async *readChunks(
+    fd: number,
+    start: number,
+    size: number,
+  ): AsyncGenerator<Buffer> {
+    for (let done = 0; done < size;) {
+      const chunk = Buffer.alloc(Math.min(STREAM_CHUNK, size - done));
+      const n = await this.fsRead(fd, chunk, 0, chunk.length, start + done);
+      if (n === 0) throw new Error("Unexpected end of segment file");
+      done += n;
+      yield n < chunk.length ? chunk.subarray(0, n) : chunk;
+    }
+  }
+
+  /**
+   * Append `size` bytes of the file `src` from `start` to `dst`
+   */
+  private async copyRange(
+    src: number,
+    start: number,
+    size: number,
+    dst: number,
+  ): Promise<void> {
+    for await (const chunk of this.readChunks(src, start, size)) {
+      await this.fsWritev(dst, [chunk]);
+    }
+  }
+
+  /**
+   * Copy bytes [start, end) of `src` into a new file `dst`
+   */
+  private async copyToFile(
+    src: string,
+    start: number,
+    end: number,
+    dst: string,
+  ): Promise<void> {
+    const from = fs!.openSync(src, "r");
+    try {
+      const to = fs!.openSync(dst, "w", 0o600);
+      try {
+        await this.copyRange(from, start, end - start, to);
+      } finally {
+        fs!.closeSync(to);
+      }
+    } finally {
+      fs!.closeSync(from);
+    }
+  }
+
+  private async checksumRange(
+    fd: number,
+    start: number,
+    size: number,
+  ): Promise<number> {
+    let crc = 0;
+    for await (const chunk of this.readChunks(fd, start, size)) {
+      crc = crc32c(chunk, crc);
+    }
+    return crc;
+  }
+
+  /**
+   * Write all of `buffers`. One writev may write only part of them (Linux
+   * moves at most about 2 GiB per call), so the rest is written again.
+   */
+  private async fsWritev(fd: number, buffers: Buffer[]): Promise<number> {
+    let pending = buffers.filter((b) => b.length > 0);
+    let total = 0;
+    while (pending.length > 0) {
+      let written = await new Promise<number>((resolve, reject) => {
+        fs!.writev(fd, pending, (err, n) => {
+          if (err) reject(err);
+          else resolve(n);
+        });
+      });
+      if (written === 0) throw new Error("Write made no progress");
+      total += written;
+      while (written > 0) {
+        const head = pending[0]!;
+        if (written < head.length) {
+          pending[0] = head.subarray(written);
+          break;
+        }
+        written -= head.length;
+        pending.shift();
+      }
+    }
+    return total;
+  }
+
+  /**
+   * fsync the store's directory so the renames and deletions made in it
+   * survive a crash. Platforms that cannot open a directory (Windows) skip
+   * it.
+   */
+  private fsyncDir(): void {
+    let fd: number;
+    try {
+      fd = fs!.openSync(this.dir, "r");
+    } catch {
+      return;
+    }
+    try {
+      fs!.fsyncSync(fd);
+    } finally {
+      fs!.closeSync(fd);
+    }
+  }
+
+  private fsFsync(fd: number): Promise<void> {
     return new Promise((resolve, reject) => {
-      fs!.writev(fd, buffers, (err, written) => {
+      fs!.fsync(fd, (err) => {
         if (err) reject(err);
-        else resolve(written);
+        else resolve();
       });
     });
   }
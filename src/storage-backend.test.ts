@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import {
+  IDBFactory,
+  IDBKeyRange as FakeKeyRange,
+  IDBObjectStore as FakeObjectStore,
+} from "fake-indexeddb";
+import { IndexedDbStorageBackend } from "./storage-backend";
+import type { StoredRecord } from "./types";
+
+function record(key: string, overrides?: Partial<StoredRecord>): StoredRecord {
+  return {
+    key,
+    value: `value of ${key}`,
+    encoding: "text",
+    expiresAt: null,
+    metadata: null,
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+describe("IndexedDbStorageBackend", () => {
+  const saved = {
+    indexedDB: globalThis.indexedDB,
+    IDBKeyRange: globalThis.IDBKeyRange,
+  };
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    globalThis.IDBKeyRange = FakeKeyRange as typeof IDBKeyRange;
+  });
+
+  afterEach(() => {
+    globalThis.indexedDB = saved.indexedDB;
+    globalThis.IDBKeyRange = saved.IDBKeyRange;
+  });
+
+  it("pages through a prefix with limit and cursor", async () => {
+    const backend = new IndexedDbStorageBackend();
+    await backend.putMany(
+      ["a/1", "a/2", "a/3", "a/4", "a/5", "b/1"].map((k) => record(k)),
+    );
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    for (;;) {
+      const page = await backend.list({ prefix: "a/", limit: 2, cursor });
+      pages++;
+      seen.push(...page.keys.map((k) => k.name));
+      if (page.list_complete) break;
+      expect(page.keys).toHaveLength(2);
+      cursor = page.cursor;
+    }
+
+    expect(seen).toEqual(["a/1", "a/2", "a/3", "a/4", "a/5"]);
+    expect(pages).toBe(3);
+
+    const reversed = await backend.list({ prefix: "a/", reverse: true });
+    expect(reversed.keys.map((k) => k.name)).toEqual([
+      "a/5",
+      "a/4",
+      "a/3",
+      "a/2",
+      "a/1",
+    ]);
+    await backend.close();
+  });
+
+  it("lists keys and metadata without reading values", async () => {
+    const backend = new IndexedDbStorageBackend();
+    await backend.put(record("doc", { metadata: { kind: "pdf" } }));
+    await backend.put(
+      record("gone", { expiresAt: Date.now() - 1000, metadata: { x: 1 } }),
+    );
+    await backend.put(record("later", { expiresAt: Date.now() + 60_000 }));
+
+    const get = spyOn(FakeObjectStore.prototype, "get");
+    try {
+      const page = await backend.list({});
+      expect(page.keys.map((k) => k.name)).toEqual(["doc", "later"]);
+      expect(page.keys[0]!.metadata).toEqual({ kind: "pdf" });
+      expect(page.keys[1]!.expiration).toBeGreaterThan(Date.now() / 1000);
+      expect(page.records).toBeUndefined();
+      expect(get).not.toHaveBeenCalled();
+
+      const full = await backend.list({ includeRecords: true, limit: 1 });
+      expect(full.records!.map((r) => r.value)).toEqual(["value of doc"]);
+      expect(get).toHaveBeenCalledTimes(1);
+    } finally {
+      get.mockRestore();
+    }
+    await backend.close();
+  });
+
+  it("keeps listings in step with deletes and purges", async () => {
+    const backend = new IndexedDbStorageBackend();
+    await backend.putMany([
+      record("a"),
+      record("b"),
+      record("c", { expiresAt: Date.now() - 1000 }),
+    ]);
+    await backend.delete("a");
+    expect(await backend.purgeExpired({ limit: 10 })).toEqual(["c"]);
+
+    const page = await backend.list({});
+    expect(page.keys.map((k) => k.name)).toEqual(["b"]);
+    await backend.close();
+  });
+
+  it("continues a re-created key from the version it ended at", async () => {
+    const backend = new IndexedDbStorageBackend();
+    await backend.put(record("k"));
+    await backend.put(record("k"));
+    await backend.delete("k");
+    await backend.put(record("k"));
+    expect((await backend.get("k"))?.version).toBe(3);
+
+    await backend.put(record("k", { expiresAt: Date.now() - 1000 }));
+    await backend.purgeExpired({ limit: 10 });
+    await backend.put(record("k"));
+    expect((await backend.get("k"))?.version).toBe(5);
+    await backend.close();
+  });
+
+  it("applies a synchronous update in the transaction that reads", async () => {
+    const backend = new IndexedDbStorageBackend();
+    const commit = spyOn(backend, "commit");
+    const bump = (rec: StoredRecord | undefined) =>
+      record("n", { value: String(Number(rec?.value ?? 0) + 1) });
+
+    await Promise.all(
+      Array.from({ length: 20 }, () => backend.update("n", bump)),
+    );
+    await backend.update("n", () => null);
+    expect(commit).not.toHaveBeenCalled();
+    const rec = await backend.get("n");
+    expect(rec?.value).toBe("20");
+    expect(rec?.version).toBe(20);
+    await backend.close();
+  });
+
+  it("reruns an asynchronous update when the key changed meanwhile", async () => {
+    const backend = new IndexedDbStorageBackend();
+    await backend.put(record("n", { value: "1" }));
+
+    const seen: unknown[] = [];
+    await backend.update("n", async (rec) => {
+      seen.push(rec?.value);
+      // The first run races a write to the same key
+      if (seen.length === 1) await backend.put(record("n", { value: "5" }));
+      return record("n", { value: `${rec?.value}+1` });
+    });
+    expect(seen).toEqual(["1", "5"]);
+    expect((await backend.get("n"))?.value).toBe("5+1");
+    await backend.close();
+  });
+
+  it("builds the keys store of a store created before it existed", async () => {
+    await new Promise<void>((resolve, reject) => {
+      const req = indexedDB.open("kv", 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore("kv", { keyPath: "key" });
+        store.createIndex("key", "key", { unique: true });
+        store.createIndex("expiresAt", "expiresAt", { unique: false });
+        store.put(record("old/1", { metadata: { n: 1 }, version: 3 }));
+        store.put(record("old/2"));
+      };
+      req.onsuccess = () => {
+        req.result.close();
+        resolve();
+      };
+      req.onerror = () => reject(req.error);
+    });
+
+    const backend = new IndexedDbStorageBackend();
+    const page = await backend.list({ prefix: "old/" });
+    expect(page.keys).toEqual([
+      { name: "old/1", metadata: { n: 1 } },
+      { name: "old/2" },
+    ]);
+    await backend.close();
+  });
+});
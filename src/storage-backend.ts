@@ -1,80 +1,362 @@
 import type {
-  KVListOptions,
-  KVListResult,
+  StorageListOptions,
+  StorageListResult,
+  KVWriteCondition,
+  StorageChange,
   StoredRecord,
   KVListKey,
 } from "./types";
 import { nowMs, toEpochSeconds } from "./time-utils";
-import { encodeCursor, decodeCursor } from "./internal/cursor";
-import { IndexedDbConnection } from "./connection";
+import { encodeCursor } from "./internal/cursor";
+import { inScan, resolveScan, scanBounds } from "./internal/key-range";
+import { OrderedMap } from "./internal/ordered-map";
+import { ExpiryIndex } from "./internal/expiry-index";
+import {
+  IndexedDbConnection,
+  keyEntryOf,
+  keysStoreOf,
+  retiredStoreOf,
+  type KeyEntry,
+  type RetiredEntry,
+} from "./connection";
 import { promisifyRequest, waitTx } from "./internal/idb-utils";
+import {
+  checkWriteCondition,
+  liveRecord,
+  stampRecord,
+} from "./internal/versioning";
+import { ChangeFeed, type ChangeListener } from "./internal/change-feed";
+import { KVConflictError } from "./errors";
+
+/**
+ * A single write inside an atomic commit. "check" ops write nothing; they
+ * only assert a condition (used to validate what a transaction read).
+ */
+export type StorageWriteOp =
+  | { type: "put"; record: StoredRecord; condition?: KVWriteCondition }
+  | { type: "delete"; key: string; condition?: KVWriteCondition }
+  | { type: "check"; key: string; condition: KVWriteCondition };
+
+/**
+ * Computes the record update() stores in place of `current`, the key's live
+ * record, or null to leave the key as it is
+ */
+export type StorageUpdate = (
+  current: StoredRecord | undefined,
+) => StoredRecord | null | Promise<StoredRecord | null>;
+
+/**
+ * Which expired records a purge may remove: at most `limit`, taken from
+ * `keys` when given (each is removed only if it is still expired at that
+ * point) or found through the backend's expiration index otherwise.
+ */
+export type StoragePurgeOptions = {
+  limit: number;
+  keys?: string[];
+};
+
+/**
+ * A damaged byte range [start, end) of one log segment, and the keys whose
+ * current record was in it (those keys have been deleted)
+ */
+export type StorageCorruptRange = {
+  segment: number;
+  start: number;
+  end: number;
+  keys: string[];
+};
+
+/**
+ * Outcome of an integrity check
+ */
+export type StorageVerifyReport = {
+  segments: number;
+  records: number; // intact records
+  corrupt: StorageCorruptRange[];
+};
+
+/**
+ * Key targeted by a write op
+ */
+export function opKey(op: StorageWriteOp): string {
+  return op.type === "put" ? op.record.key : op.key;
+}
+
+/**
+ * Change notification for a write applied over `prev` (the raw stored
+ * record, expired or not). Returns null when nothing observable changed.
+ */
+export function describeChange(
+  key: string,
+  prev: Pick<StoredRecord, "metadata" | "expiresAt" | "version"> | undefined,
+  next: Pick<StoredRecord, "metadata" | "expiresAt" | "version"> | null,
+): StorageChange | null {
+  if (next) {
+    return {
+      type: "put",
+      key,
+      metadata: next.metadata ?? null,
+      expiresAt: next.expiresAt,
+      version: next.version ?? null,
+    };
+  }
+  if (!prev) return null;
+  return {
+    type:
+      prev.expiresAt !== null && prev.expiresAt <= nowMs()
+        ? "expire"
+        : "delete",
+    key,
+    metadata: prev.metadata ?? null,
+    expiresAt: prev.expiresAt,
+    version: prev.version ?? null,
+  };
+}
+
+/**
+ * Store what an asynchronous update computed from `current`, provided the
+ * key still holds that record
+ * @returns false when the key changed meanwhile and the update must rerun
+ */
+async function putIfUnchanged(
+  backend: StorageBackend,
+  current: StoredRecord | undefined,
+  pending: Promise<StoredRecord | null>,
+): Promise<boolean> {
+  const next = await pending;
+  if (!next) return true;
+  try {
+    await backend.put(
+      next,
+      current ? { ifVersion: current.version ?? 0 } : { onlyIfAbsent: true },
+    );
+    return true;
+  } catch (e) {
+    if (e instanceof KVConflictError) return false;
+    throw e;
+  }
+}
 
 /**
  * Interface for low-level storage backends
+ *
+ * Backends own record versions: every put stamps `version` (previous + 1)
+ * and keeps `createdAt` of the record it replaces. A deleted or expired
+ * key keeps the version it ended at, and a record written to it later
+ * continues from there. Conditions are checked atomically with the write
+ * and reject with KVConflictError.
  */
 export interface StorageBackend {
   get(key: string): Promise<StoredRecord | undefined>;
-  put(record: StoredRecord): Promise<void>;
-  delete(key: string): Promise<void>;
-  list(options: KVListOptions): Promise<KVListResult>;
+  put(record: StoredRecord, condition?: KVWriteCondition): Promise<void>;
+  delete(key: string, condition?: KVWriteCondition): Promise<void>;
+  // Prefix listing plus [start, end) bounds and direction; the cursor
+  // continues past the last key of the previous page
+  list(options: StorageListOptions): Promise<StorageListResult>;
   close(): Promise<void>;
+
+  // Batch operations; results of getMany are aligned with the requested keys
+  getMany(keys: string[]): Promise<Array<StoredRecord | undefined>>;
+  putMany(records: StoredRecord[]): Promise<void>;
+  deleteMany(keys: string[]): Promise<void>;
+
+  // Apply all ops or none; any failed condition rejects the whole commit
+  commit(ops: StorageWriteOp[]): Promise<void>;
+
+  // Read-modify-write of one key with no other write to it in between. A
+  // synchronous `fn` runs inside the write itself; an asynchronous one may
+  // be called again if the key changed while it was pending. `fn` must not
+  // write to the backend.
+  update(key: string, fn: StorageUpdate): Promise<void>;
+
+  // Observe applied writes, including those made through other handles on
+  // the same store where the backend can see them. Returns an unsubscribe.
+  subscribe(listener: ChangeListener): () => void;
+
+  // Remove expired records atomically with their expiry check, emitting
+  // "expire" changes. Resolves with the keys that were removed.
+  purgeExpired(options: StoragePurgeOptions): Promise<string[]>;
+
+  // Isolated keyspace stored alongside this one; the same name always
+  // yields the same backend, and closing this backend closes it too
+  namespace(name: string): StorageBackend;
+
+  // Reclaim space held by overwritten, deleted and expired records, for
+  // backends that store an append-only log
+  compact?(): Promise<unknown>;
+
+  // Check stored records for corruption and quarantine what is damaged,
+  // for backends that can detect it
+  verify?(): Promise<StorageVerifyReport>;
+
+  // Resolve once every write that completed before the call is durable,
+  // for backends where that is not already the case when writes resolve
+  flush?(): Promise<void>;
+
+  // Store a binary value read from `stream` without holding all of it in
+  // memory; `record.value` is ignored. For backends that store to disk.
+  putStream?(
+    record: StoredRecord,
+    stream: ReadableStream<Uint8Array>,
+    condition?: KVWriteCondition,
+  ): Promise<void>;
+
+  // Like get, but a binary value is returned as `stream`, read from
+  // storage as it is consumed, and `record.value` is null. `stream` is
+  // null for other encodings, whose value is in the record as usual.
+  getStream?(key: string): Promise<StoredStream | undefined>;
 }
 
+/**
+ * A record read with getStream
+ */
+export type StoredStream = {
+  record: StoredRecord;
+  stream: ReadableStream<Uint8Array> | null;
+};
+
 /**
  * In-memory storage backend for Node.js and browser fallback
  */
 export class MemoryStorageBackend implements StorageBackend {
-  private data = new Map<string, StoredRecord>();
+  private data = new OrderedMap<StoredRecord>();
+  private expiry = new ExpiryIndex();
+  // Version each deleted or purged key ended at
+  private retired = new Map<string, number>();
+  private feed = new ChangeFeed();
+  private namespaces = new Map<string, MemoryStorageBackend>();
 
   async get(key: string): Promise<StoredRecord | undefined> {
     return this.data.get(key);
   }
 
-  async put(record: StoredRecord): Promise<void> {
-    this.data.set(record.key, { ...record });
+  async put(record: StoredRecord, condition?: KVWriteCondition): Promise<void> {
+    await this.commit([{ type: "put", record, condition }]);
   }
 
-  async delete(key: string): Promise<void> {
-    this.data.delete(key);
+  async delete(key: string, condition?: KVWriteCondition): Promise<void> {
+    await this.commit([{ type: "delete", key, condition }]);
   }
 
-  async list(options: KVListOptions): Promise<KVListResult> {
-    const prefix = options.prefix ?? "";
-    const limit = Math.min(Math.max(1, options.limit ?? 1000), 10000);
-    const cursorRaw = options.cursor ?? null;
+  async getMany(keys: string[]): Promise<Array<StoredRecord | undefined>> {
+    return keys.map((k) => this.data.get(k));
+  }
+
+  async putMany(records: StoredRecord[]): Promise<void> {
+    await this.commit(records.map((record) => ({ type: "put", record })));
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    await this.commit(keys.map((key) => ({ type: "delete", key })));
+  }
 
-    let after: string | null = null;
-    if (cursorRaw) {
-      const decoded = decodeCursor(cursorRaw);
-      if (decoded && decoded.prefix === prefix) after = decoded.after;
+  async commit(ops: StorageWriteOp[]): Promise<void> {
+    // Stage every change first so a failed condition leaves data untouched
+    const staged = new Map<string, StoredRecord | null>();
+    // Versions the staged deletes end at
+    const ended = new Map<string, number>();
+    for (const op of ops) {
+      const key = opKey(op);
+      const current = staged.has(key) ? staged.get(key) : this.data.get(key);
+      const prev = liveRecord(current ?? undefined);
+      checkWriteCondition(key, prev, op.condition);
+      const last = current
+        ? (current.version ?? 0)
+        : (ended.get(key) ?? this.retired.get(key) ?? 0);
+      if (op.type === "put") {
+        staged.set(key, stampRecord(op.record, prev, last));
+      } else if (op.type === "delete") {
+        if (current) ended.set(key, last);
+        staged.set(key, null);
+      }
     }
 
-    const now = nowMs();
+    const changes: StorageChange[] = [];
+    for (const [key, rec] of staged) {
+      const change = describeChange(key, this.data.get(key), rec);
+      if (change) changes.push(change);
+      if (rec) {
+        this.data.set(key, rec);
+        this.expiry.set(key, rec.expiresAt);
+        this.retired.delete(key);
+      } else {
+        this.data.delete(key);
+        this.expiry.delete(key);
+        if (ended.has(key)) this.retired.set(key, ended.get(key)!);
+      }
+    }
+    this.feed.emit(changes);
+  }
+
+  async update(key: string, fn: StorageUpdate): Promise<void> {
+    for (;;) {
+      const current = liveRecord(this.data.get(key));
+      const next = fn(current);
+      if (next instanceof Promise) {
+        if (await putIfUnchanged(this, current, next)) return;
+        continue;
+      }
+      // commit() applies before its first await, so nothing runs in between
+      if (next) await this.commit([{ type: "put", record: next }]);
+      return;
+    }
+  }
 
-    // Filter and sort all keys
-    let keys = Array.from(this.data.keys())
-      .filter((k) => k.startsWith(prefix))
-      .sort();
+  subscribe(listener: ChangeListener): () => void {
+    return this.feed.subscribe(listener);
+  }
 
-    // Apply cursor
-    if (after !== null) {
-      const idx = keys.findIndex((k) => k > after);
-      keys = idx >= 0 ? keys.slice(idx) : [];
+  namespace(name: string): StorageBackend {
+    let ns = this.namespaces.get(name);
+    if (!ns) {
+      ns = new MemoryStorageBackend();
+      this.namespaces.set(name, ns);
     }
+    return ns;
+  }
+
+  async purgeExpired(options: StoragePurgeOptions): Promise<string[]> {
+    const now = nowMs();
+    const purged: string[] = [];
+    const changes: StorageChange[] = [];
+
+    for (const key of options.keys ?? this.expiry.expired(now)) {
+      if (purged.length >= options.limit) break;
+      const rec = this.data.get(key);
+      if (!rec || rec.expiresAt === null || rec.expiresAt > now) continue;
+      this.data.delete(key);
+      this.expiry.delete(key);
+      this.retired.set(key, rec.version ?? 0);
+      purged.push(key);
+      changes.push(describeChange(key, rec, null)!);
+    }
+
+    this.feed.emit(changes);
+    return purged;
+  }
+
+  async list(options: StorageListOptions): Promise<StorageListResult> {
+    const scan = resolveScan(options);
+    const prefix = scan.prefix;
+    const limit = Math.min(Math.max(1, options.limit ?? 1000), 10000);
+
+    const now = nowMs();
 
     const resultKeys: KVListKey[] = [];
+    const records: StoredRecord[] | undefined = options.includeRecords
+      ? []
+      : undefined;
     let lastKey: string | null = null;
     let listComplete = true;
 
-    for (const key of keys) {
+    // Seek straight to the scan's range (and cursor) in scan order
+    for (const [key, rec] of this.data.range(scanBounds(scan), scan.reverse)) {
+      if (!inScan(scan, key)) continue;
       if (resultKeys.length >= limit) {
         listComplete = false;
         break;
       }
 
-      const rec = this.data.get(key);
-      if (!rec) continue;
-
       if (rec.expiresAt && rec.expiresAt <= now) {
         // Background GC would happen here in a real store
         continue;
@@ -85,19 +367,30 @@ export class MemoryStorageBackend implements StorageBackend {
       if (rec.metadata) result.metadata = rec.metadata;
 
       resultKeys.push(result);
+      records?.push(rec);
       lastKey = key;
     }
 
     if (!listComplete && lastKey !== null) {
       const nextCursor = encodeCursor({ v: 1, prefix, after: lastKey });
-      return { keys: resultKeys, list_complete: false, cursor: nextCursor };
+      return {
+        keys: resultKeys,
+        list_complete: false,
+        cursor: nextCursor,
+        records,
+      };
     }
 
-    return { keys: resultKeys, list_complete: true };
+    return { keys: resultKeys, list_complete: true, records };
   }
 
   async close(): Promise<void> {
+    for (const ns of this.namespaces.values()) await ns.close();
+    this.namespaces.clear();
     this.data.clear();
+    this.expiry.clear();
+    this.retired.clear();
+    this.feed.clear();
   }
 }
 
@@ -106,107 +399,410 @@ export class MemoryStorageBackend implements StorageBackend {
  */
 export class IndexedDbStorageBackend implements StorageBackend {
   private conn: IndexedDbConnection;
+  // Namespaces share their parent's connection; only the owner closes it
+  private ownsConnection: boolean;
+  private dbName: string;
   private storeName: string;
+  // Key, metadata, expiry and version of each record, for listings
+  private keysName: string;
+  // Version each deleted or purged key ended at
+  private retiredName: string;
+  private feed = new ChangeFeed();
+  private namespaces = new Map<string, IndexedDbStorageBackend>();
+  // Relays changes to other tabs of the same origin; opened lazily
+  private channel: BroadcastChannel | null = null;
 
   constructor(opts?: {
     dbName?: string;
     storeName?: string;
     version?: number;
+    connection?: IndexedDbConnection;
   }) {
-    const dbName = opts?.dbName ?? "kv";
+    this.dbName = opts?.dbName ?? "kv";
     this.storeName = opts?.storeName ?? "kv";
+    this.keysName = keysStoreOf(this.storeName);
+    this.retiredName = retiredStoreOf(this.storeName);
     const version = opts?.version ?? 1;
-    this.conn = new IndexedDbConnection({
-      dbName,
-      storeName: this.storeName,
-      version,
-    });
+    this.ownsConnection = !opts?.connection;
+    this.conn =
+      opts?.connection ??
+      new IndexedDbConnection({
+        dbName: this.dbName,
+        storeName: this.storeName,
+        version,
+      });
+  }
+
+  private database(): Promise<IDBDatabase> {
+    return this.conn.dbWithStore(this.storeName);
+  }
+
+  /**
+   * A namespace is a sibling object store in the same database
+   */
+  namespace(name: string): StorageBackend {
+    let ns = this.namespaces.get(name);
+    if (!ns) {
+      ns = new IndexedDbStorageBackend({
+        dbName: this.dbName,
+        storeName: `${this.storeName}:${name}`,
+        connection: this.conn,
+      });
+      this.namespaces.set(name, ns);
+    }
+    return ns;
   }
 
   async get(key: string): Promise<StoredRecord | undefined> {
-    const db = await this.conn.db;
+    const db = await this.database();
     const tx = db.transaction(this.storeName, "readonly");
     const store = tx.objectStore(this.storeName);
     return (await promisifyRequest(store.get(key))) as StoredRecord | undefined;
   }
 
-  async put(record: StoredRecord): Promise<void> {
-    const db = await this.conn.db;
-    const tx = db.transaction(this.storeName, "readwrite");
+  async put(record: StoredRecord, condition?: KVWriteCondition): Promise<void> {
+    await this.commit([{ type: "put", record, condition }]);
+  }
+
+  async delete(key: string, condition?: KVWriteCondition): Promise<void> {
+    await this.commit([{ type: "delete", key, condition }]);
+  }
+
+  async getMany(keys: string[]): Promise<Array<StoredRecord | undefined>> {
+    if (keys.length === 0) return [];
+    const db = await this.database();
+    const tx = db.transaction(this.storeName, "readonly");
     const store = tx.objectStore(this.storeName);
-    store.put(record);
-    await waitTx(tx);
+    return (await Promise.all(
+      keys.map((k) => promisifyRequest(store.get(k))),
+    )) as Array<StoredRecord | undefined>;
+  }
+
+  async putMany(records: StoredRecord[]): Promise<void> {
+    await this.commit(records.map((record) => ({ type: "put", record })));
   }
 
-  async delete(key: string): Promise<void> {
-    const db = await this.conn.db;
-    const tx = db.transaction(this.storeName, "readwrite");
+  async deleteMany(keys: string[]): Promise<void> {
+    await this.commit(keys.map((key) => ({ type: "delete", key })));
+  }
+
+  /**
+   * Apply all ops in one readwrite transaction. Each op reads the current
+   * record, checks its condition and writes the stamped replacement (and
+   * its keys store entry); a failed condition aborts the transaction so
+   * nothing is applied.
+   */
+  async commit(ops: StorageWriteOp[]): Promise<void> {
+    if (ops.length === 0) return;
+    const db = await this.database();
+    const tx = db.transaction(
+      [this.storeName, this.keysName, this.retiredName],
+      "readwrite",
+    );
     const store = tx.objectStore(this.storeName);
-    store.delete(key);
-    await waitTx(tx);
+    const keyStore = tx.objectStore(this.keysName);
+    const retiredStore = tx.objectStore(this.retiredName);
+
+    let failure: unknown = null;
+    // Requests run in order, so a key touched twice sees its earlier staged write
+    const staged = new Map<string, StoredRecord | null>();
+    // Versions the staged deletes end at
+    const ended = new Map<string, number>();
+    const changes = new Map<string, StorageChange>();
+
+    for (const op of ops) {
+      const key = opKey(op);
+      const req = store.get(key);
+      const retiredReq = retiredStore.get(key);
+      // Runs after req's result is in
+      retiredReq.onsuccess = () => {
+        if (failure) return;
+        const current = staged.has(key)
+          ? staged.get(key)
+          : (req.result as StoredRecord | undefined);
+        const prev = liveRecord(current ?? undefined);
+        try {
+          checkWriteCondition(key, prev, op.condition);
+        } catch (e) {
+          failure = e;
+          tx.abort();
+          return;
+        }
+        if (op.type === "check") return;
+
+        const retired = retiredReq.result as RetiredEntry | undefined;
+        const last = current
+          ? (current.version ?? 0)
+          : (ended.get(key) ?? retired?.version ?? 0);
+        const next =
+          op.type === "put" ? stampRecord(op.record, prev, last) : null;
+        const change = describeChange(key, current ?? undefined, next);
+        if (change) changes.set(key, change);
+        staged.set(key, next);
+        if (next) {
+          store.put(next);
+          keyStore.put(keyEntryOf(next));
+          retiredStore.delete(key);
+        } else {
+          store.delete(key);
+          keyStore.delete(key);
+          if (current) {
+            ended.set(key, last);
+            retiredStore.put({ key, version: last } satisfies RetiredEntry);
+          }
+        }
+      };
+    }
+
+    try {
+      await waitTx(tx);
+    } catch (e) {
+      // Prefer the condition failure over the generic abort it caused
+      throw failure ?? e;
+    }
+
+    this.publish(Array.from(changes.values()));
   }
 
-  async list(options: KVListOptions): Promise<KVListResult> {
-    const prefix = options.prefix ?? "";
-    const limit = Math.min(Math.max(1, options.limit ?? 1000), 10000);
-    const cursorRaw = options.cursor ?? null;
+  /**
+   * A synchronous `fn` runs in the readwrite transaction that reads the
+   * record. The transaction cannot outlive an asynchronous one, whose
+   * result is written on the condition that the record is unchanged.
+   */
+  async update(key: string, fn: StorageUpdate): Promise<void> {
+    for (;;) {
+      const db = await this.database();
+      const tx = db.transaction(
+        [this.storeName, this.keysName, this.retiredName],
+        "readwrite",
+      );
+      const store = tx.objectStore(this.storeName);
+      const keyStore = tx.objectStore(this.keysName);
+      const retiredStore = tx.objectStore(this.retiredName);
+
+      let failure: unknown = null;
+      let current: StoredRecord | undefined;
+      let pending = null as Promise<StoredRecord | null> | null;
+      let change: StorageChange | null = null;
+
+      const req = store.get(key);
+      const retiredReq = retiredStore.get(key);
+      // Runs after req's result is in
+      retiredReq.onsuccess = () => {
+        const stored = req.result as StoredRecord | undefined;
+        current = liveRecord(stored);
+        let next: ReturnType<StorageUpdate>;
+        try {
+          next = fn(current);
+        } catch (e) {
+          failure = e;
+          tx.abort();
+          return;
+        }
+        if (next instanceof Promise) {
+          pending = next;
+          // Awaited once the transaction is over
+          next.catch(() => undefined);
+          return;
+        }
+        if (!next) return;
+
+        const retired = retiredReq.result as RetiredEntry | undefined;
+        const last = stored ? (stored.version ?? 0) : (retired?.version ?? 0);
+        const stamped = stampRecord(next, current, last);
+        change = describeChange(key, stored, stamped);
+        store.put(stamped);
+        keyStore.put(keyEntryOf(stamped));
+        retiredStore.delete(key);
+      };
+
+      try {
+        await waitTx(tx);
+      } catch (e) {
+        throw failure ?? e;
+      }
 
-    let after: string | null = null;
-    if (cursorRaw) {
-      const decoded = decodeCursor(cursorRaw);
-      if (decoded && decoded.prefix === prefix) after = decoded.after;
+      if (pending) {
+        if (await putIfUnchanged(this, current, pending)) return;
+        continue;
+      }
+      if (change) this.publish([change]);
+      return;
     }
+  }
 
-    const db = await this.conn.db;
-    const tx = db.transaction(this.storeName, "readonly");
+  /**
+   * Delete expired records in one readwrite transaction, walking the keys
+   * store's expiresAt index up to now (records without expiry are not
+   * indexed)
+   */
+  async purgeExpired(options: StoragePurgeOptions): Promise<string[]> {
+    if (options.limit <= 0 || options.keys?.length === 0) return [];
+    const db = await this.database();
+    const tx = db.transaction(
+      [this.storeName, this.keysName, this.retiredName],
+      "readwrite",
+    );
     const store = tx.objectStore(this.storeName);
+    const keyStore = tx.objectStore(this.keysName);
+    const retiredStore = tx.objectStore(this.retiredName);
+    const now = nowMs();
+    const changes: StorageChange[] = [];
+
+    const expire = (entry: KeyEntry) => {
+      changes.push(describeChange(entry.key, entry, null)!);
+      store.delete(entry.key);
+      keyStore.delete(entry.key);
+      retiredStore.put({
+        key: entry.key,
+        version: entry.version ?? 0,
+      } satisfies RetiredEntry);
+    };
+
+    if (options.keys) {
+      for (const key of options.keys) {
+        const req = keyStore.get(key);
+        req.onsuccess = () => {
+          const entry = req.result as KeyEntry | undefined;
+          if (changes.length >= options.limit) return;
+          if (!entry || entry.expiresAt === null || entry.expiresAt > now) {
+            return;
+          }
+          expire(entry);
+        };
+      }
+    } else {
+      const req = keyStore
+        .index("expiresAt")
+        .openCursor(IDBKeyRange.upperBound(now));
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return;
+        expire(cursor.value as KeyEntry);
+        if (changes.length < options.limit) cursor.continue();
+      };
+    }
+
+    await waitTx(tx);
+    this.publish(changes);
+    return changes.map((c) => c.key);
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.ensureChannel();
+    const unsubscribe = this.feed.subscribe(listener);
+    return () => {
+      unsubscribe();
+      if (this.feed.size === 0) this.closeChannel();
+    };
+  }
+
+  /**
+   * Notify local listeners and other tabs about committed changes
+   */
+  private publish(changes: StorageChange[]): void {
+    if (changes.length === 0) return;
+    this.feed.emit(changes);
+    this.ensureChannel()?.postMessage(changes);
+  }
+
+  private ensureChannel(): BroadcastChannel | null {
+    if (this.channel || typeof BroadcastChannel === "undefined") {
+      return this.channel;
+    }
+    this.channel = new BroadcastChannel(
+      `idb-repo:${this.dbName}:${this.storeName}`,
+    );
+    this.channel.onmessage = (ev: MessageEvent<StorageChange[]>) => {
+      if (Array.isArray(ev.data)) this.feed.emit(ev.data);
+    };
+    return this.channel;
+  }
+
+  private closeChannel(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  /**
+   * Page through the keys store with a cursor positioned directly at the
+   * scan bounds (the cursor's last key is an exclusive bound). Entries
+   * hold no values; records are read only with `includeRecords`. The walk
+   * stops once `limit` live entries are collected, so a page costs
+   * O(limit) however large the prefix is.
+   */
+  async list(options: StorageListOptions): Promise<StorageListResult> {
+    const scan = resolveScan(options);
+    const prefix = scan.prefix;
+    const limit = Math.min(Math.max(1, options.limit ?? 1000), 10000);
 
-    const lower = prefix;
-    const upper = prefix + "\uffff";
-    const range = IDBKeyRange.bound(lower, upper, false, false);
+    const bounds = scanBounds(scan);
+    if (!bounds) return { keys: [], list_complete: true };
 
-    const allRecs = (await promisifyRequest(
-      store.getAll(range),
-    )) as StoredRecord[];
+    const db = await this.database();
+    const tx = db.transaction([this.storeName, this.keysName], "readonly");
+    const store = tx.objectStore(this.storeName);
+
+    const range =
+      bounds.upper === null
+        ? IDBKeyRange.lowerBound(bounds.lower, bounds.lowerOpen)
+        : IDBKeyRange.bound(
+            bounds.lower,
+            bounds.upper,
+            bounds.lowerOpen,
+            bounds.upperOpen,
+          );
 
     const keys: KVListKey[] = [];
-    let listComplete = true;
+    // Full records, read only when asked for
+    const reads: IDBRequest[] = [];
     let lastKey: string | null = null;
-
+    let hasMore = false;
     const now = nowMs();
-    const afterIdx =
-      after !== null ? allRecs.findIndex((r) => r.key > after) : 0;
-    const startIdx = afterIdx < 0 ? allRecs.length : afterIdx;
 
-    for (let i = startIdx; i < allRecs.length && keys.length < limit; i++) {
-      const rec = allRecs[i];
-      if (!rec) continue;
-
-      if (rec.expiresAt && rec.expiresAt <= now) {
-        continue;
+    const req = tx
+      .objectStore(this.keysName)
+      .openCursor(range, scan.reverse ? "prev" : "next");
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      if (keys.length >= limit) {
+        hasMore = true;
+        return;
       }
 
-      const result: KVListKey = { name: rec.key };
-      if (rec.expiresAt) result.expiration = toEpochSeconds(rec.expiresAt);
-      if (rec.metadata) result.metadata = rec.metadata;
-
-      keys.push(result);
-      lastKey = rec.key;
-    }
+      const entry = cursor.value as KeyEntry;
+      if (!entry.expiresAt || entry.expiresAt > now) {
+        const result: KVListKey = { name: entry.key };
+        if (entry.expiresAt) {
+          result.expiration = toEpochSeconds(entry.expiresAt);
+        }
+        if (entry.metadata) result.metadata = entry.metadata;
+        keys.push(result);
+        lastKey = entry.key;
+        if (options.includeRecords) reads.push(store.get(entry.key));
+      }
+      cursor.continue();
+    };
 
-    if (keys.length >= limit && startIdx + keys.length < allRecs.length) {
-      listComplete = false;
-    }
+    await waitTx(tx);
+    const records = options.includeRecords
+      ? reads.map((r) => r.result as StoredRecord)
+      : undefined;
 
-    if (!listComplete && lastKey !== null) {
+    if (hasMore && lastKey !== null) {
       const nextCursor = encodeCursor({ v: 1, prefix, after: lastKey });
-      return { keys, list_complete: false, cursor: nextCursor };
+      return { keys, list_complete: false, cursor: nextCursor, records };
     }
 
-    return { keys, list_complete: true };
+    return { keys, list_complete: true, records };
   }
 
   async close(): Promise<void> {
-    await this.conn.close();
+    for (const ns of this.namespaces.values()) await ns.close();
+    this.namespaces.clear();
+    this.closeChannel();
+    this.feed.clear();
+    if (this.ownsConnection) await this.conn.close();
   }
 }
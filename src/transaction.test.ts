@@ -0,0 +1,186 @@
+import { describe, it, expect, spyOn } from "bun:test";
+import { KVStorageAdapter } from "./storage-adapter";
+import { MemoryStorageBackend } from "./storage-backend";
+import { BaseEncryptionProvider } from "./encryption/encryption-provider";
+import { KVConflictError } from "./errors";
+import type { KVListOptions } from "./types";
+
+class XorEncryptionProvider extends BaseEncryptionProvider {
+  readonly providerId = "xor-test";
+
+  async encrypt(plaintext: Uint8Array): Promise<Uint8Array> {
+    return plaintext.map((b) => b ^ 0x5a);
+  }
+
+  async decrypt(ciphertext: Uint8Array): Promise<Uint8Array> {
+    return this.encrypt(ciphertext);
+  }
+}
+
+describe("KVStorageAdapter.transaction", () => {
+  it("commits all writes together", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("from", "payload");
+
+    const returned = await kv.transaction(async (tx) => {
+      const value = await tx.get("from");
+      await tx.put("to", value);
+      await tx.delete("from");
+      return "moved";
+    });
+
+    expect(returned).toBe("moved");
+    expect(await kv.get("from")).toBeNull();
+    expect(await kv.get("to")).toBe("payload");
+  });
+
+  it("reads its own staged writes", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("a", "old");
+
+    await kv.transaction(async (tx) => {
+      await tx.put("a", "new");
+      expect(await tx.get("a")).toBe("new");
+      expect(await kv.get("a")).toBe("old");
+      await tx.delete("a");
+      expect(await tx.get("a")).toBeNull();
+    });
+
+    expect(await kv.get("a")).toBeNull();
+  });
+
+  it("applies nothing when the callback throws", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+
+    await expect(
+      kv.transaction(async (tx) => {
+        await tx.put("x", "1");
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    expect(await kv.get("x")).toBeNull();
+  });
+
+  it("rejects with KVConflictError when a read key changed concurrently", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("balance", "10");
+
+    await expect(
+      kv.transaction(async (tx) => {
+        const v = Number(await tx.get("balance"));
+        await kv.put("balance", "99"); // concurrent writer
+        await tx.put("balance", String(v + 1));
+        await tx.put("audit", "touched");
+      }),
+    ).rejects.toBeInstanceOf(KVConflictError);
+
+    expect(await kv.get("balance")).toBe("99");
+    expect(await kv.get("audit")).toBeNull();
+  });
+
+  it("overlays staged writes on list()", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("p/1", "a");
+    await kv.put("p/2", "b");
+
+    await kv.transaction(async (tx) => {
+      await tx.delete("p/1");
+      await tx.put("p/3", "c", { metadata: { staged: true } });
+      const result = await tx.list({ prefix: "p/" });
+      expect(result.keys).toEqual([
+        { name: "p/2" },
+        { name: "p/3", metadata: { staged: true } },
+      ]);
+    });
+  });
+
+  it("pages through staged writes listing each key once", async () => {
+    const backend = new MemoryStorageBackend();
+    const kv = new KVStorageAdapter(backend);
+    for (const k of ["p/1", "p/2", "p/4", "p/6"]) await kv.put(k, "x");
+
+    await kv.transaction(async (tx) => {
+      await tx.put("p/3", "staged");
+      await tx.put("p/5", "staged");
+      await tx.put("p/7", "staged");
+
+      // A backend page may come back empty before the listing ends
+      spyOn(backend, "list").mockImplementationOnce(async (options) => ({
+        keys: [],
+        list_complete: false,
+        cursor: options.cursor,
+      }));
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      for (;;) {
+        const page = await tx.list({ prefix: "p/", limit: 2, cursor });
+        seen.push(...page.keys.map((k) => k.name));
+        if (page.list_complete) break;
+        cursor = page.cursor;
+      }
+      expect(seen).toEqual(["p/1", "p/2", "p/3", "p/4", "p/5", "p/6", "p/7"]);
+
+      expect(
+        tx.list({ prefix: "p/", reverse: true } as KVListOptions),
+      ).rejects.toBeInstanceOf(TypeError);
+    });
+  });
+
+  it("returns staged and committed values from list() with includeValues", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("p/1", "a");
+    await kv.put("p/2", "b");
+
+    await kv.transaction(async (tx) => {
+      await tx.put("p/2", "staged");
+      const result = await tx.list({ prefix: "p/", includeValues: true });
+      expect(result.keys.map((k) => [k.name, k.value])).toEqual([
+        ["p/1", "a"],
+        ["p/2", "staged"],
+      ]);
+    });
+  });
+
+  it("encrypts staged values and keeps TTL", async () => {
+    const backend = new MemoryStorageBackend();
+    const kv = new KVStorageAdapter(backend, {
+      encryptionProvider: new XorEncryptionProvider(),
+    });
+
+    await kv.transaction(async (tx) => {
+      await tx.put("secret", { pin: 1234 }, { expirationTtl: 60 });
+      expect(await tx.get("secret", { type: "json" })).toEqual({ pin: 1234 });
+    });
+
+    const raw = await backend.get("secret");
+    expect(raw?.encoding).toBe("binary");
+    expect(raw?.expiresAt).toBeGreaterThan(Date.now());
+    expect(await kv.get("secret", { type: "json" })).toEqual({ pin: 1234 });
+  });
+
+  it("invalidates cached reads of written keys", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    await kv.put("c", "before");
+    expect(await kv.get("c", { cacheTtl: 60 })).toBe("before");
+
+    await kv.transaction(async (tx) => {
+      await tx.put("c", "after");
+    });
+
+    expect(await kv.get("c", { cacheTtl: 60 })).toBe("after");
+  });
+
+  it("refuses use of the handle after commit", async () => {
+    const kv = new KVStorageAdapter(new MemoryStorageBackend());
+    let leaked: Parameters<Parameters<typeof kv.transaction>[0]>[0] | null =
+      null;
+    await kv.transaction(async (tx) => {
+      leaked = tx;
+    });
+    await expect(leaked!.put("late", "x")).rejects.toThrow(
+      "Transaction already finished",
+    );
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Staged multi-key transactions over a StorageBackend
+ */
+
+import type {
+  KVDeleteOptions,
+  KVGetOptions,
+  KVGetType,
+  KVListKey,
+  KVListOptions,
+  KVListResult,
+  KVPutOptions,
+  KVTransaction,
+  KVValue,
+  KVWriteCondition,
+  StorageListOptions,
+  StoredRecord,
+} from "./types";
+import type { StorageBackend, StorageWriteOp } from "./storage-backend";
+import { assertKey } from "./internal/validation";
+import { liveRecord, checkWriteCondition } from "./internal/versioning";
+import { decodeCursor, encodeCursor } from "./internal/cursor";
+import { toEpochSeconds } from "./time-utils";
+
+/**
+ * Hooks into the adapter so staged values go through the same
+ * encoding/encryption path as regular puts and gets.
+ */
+export type TransactionCodec = {
+  encode(
+    key: string,
+    value: KVValue,
+    options?: KVPutOptions,
+  ): Promise<StoredRecord>;
+  decode(rec: StoredRecord, type: KVGetType): Promise<unknown>;
+};
+
+/**
+ * Buffers writes in memory and records the version of every key it reads.
+ * On commit, the writes plus a version check for each read are handed to
+ * StorageBackend.commit(), which applies them atomically or not at all.
+ */
+export class StagedTransaction implements KVTransaction {
+  // key -> staged record, or null for a staged delete
+  private writes = new Map<string, StoredRecord | null>();
+  // key -> condition describing what we read from the backend
+  private reads = new Map<string, KVWriteCondition>();
+  private finished = false;
+
+  constructor(
+    private backend: StorageBackend,
+    private codec: TransactionCodec,
+  ) {}
+
+  async get(key: string, options?: KVGetOptions): Promise<unknown> {
+    assertKey(key);
+    const rec = await this.current(key);
+    if (!rec) return null;
+    return this.codec.decode(rec, options?.type ?? "text");
+  }
+
+  async put(
+    key: string,
+    value: KVValue,
+    options?: KVPutOptions,
+  ): Promise<void> {
+    assertKey(key);
+    this.assertOpen();
+    if (hasCondition(options)) {
+      checkWriteCondition(key, await this.current(key), options);
+    }
+    const rec = await this.codec.encode(key, value, options);
+    this.writes.set(key, rec);
+  }
+
+  async delete(key: string, options?: KVDeleteOptions): Promise<void> {
+    assertKey(key);
+    this.assertOpen();
+    if (hasCondition(options)) {
+      checkWriteCondition(key, await this.current(key), options);
+    }
+    this.writes.set(key, null);
+  }
+
+  /**
+   * Lists committed keys overlaid with this transaction's staged writes.
+   * Listed keys are not version-checked at commit (only point reads are).
+   * Key ranges and reverse order are not supported here.
+   */
+  async list(options?: KVListOptions): Promise<KVListResult> {
+    this.assertOpen();
+    const opts = options ?? {};
+    const { start, end, reverse } = opts as StorageListOptions;
+    if (start !== undefined || end !== undefined || reverse) {
+      throw new TypeError(
+        "Key ranges and reverse order cannot be listed in a transaction",
+      );
+    }
+    const prefix = opts.prefix ?? "";
+    const limit = Math.min(Math.max(1, opts.limit ?? 1000), 10000);
+    const wantValues = opts.includeValues ?? false;
+    const page = await this.backend.list({
+      prefix: opts.prefix,
+      limit: opts.limit,
+      cursor: opts.cursor,
+      includeRecords: wantValues,
+    });
+
+    const names = new Map<string, KVListKey>();
+    const records = new Map<string, StoredRecord>();
+    page.keys.forEach((k, i) => {
+      names.set(k.name, k);
+      const rec = page.records?.[i];
+      if (rec) records.set(k.name, rec);
+    });
+
+    // The span this page covers: past the key the cursor ended at, and up
+    // to the page's last key unless the listing is complete. An empty page
+    // that is not the last covers none.
+    const after = opts.cursor
+      ? (decodeCursor(opts.cursor)?.after ?? null)
+      : null;
+    const lastName = page.keys[page.keys.length - 1]?.name ?? null;
+    const spanKnown = page.list_complete || lastName !== null;
+    for (const [key, rec] of this.writes) {
+      if (!key.startsWith(prefix)) continue;
+      if (rec === null || !liveRecord(rec)) {
+        names.delete(key);
+        continue;
+      }
+      // Only merge staged keys that fall inside the span this page covers
+      if (!spanKnown) continue;
+      if (after !== null && key <= after) continue;
+      if (!page.list_complete && key > lastName!) continue;
+      names.set(key, toListKey(rec));
+      records.set(key, rec);
+    }
+
+    let keys = Array.from(names.values()).sort((a, b) =>
+      a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+    );
+    const trimmed = keys.length > limit;
+    if (trimmed) keys = keys.slice(0, limit);
+
+    if (wantValues) {
+      for (const k of keys) {
+        const rec = records.get(k.name);
+        if (rec) k.value = await this.codec.decode(rec, opts.type ?? "text");
+      }
+    }
+
+    if (trimmed) {
+      const after = keys[keys.length - 1]!.name;
+      return {
+        keys,
+        list_complete: false,
+        cursor: encodeCursor({ v: 1, prefix, after }),
+      };
+    }
+    if (page.list_complete) return { keys, list_complete: true };
+    return { keys, list_complete: false, cursor: page.cursor };
+  }
+
+  /**
+   * Commit staged writes; rejects with KVConflictError if anything this
+   * transaction read was changed by someone else in the meantime.
+   */
+  async commit(): Promise<void> {
+    this.assertOpen();
+    this.finished = true;
+
+    const ops: StorageWriteOp[] = [];
+    for (const [key, condition] of this.reads) {
+      if (!this.writes.has(key)) ops.push({ type: "check", key, condition });
+    }
+    for (const [key, rec] of this.writes) {
+      const condition = this.reads.get(key);
+      ops.push(
+        rec
+          ? { type: "put", record: rec, condition }
+          : { type: "delete", key, condition },
+      );
+    }
+
+    if (this.writes.size > 0) await this.backend.commit(ops);
+  }
+
+  /**
+   * Keys with a staged put or delete
+   */
+  stagedKeys(): string[] {
+    return Array.from(this.writes.keys());
+  }
+
+  /**
+   * Discard staged writes
+   */
+  abort(): void {
+    this.finished = true;
+    this.writes.clear();
+    this.reads.clear();
+  }
+
+  /**
+   * The record as this transaction sees it: staged write first, otherwise
+   * the committed record (whose version is remembered for commit).
+   */
+  private async current(key: string): Promise<StoredRecord | undefined> {
+    this.assertOpen();
+    if (this.writes.has(key))
+      return liveRecord(this.writes.get(key) ?? undefined);
+
+    const rec = liveRecord(await this.backend.get(key));
+    if (!this.reads.has(key)) {
+      this.reads.set(
+        key,
+        rec ? { ifVersion: rec.version ?? 0 } : { onlyIfAbsent: true },
+      );
+    }
+    return rec;
+  }
+
+  private assertOpen(): void {
+    if (this.finished) throw new Error("Transaction already finished");
+  }
+}
+
+function hasCondition(options?: KVWriteCondition): boolean {
+  return (
+    !!options?.onlyIfAbsent ||
+    options?.ifVersion !== undefined ||
+    options?.ifMatch !== undefined
+  );
+}
+
+function toListKey(rec: StoredRecord): KVListKey {
+  const result: KVListKey = { name: rec.key };
+  if (rec.expiresAt) result.expiration = toEpochSeconds(rec.expiresAt);
+  if (rec.metadata) result.metadata = rec.metadata;
+  return result;
+}
@@ -14,22 +14,77 @@ export interface KVGetOptions {
   cacheTtl?: number; // seconds; best-effort in-memory cache
 }
 
-export interface KVPutOptions {
+export interface KVPutOptions extends KVWriteCondition {
   expiration?: number; // epoch seconds
   expirationTtl?: number; // seconds from now
   metadata?: unknown;
 }
 
+export interface KVMutateOptions {
+  initial?: number; // increment: starting value when the key is absent (default 0)
+  expiration?: number; // epoch seconds; default keeps the current expiry
+  expirationTtl?: number; // seconds from now
+  metadata?: unknown; // default keeps the current metadata
+}
+
+export interface KVReencryptOptions {
+  batchSize?: number; // records read per page (default 100)
+  onProgress?: (progress: KVReencryptProgress) => void; // after each page
+}
+
+export interface KVReencryptProgress {
+  scanned: number; // records looked at so far
+  reencrypted: number; // of those, rewritten under the current key
+}
+
+export interface KVKeyBlindingOptions {
+  secret: Uint8Array | string; // HMAC-SHA-256 key the stored tokens are made with
+}
+
+/**
+ * Optimistic-concurrency preconditions for put/delete.
+ * A write whose condition does not hold rejects with KVConflictError.
+ */
+export interface KVWriteCondition {
+  onlyIfAbsent?: boolean; // fail if a live record already exists
+  ifVersion?: number; // fail unless the current version matches
+  ifMatch?: string; // fail unless the current etag matches
+}
+
+export type KVDeleteOptions = Omit<KVWriteCondition, "onlyIfAbsent">;
+
+export interface KVPutEntry {
+  key: string;
+  value: KVValue;
+  options?: KVPutOptions;
+}
+
 export interface KVListOptions {
   prefix?: string;
   limit?: number; // default 1000
   cursor?: string; // opaque cursor returned from list()
+  includeValues?: boolean; // return each key's decoded value
+  type?: KVGetType; // decoding for values (default "text")
 }
 
+export interface KVIterateOptions {
+  prefix?: string;
+  start?: string; // inclusive lower bound
+  end?: string; // exclusive upper bound
+  reverse?: boolean; // descending key order
+  limit?: number; // total entries to yield (default unlimited)
+  batchSize?: number; // keys fetched per page (default 100)
+  includeValues?: boolean;
+  type?: KVGetType; // decoding for values (default "text")
+}
+
+export type KVIterateEntry = KVListKey;
+
 export interface KVListKey {
   name: string;
   expiration?: number; // epoch seconds
   metadata?: unknown;
+  value?: unknown; // only when includeValues is set
 }
 
 export interface KVListResult {
@@ -51,13 +106,63 @@ export interface KVNamespace {
   ): Promise<{
     value: string | ArrayBuffer | ReadableStream<Uint8Array> | unknown | null;
     metadata: T | null;
+    version?: number | null;
+    etag?: string | null;
   }>;
 
   put(key: string, value: KVValue, options?: KVPutOptions): Promise<void>;
-  delete(key: string): Promise<void>;
+  delete(key: string, options?: KVDeleteOptions): Promise<void>;
+  list(options?: KVListOptions): Promise<KVListResult>;
+
+  // Batch variants: one backend round trip for the whole set of keys
+  getMany(
+    keys: string[],
+    options?: KVGetOptions,
+  ): Promise<
+    Array<string | ArrayBuffer | ReadableStream<Uint8Array> | unknown | null>
+  >;
+  putMany(entries: KVPutEntry[]): Promise<void>;
+  deleteMany(keys: string[]): Promise<void>;
+}
+
+/**
+ * Handle passed to KVStorageAdapter.transaction(). Reads see the
+ * transaction's own staged writes; writes become visible to others only
+ * when the transaction commits, all together.
+ */
+export interface KVTransaction {
+  get(
+    key: string,
+    options?: KVGetOptions,
+  ): Promise<
+    string | ArrayBuffer | ReadableStream<Uint8Array> | unknown | null
+  >;
+  put(key: string, value: KVValue, options?: KVPutOptions): Promise<void>;
+  delete(key: string, options?: KVDeleteOptions): Promise<void>;
   list(options?: KVListOptions): Promise<KVListResult>;
 }
 
+export type KVChangeType = "put" | "delete" | "expire";
+
+export interface KVChangeEvent {
+  type: KVChangeType;
+  key: string;
+  metadata: unknown | null;
+  expiration?: number; // epoch seconds
+  version?: number;
+  // decoded new value, only for "put" events when includeValue is set
+  value?: unknown;
+}
+
+export interface KVWatchOptions {
+  prefix?: string;
+  keys?: string[];
+  includeValue?: boolean;
+  type?: KVGetType; // decoding for value (default "text")
+}
+
+export type KVWatchListener = (event: KVChangeEvent) => void;
+
 export type StoredEncoding = "text" | "json" | "clone" | "binary";
 
 export type StoredRecord = {
@@ -76,6 +181,29 @@ export type StoredRecord = {
   // timestamps for diagnostics / future GC strategies
   createdAt: number;
   updatedAt: number;
+  // per-key write counter, assigned by the backend (absent on legacy records)
+  version?: number;
+};
+
+// Change notification emitted by a backend after a write is applied
+export type StorageChange = {
+  type: KVChangeType;
+  key: string;
+  metadata: unknown | null;
+  expiresAt: number | null;
+  version: number | null;
+};
+
+// Backend list options; range scans extend the public prefix listing
+export type StorageListOptions = KVListOptions & {
+  start?: string;
+  end?: string;
+  reverse?: boolean;
+  includeRecords?: boolean; // return raw records aligned with keys
+};
+
+export type StorageListResult = KVListResult & {
+  records?: StoredRecord[];
 };
 
 export type InternalListCursor = {
@@ -96,4 +224,10 @@ export type KVAdapterOptions = {
   cacheEntries?: number;
   encryptionProvider?: BaseEncryptionProvider;
   encryptionKeyId?: string;
+  encryptMetadata?: boolean; // encrypt metadata too; needs encryptionProvider
+  blindKeys?: KVKeyBlindingOptions; // store keys as HMAC tokens; implies encryptMetadata
+  allowPlaintextMetadata?: boolean; // read metadata stored before encryptMetadata instead of rejecting it
+  sweepIntervalMs?: number; // background purge of expired records; off when unset or 0
+  sweepBatchSize?: number; // records removed per backend batch (default 256)
+  onSweep?: (purged: number) => void;
 };
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "bun:test";
 import { createKV, IndexedDbKV } from "./kv";
 import { KVStorageAdapter } from "./storage-adapter";
+import { MemoryStorageBackend } from "./storage-backend";
+import { WebCryptoEncryptionProvider } from "./encryption/web/web-provider";
 
 describe("createKV factory", () => {
   it("creates a Memory-backed KV when forced", async () => {
@@ -13,6 +15,24 @@ describe("createKV factory", () => {
     expect(await kv.get("key")).toBe("value");
   });
 
+  it("seals metadata and blinds keys of a Memory-backed KV", async () => {
+    const kv = createKV({
+      forceMemory: true,
+      encryptionProvider: new WebCryptoEncryptionProvider("value key"),
+      encryptMetadata: true,
+      blindKeys: { secret: "blinding key" },
+    });
+    await kv.put("user:1", "a", { metadata: { owner: "alice" } });
+
+    const backend = (kv as any).backend.inner as MemoryStorageBackend;
+    const { keys, records } = await backend.list({ includeRecords: true });
+    expect(keys.map((k) => k.name)).not.toContain("user:1");
+    expect(Object.keys(records![0]!.metadata as object)).toEqual(["$sealed"]);
+    expect((await kv.getWithMetadata("user:1")).metadata).toEqual({
+      owner: "alice",
+    });
+  });
+
   it("creates a Memory-backed KV when indexedDB is missing", async () => {
     // Mock indexedDB being undefined
     const oldIDB = globalThis.indexedDB;